@@ -1,5 +1,6 @@
 //ai/actions.ts
-import { Tool, ToolCall, ToolResult } from "./types";
+import { MAX_PLAN_STEPS } from "./plan-mode";
+import { AgentPlan, PlanStep, Tool, ToolCall, ToolResult } from "./types";
 import { generateUUID } from "@/lib/utils";
 import { GoogleGenAI } from "@google/genai"; // Import GoogleGenAI
 
@@ -100,6 +101,32 @@ export class EnhancedAgenticEngine {
     return intent;
   }
 
+  // Plan mode: proposes a step plan for a complex request, or returns null when the request is simple enough
+  // to answer directly. The plan is only proposed here; the chat loop carries it out once the user approves it.
+  public async createPlan(userMessage: string): Promise<AgentPlan | null> {
+    const semantics = this.analyzeSemantics(userMessage);
+    semantics.context = { originalMessage: userMessage };
+    if (!this.needsPlan(userMessage, semantics)) {
+      return null;
+    }
+
+    const userGoal = await this.extractPrimaryGoal(semantics);
+    const subGoals = (await this.decomposeIntoSubGoals(userGoal, semantics)).slice(0, MAX_PLAN_STEPS);
+    if (subGoals.length < 2) {
+      return null;
+    }
+    const toolStrategy = await this.planToolStrategy(subGoals, semantics);
+    const executionPlan = this.generateAdaptiveExecutionPlan(subGoals, toolStrategy);
+
+    const steps: PlanStep[] = subGoals.map((goal, index) => ({
+      id: `step_${index + 1}`,
+      title: goal,
+      tools: this.getPlanStepTools(goal, toolStrategy[index], executionPlan),
+      status: 'pending',
+    }));
+    return { id: generateUUID(), goal: userGoal, status: 'proposed', steps };
+  }
+
   public async executeEnhancedWorkflow(
     intent: EnhancedActionIntent,
     userMessage: string,
@@ -152,6 +179,29 @@ export class EnhancedAgenticEngine {
     };
   }
 
+  // Short or explicitly simple requests, and those asking for a single action, are answered without a plan
+  private needsPlan(message: string, semantics: any): boolean {
+    const wordCount = message.trim().split(/\s+/).filter(Boolean).length;
+    if (semantics.complexity === 'low' || wordCount < 8) return false;
+    return semantics.complexity === 'high' || semantics.actions.length >= 2 || wordCount >= 40;
+  }
+
+  // Tools a plan step is expected to use: those the execution plan assigned to its goal, plus any
+  // registered tool its strategy names
+  private getPlanStepTools(goal: string, strategy: string | undefined, executionPlan: ExecutionStep[]): string[] {
+    const tools = new Set<string>();
+    const step = executionPlan.find(candidate => candidate.action === goal);
+    if (step) {
+      [step.tool, ...step.fallbackTools].forEach(tool => tools.add(tool));
+    }
+    if (strategy) {
+      Array.from(this.tools.keys())
+        .filter(tool => strategy.includes(tool))
+        .forEach(tool => tools.add(tool));
+    }
+    return Array.from(tools).filter(tool => this.tools.has(tool));
+  }
+
   private analyzeSemantics(message: string): any {
     const entities = this.extractEntities(message);
     const actions = this.extractActionPatterns(message);
@@ -0,0 +1,101 @@
+//ai/agent-budget.ts
+import { LLMUsage } from "./providers";
+
+export interface AgentBudgetLimits {
+  maxToolRounds: number; // Model turns that end in tool calls
+  maxToolCalls: number; // Total tool calls across all rounds
+  maxElapsedMs: number; // Wall-clock time for the whole agent loop
+  maxInputTokens: number; // Sum of input tokens across model calls
+  maxOutputTokens: number; // Sum of output + thinking tokens across model calls
+}
+
+export type BudgetExceededReason =
+  | "tool_rounds"
+  | "tool_calls"
+  | "elapsed_time"
+  | "input_tokens"
+  | "output_tokens";
+
+export interface AgentBudgetUsage {
+  toolRounds: number;
+  toolCalls: number;
+  elapsedMs: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const reasonMessages: Record<BudgetExceededReason, string> = {
+  tool_rounds: "the maximum number of tool rounds",
+  tool_calls: "the maximum number of tool calls",
+  elapsed_time: "the time limit",
+  input_tokens: "the input token limit",
+  output_tokens: "the output token limit",
+};
+
+/**
+ * Tracks how much work the agent loop has done for a single request and
+ * decides when it has to stop calling tools.
+ */
+export class AgentBudget {
+  private limits: AgentBudgetLimits;
+  private startedAt: number;
+  private toolRounds = 0;
+  private toolCalls = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  // Pass the usage saved with a paused turn to carry on from it; the time spent waiting for the user is not counted
+  constructor(limits: AgentBudgetLimits, usage?: AgentBudgetUsage) {
+    this.limits = limits;
+    this.startedAt = Date.now() - (usage?.elapsedMs || 0);
+    this.toolRounds = usage?.toolRounds || 0;
+    this.toolCalls = usage?.toolCalls || 0;
+    this.inputTokens = usage?.inputTokens || 0;
+    this.outputTokens = usage?.outputTokens || 0;
+  }
+
+  // Record the final usage of one generateContentStream call
+  public recordUsage(usage?: LLMUsage): void {
+    if (!usage) return;
+    this.inputTokens += usage.inputTokens || 0;
+    this.outputTokens += usage.outputTokens || 0;
+  }
+
+  public recordToolRound(callCount: number): void {
+    this.toolRounds += 1;
+    this.toolCalls += callCount;
+  }
+
+  // Returns the first exhausted limit, taking the calls about to run into account
+  public checkBeforeToolRound(pendingCalls: number): BudgetExceededReason | null {
+    if (this.toolRounds >= this.limits.maxToolRounds) return "tool_rounds";
+    if (this.toolCalls + pendingCalls > this.limits.maxToolCalls) return "tool_calls";
+    if (Date.now() - this.startedAt >= this.limits.maxElapsedMs) return "elapsed_time";
+    if (this.inputTokens >= this.limits.maxInputTokens) return "input_tokens";
+    if (this.outputTokens >= this.limits.maxOutputTokens) return "output_tokens";
+    return null;
+  }
+
+  public getUsage(): AgentBudgetUsage {
+    return {
+      toolRounds: this.toolRounds,
+      toolCalls: this.toolCalls,
+      elapsedMs: Date.now() - this.startedAt,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+    };
+  }
+
+  public getLimits(): AgentBudgetLimits {
+    return this.limits;
+  }
+
+  public describe(reason: BudgetExceededReason): string {
+    return `I reached ${reasonMessages[reason]} for this request, so I stopped running further actions.`;
+  }
+
+  // Instruction sent to the model so it wraps up instead of calling more tools
+  public getSummaryPrompt(reason: BudgetExceededReason): string {
+    return `The execution budget for this request is exhausted (${reasonMessages[reason]}). Do not call any more tools. Summarize the work completed so far, the partial results you have, and what is still left to do so the user can continue in a follow-up message.`;
+  }
+}
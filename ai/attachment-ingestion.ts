@@ -0,0 +1,137 @@
+//ai/attachment-ingestion.ts
+import { AttachmentFormat } from "@/lib/attachment-formats";
+import { extractDocxText, parseCsv, parseXlsx, TableCell } from "@/lib/office-files";
+import redis, { redisKeys } from "@/lib/redis";
+
+// Text, spreadsheet and Word attachments are converted to text the model can read. Spreadsheets
+// also become datasets stored in Redis, which query_dataset can filter and aggregate. Datasets are stored per
+// user, as their ids are derived from the file URL and the same file may be attached by several users.
+
+export interface Dataset {
+  id: string;
+  userId: string; // The user who attached the file; nobody else's query_dataset calls can read it
+  name: string; // File name, plus the sheet name for workbooks
+  columns: string[];
+  rows: Record<string, TableCell>[];
+  totalRows: number;
+  truncated: boolean; // True when the file had more rows than are stored
+  createdAt: string;
+}
+
+const MAX_TEXT_CHARS = 60_000;
+const MAX_DATASET_ROWS = 5_000;
+const MAX_SHEETS = 5;
+const PREVIEW_ROWS = 15;
+const DATASET_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_DATASET_BYTES = 900_000; // Stays under the Redis request size limit
+
+export async function getDataset(userId: string, id: string): Promise<Dataset | null> {
+  const dataset = await redis.get<Dataset>(redisKeys.dataset(userId, id));
+  return dataset?.userId === userId ? dataset : null;
+}
+
+// Wide tables are cut down to fit the size limit; the stored (possibly shortened) dataset is returned
+async function saveDataset(dataset: Dataset): Promise<Dataset> {
+  let stored = dataset;
+  const size = JSON.stringify(dataset).length;
+  if (size > MAX_DATASET_BYTES) {
+    const keep = Math.max(1, Math.floor(dataset.rows.length * (MAX_DATASET_BYTES / size)));
+    stored = { ...dataset, rows: dataset.rows.slice(0, keep), totalRows: keep, truncated: true };
+  }
+  await redis.set(redisKeys.dataset(stored.userId, stored.id), stored, { ex: DATASET_TTL_SECONDS });
+  return stored;
+}
+
+function truncateText(text: string): string {
+  if (text.length <= MAX_TEXT_CHARS) return text;
+  return `${text.slice(0, MAX_TEXT_CHARS)}\n\n[… truncated: showing the first ${MAX_TEXT_CHARS.toLocaleString()} of ${text.length.toLocaleString()} characters]`;
+}
+
+function uniqueColumnNames(header: TableCell[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const base = String(header[index] ?? "").trim() || `column_${index + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
+
+// The first row is the header; tables are read one row past the limit to tell whether anything was cut off
+function toDataset(userId: string, id: string, name: string, table: TableCell[][]): Dataset {
+  const truncated = table.length > MAX_DATASET_ROWS + 1;
+  const width = Math.max(0, ...table.map((row) => row.length));
+  const columns = uniqueColumnNames(table[0] || [], width);
+  const rows = table.slice(1, MAX_DATASET_ROWS + 1).map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? null])));
+  return { id, userId, name, columns, rows, totalRows: rows.length, truncated, createdAt: new Date().toISOString() };
+}
+
+function describeColumn(dataset: Dataset, column: string): string {
+  const values = dataset.rows.map((row) => row[column]).filter((value) => value !== null && value !== "");
+  const numeric = values.length > 0 && values.every((value) => typeof value === "number");
+  return `${column} (${numeric ? "number" : "text"})`;
+}
+
+function escapeCell(value: TableCell): string {
+  return String(value ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ").slice(0, 80);
+}
+
+function describeDataset(dataset: Dataset, sourceLabel: string): string {
+  const header = `| ${dataset.columns.map((column) => escapeCell(column)).join(" | ")} |`;
+  const divider = `| ${dataset.columns.map(() => "---").join(" | ")} |`;
+  const preview = dataset.rows
+    .slice(0, PREVIEW_ROWS)
+    .map((row) => `| ${dataset.columns.map((column) => escapeCell(row[column])).join(" | ")} |`);
+
+  return [
+    `[${sourceLabel}: ${dataset.totalRows.toLocaleString()}${dataset.truncated ? "+" : ""} rows × ${dataset.columns.length} columns]`,
+    `Dataset id: ${dataset.id} — use query_dataset with this id to filter, aggregate or fetch rows (e.g. as data for data_visualization).`,
+    `Columns: ${dataset.columns.map((column) => describeColumn(dataset, column)).join(", ")}`,
+    `Preview (first ${Math.min(PREVIEW_ROWS, dataset.rows.length)} rows):`,
+    header,
+    divider,
+    ...preview,
+  ].join("\n");
+}
+
+// Returns the text the model sees for a non-native attachment. Spreadsheet datasets are saved as a side effect.
+export async function ingestAttachment(
+  format: AttachmentFormat,
+  fileName: string,
+  buffer: Buffer,
+  userId: string,
+  datasetIdBase: string
+): Promise<string> {
+  if (format.id === "docx") {
+    const text = extractDocxText(buffer);
+    return `[Word document "${fileName}"]\n${truncateText(text || "(the document has no text)")}`;
+  }
+
+  if (format.kind === "text") {
+    return `[File "${fileName}"]\n${truncateText(buffer.toString("utf8"))}`;
+  }
+
+  if (format.id === "csv") {
+    const table = parseCsv(buffer.toString("utf8"), MAX_DATASET_ROWS + 2);
+    const dataset = await saveDataset(toDataset(userId, datasetIdBase, fileName, table));
+    return describeDataset(dataset, `CSV file "${fileName}"`);
+  }
+
+  if (format.id === "xlsx") {
+    const sheets = parseXlsx(buffer, MAX_DATASET_ROWS + 2).filter((sheet) => sheet.rows.length > 0);
+    if (sheets.length === 0) return `[Excel workbook "${fileName}" has no data]`;
+
+    const descriptions: string[] = [];
+    for (const [index, sheet] of sheets.slice(0, MAX_SHEETS).entries()) {
+      const id = index === 0 ? datasetIdBase : `${datasetIdBase}_${index + 1}`;
+      const dataset = await saveDataset(toDataset(userId, id, `${fileName} / ${sheet.name}`, sheet.rows));
+      descriptions.push(describeDataset(dataset, `Excel workbook "${fileName}", sheet "${sheet.name}"`));
+    }
+    if (sheets.length > MAX_SHEETS) {
+      descriptions.push(`[${sheets.length - MAX_SHEETS} more sheets were not loaded]`);
+    }
+    return descriptions.join("\n\n");
+  }
+
+  throw new Error(`${format.label} cannot be converted to text`);
+}
@@ -0,0 +1,272 @@
+//ai/attachments.ts
+import crypto from "crypto";
+
+import { FileState, GoogleGenAI } from "@google/genai";
+
+import { AttachmentFormat, detectAttachmentFormat, getAttachmentSizeError } from "@/lib/attachment-formats";
+import redis, { redisKeys } from "@/lib/redis";
+
+import { ingestAttachment } from "./attachment-ingestion";
+import { Attachment, Message } from "./types";
+
+export interface AttachmentResolverOptions {
+  userId: string; // Extracted text and datasets are stored for this user
+  geminiApiKey?: string;
+  useFilesApi: boolean; // Only Gemini can read Files API uris; other providers always get inline data
+  inlineMaxBytes?: number; // Larger files go through the Files API
+  inlineBudgetBytes?: number; // Total inline data per request before the rest goes through the Files API
+}
+
+interface CachedGeminiFile {
+  uri: string;
+  mimeType: string;
+  name: string;
+}
+
+const DEFAULT_INLINE_MAX_BYTES = 4 * 1024 * 1024;
+const DEFAULT_INLINE_BUDGET_BYTES = 14 * 1024 * 1024;
+// Gemini deletes uploaded files after 48 hours; the cache entry expires a little earlier
+const GEMINI_FILE_TTL_SECONDS = 46 * 60 * 60;
+const FILE_ACTIVE_TIMEOUT_MS = 30_000;
+// Extracted text and datasets live as long as the chats that reference them are likely to be revisited
+const ATTACHMENT_TEXT_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Uploads go to Vercel Blob, whose public URLs are served from a per-store subdomain
+const BLOB_HOST_SUFFIX = ".public.blob.vercel-storage.com";
+
+// Small files downloaded by this process, so a warm instance does not refetch them every turn
+const INLINE_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+const inlineCache = new Map<string, { mimeType: string; data: string; bytes: number }>();
+let inlineCacheBytes = 0;
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Images, PDFs and audio go to the model as files; everything else is converted to text first
+function isNativeFormat(format: AttachmentFormat): boolean {
+  return format.kind === "image" || format.kind === "pdf" || format.kind === "audio";
+}
+
+function hashUrl(url: string): string {
+  return crypto.createHash("sha256").update(url).digest("hex");
+}
+
+function rememberInline(url: string, entry: { mimeType: string; data: string; bytes: number }) {
+  if (url.startsWith("data:") || entry.bytes > INLINE_CACHE_MAX_BYTES / 4) return;
+  inlineCache.set(url, entry);
+  inlineCacheBytes += entry.bytes;
+  // Oldest entries go first once the cache is full
+  for (const [key, value] of inlineCache) {
+    if (inlineCacheBytes <= INLINE_CACHE_MAX_BYTES) break;
+    inlineCache.delete(key);
+    inlineCacheBytes -= value.bytes;
+  }
+}
+
+class AttachmentSizeError extends Error {}
+
+function assertSize(format: AttachmentFormat, bytes: number): void {
+  const error = getAttachmentSizeError(format, bytes);
+  if (error) throw new AttachmentSizeError(error);
+}
+
+// The store id is the fourth part of a read-write token, vercel_blob_rw_<storeId>_<secret>
+function getBlobStoreHost(): string | null {
+  const [, , , storeId] = (process.env.BLOB_READ_WRITE_TOKEN || "").split("_");
+  return storeId ? `${storeId.toLowerCase()}${BLOB_HOST_SUFFIX}` : null;
+}
+
+// Attachment URLs come from the client, so the server only fetches the ones the upload route hands out
+function isAllowedAttachmentUrl(url: string): boolean {
+  if (url.startsWith("data:")) return true;
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== "https:") return false;
+    const storeHost = getBlobStoreHost();
+    return storeHost ? hostname === storeHost : hostname.endsWith(BLOB_HOST_SUFFIX);
+  } catch {
+    return false;
+  }
+}
+
+async function download(url: string): Promise<Buffer> {
+  if (url.startsWith("data:")) {
+    return Buffer.from(url.slice(url.indexOf(",") + 1), "base64");
+  }
+  if (!isAllowedAttachmentUrl(url)) {
+    throw new Error("Attachment URL is not from this app's file storage");
+  }
+  const response = await fetch(url, { redirect: "error" });
+  if (!response.ok) {
+    throw new Error(`Failed to download attachment (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Turns message attachments into model content parts. Files above the inline limit are uploaded
+// to the Gemini Files API once and the resulting uri is cached in Redis by blob URL; documents and
+// spreadsheets are extracted to text once and cached the same way.
+export class AttachmentResolver {
+  private options: Required<Omit<AttachmentResolverOptions, "geminiApiKey">>;
+  private ai: GoogleGenAI | null;
+  private inlineBytesUsed = 0;
+  private inlineSources = new WeakMap<object, Attachment>(); // The attachment each inline part was read from
+
+  constructor(options: AttachmentResolverOptions) {
+    this.options = {
+      userId: options.userId,
+      useFilesApi: options.useFilesApi && !!options.geminiApiKey,
+      inlineMaxBytes: options.inlineMaxBytes ?? readNumberEnv("ATTACHMENT_INLINE_MAX_BYTES", DEFAULT_INLINE_MAX_BYTES),
+      inlineBudgetBytes: options.inlineBudgetBytes ?? DEFAULT_INLINE_BUDGET_BYTES,
+    };
+    this.ai = this.options.useFilesApi ? new GoogleGenAI({ apiKey: options.geminiApiKey! }) : null;
+  }
+
+  // Parts for a message: images first (as Gemini recommends), then the text, then other files
+  public async buildMessageParts(message: Message): Promise<any[]> {
+    const attachments = (message.attachments || []).filter((attachment) => attachment?.url);
+    if (message.role === "assistant") {
+      // Files the assistant produced are referenced by name; the model already knows what it generated
+      const names = attachments.map((attachment) => attachment.name || attachment.contentType).filter(Boolean);
+      const note = names.length > 0 ? `\n\n[Attached to this reply: ${names.join(", ")}]` : "";
+      return [{ text: `${message.content}${note}` }];
+    }
+
+    const leading: any[] = [];
+    const trailing: any[] = [];
+    for (const attachment of attachments) {
+      const parts = await this.resolve(attachment);
+      (attachment.contentType?.startsWith("image/") ? leading : trailing).push(...parts);
+    }
+    return [...leading, { text: message.content }, ...trailing];
+  }
+
+  public async resolve(attachment: Attachment): Promise<any[]> {
+    const format = detectAttachmentFormat(attachment.contentType, attachment.name);
+    if (!format) {
+      return [{ text: `[Attachment "${attachment.name}" (${attachment.contentType || "unknown type"}) cannot be read]` }];
+    }
+
+    try {
+      return isNativeFormat(format)
+        ? [await this.toFilePart(attachment, format)]
+        : [{ text: await this.toText(attachment, format) }];
+    } catch (error) {
+      console.error(`Failed to load attachment ${attachment.name}:`, error);
+      const reason = error instanceof AttachmentSizeError ? `: ${error.message}` : "";
+      return [{ text: `[Attachment "${attachment.name}" could not be loaded${reason}]` }];
+    }
+  }
+
+  private async toText(attachment: Attachment, format: AttachmentFormat): Promise<string> {
+    const urlHash = hashUrl(attachment.url);
+    const textKey = redisKeys.attachmentText(this.options.userId, urlHash);
+    const cached = await redis.get<string>(textKey).catch(() => null);
+    if (typeof cached === "string") return cached;
+
+    const buffer = await download(attachment.url);
+    assertSize(format, buffer.length);
+    const text = await ingestAttachment(format, attachment.name, buffer, this.options.userId, `ds_${urlHash.slice(0, 12)}`);
+    await redis
+      .set(textKey, text, { ex: ATTACHMENT_TEXT_TTL_SECONDS })
+      .catch((error) => console.error("Failed to cache attachment text:", error));
+    return text;
+  }
+
+  private async toFilePart(attachment: Attachment, format: AttachmentFormat): Promise<any> {
+    const mimeType = format.mimeTypes.includes(attachment.contentType) ? attachment.contentType : format.mimeTypes[0];
+
+    if (this.ai && !attachment.url.startsWith("data:")) {
+      const cached = await redis.get<CachedGeminiFile>(redisKeys.geminiFile(hashUrl(attachment.url))).catch(() => null);
+      if (cached?.uri) {
+        return { fileData: { fileUri: cached.uri, mimeType: cached.mimeType } };
+      }
+    }
+
+    const memo = inlineCache.get(attachment.url);
+    if (memo && this.fitsInline(memo.bytes)) {
+      this.inlineBytesUsed += memo.bytes;
+      return this.inlinePart(attachment, memo.mimeType, memo.data);
+    }
+
+    const buffer = memo ? Buffer.from(memo.data, "base64") : await download(attachment.url);
+    assertSize(format, buffer.length);
+    if (this.ai && !this.fitsInline(buffer.length)) {
+      const file = await this.uploadToGemini(attachment, mimeType, buffer);
+      return { fileData: { fileUri: file.uri, mimeType: file.mimeType } };
+    }
+
+    const data = buffer.toString("base64");
+    this.inlineBytesUsed += buffer.length;
+    rememberInline(attachment.url, { mimeType, data, bytes: buffer.length });
+    return this.inlinePart(attachment, mimeType, data);
+  }
+
+  private inlinePart(attachment: Attachment, mimeType: string, data: string): any {
+    const part = { inlineData: { mimeType, data } };
+    this.inlineSources.set(part, attachment);
+    return part;
+  }
+
+  // Contents to save with a paused turn. Inline file data would make the entry too large to write, so parts this
+  // resolver read from an attachment are saved as a reference to it and resolved again on resume.
+  public toStorableContents(contents: any[]): any[] {
+    return contents.map((content) => {
+      if (!Array.isArray(content?.parts)) return content;
+      const parts = content.parts.map((part: any) => {
+        const attachment = part?.inlineData ? this.inlineSources.get(part) : undefined;
+        return attachment ? { attachmentRef: attachment } : part;
+      });
+      return { ...content, parts };
+    });
+  }
+
+  public async restoreContents(contents: any[]): Promise<any[]> {
+    const restored: any[] = [];
+    for (const content of contents) {
+      if (!Array.isArray(content?.parts) || !content.parts.some((part: any) => part?.attachmentRef)) {
+        restored.push(content);
+        continue;
+      }
+      const parts: any[] = [];
+      for (const part of content.parts) {
+        parts.push(...(part?.attachmentRef ? await this.resolve(part.attachmentRef) : [part]));
+      }
+      restored.push({ ...content, parts });
+    }
+    return restored;
+  }
+
+  private fitsInline(bytes: number): boolean {
+    if (!this.ai) return true;
+    return bytes <= this.options.inlineMaxBytes && this.inlineBytesUsed + bytes <= this.options.inlineBudgetBytes;
+  }
+
+  private async uploadToGemini(attachment: Attachment, mimeType: string, buffer: Buffer): Promise<CachedGeminiFile> {
+    let file = await this.ai!.files.upload({
+      file: new Blob([buffer], { type: mimeType }),
+      config: { mimeType, displayName: attachment.name },
+    });
+
+    // Large documents are processed asynchronously and cannot be referenced until they are active
+    const deadline = Date.now() + FILE_ACTIVE_TIMEOUT_MS;
+    while (file.state === FileState.PROCESSING && file.name && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      file = await this.ai!.files.get({ name: file.name });
+    }
+    if (!file.uri || file.state === FileState.FAILED) {
+      throw new Error(`Gemini could not process ${attachment.name}`);
+    }
+
+    const cached: CachedGeminiFile = {
+      uri: file.uri,
+      mimeType: file.mimeType || mimeType,
+      name: file.name || "",
+    };
+    await redis
+      .set(redisKeys.geminiFile(hashUrl(attachment.url)), cached, { ex: GEMINI_FILE_TTL_SECONDS })
+      .catch((error) => console.error("Failed to cache Gemini file:", error));
+    return cached;
+  }
+}
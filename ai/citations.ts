@@ -0,0 +1,126 @@
+//ai/citations.ts
+import { extractSearchHits, normalizeResearchUrl, RESEARCH_SEARCH_TOOLS } from "./research-engine";
+import { Citation } from "./types";
+
+// Every URL a search or page-reading tool returns during a turn gets a citation id, the same id each time the
+// URL comes back. Tool results reach the model with their ids attached, the model cites them inline as [^id],
+// and the saved message keeps the sources it cited so the client can render footnotes.
+
+const PAGE_TOOLS = ["web_extract", "web_crawl", "fire_web_scrape"];
+export const CITATION_TOOLS = new Set([...RESEARCH_SEARCH_TOOLS, ...PAGE_TOOLS]);
+
+const CITATION_REFERENCE = /\[\^(\d+)\]/g;
+const MAX_SNIPPET_CHARS = 300;
+const MAX_CITATIONS = 200;
+
+// Ids cited in the text, in the order they first appear
+export function findCitedIds(text: string): number[] {
+  const ids = new Set<number>();
+  for (const match of text.matchAll(CITATION_REFERENCE)) {
+    ids.add(Number(match[1]));
+  }
+  return Array.from(ids);
+}
+
+function titleFromPage(page: any, url: string): string {
+  const metadataTitle = page.metadata?.title || page.data?.metadata?.title;
+  if (typeof metadataTitle === "string" && metadataTitle.trim()) return metadataTitle.trim();
+  const content = [page.content, page.markdown, page.data?.markdown].find((text) => typeof text === "string");
+  const heading = content?.match(/^#{1,3}\s+(.+)$/m)?.[1];
+  if (heading) return heading.trim();
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+// Page readers return content keyed by url without a title; pages that failed to load are not sources
+function extractPages(result: any): Array<{ url: string; title: string; snippet: string }> {
+  const pages: Array<{ url: string; title: string; snippet: string }> = [];
+  const visit = (value: any, depth: number) => {
+    if (!value || typeof value !== "object" || depth > 4) return;
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, depth + 1));
+      return;
+    }
+    const url = typeof value.url === "string" ? value.url : undefined;
+    if (url && /^https?:\/\//.test(url) && value.status !== "failed" && value.success !== false) {
+      const content = [value.content, value.markdown, value.data?.markdown].find(
+        (text) => typeof text === "string" && text.trim()
+      );
+      if (content) {
+        pages.push({ url, title: titleFromPage(value, url), snippet: String(content).trim() });
+        return;
+      }
+    }
+    Object.values(value).forEach((child) => visit(child, depth + 1));
+  };
+  visit(result, 0);
+  return pages;
+}
+
+export class CitationTracker {
+  private citations = new Map<string, Citation>(); // By normalized URL
+  private nextId = 1;
+
+  // A turn resumed after an approval pause keeps the ids it already handed out
+  constructor(existing: Citation[] = []) {
+    for (const citation of existing) {
+      const key = normalizeResearchUrl(citation.url);
+      if (!key) continue;
+      this.citations.set(key, citation);
+      this.nextId = Math.max(this.nextId, citation.id + 1);
+    }
+  }
+
+  getAll(): Citation[] {
+    return Array.from(this.citations.values()).sort((a, b) => a.id - b.id);
+  }
+
+  // Registers the sources in a tool result and returns their citations, in result order
+  addToolResult(toolName: string, result: any): Citation[] {
+    if (!CITATION_TOOLS.has(toolName) || !result || result.success === false) return [];
+
+    const hits = extractSearchHits(result);
+    const sources = hits.length > 0 || !PAGE_TOOLS.includes(toolName) ? hits : extractPages(result);
+    const added: Citation[] = [];
+    for (const source of sources) {
+      const key = normalizeResearchUrl(source.url);
+      if (!key) continue;
+      let citation = this.citations.get(key);
+      if (!citation) {
+        if (this.citations.size >= MAX_CITATIONS) continue;
+        const snippet = source.snippet.replace(/\s+/g, " ").trim();
+        citation = {
+          id: this.nextId++,
+          url: source.url,
+          title: source.title,
+          snippet: snippet ? snippet.slice(0, MAX_SNIPPET_CHARS) : undefined,
+          toolName,
+        };
+        this.citations.set(key, citation);
+      }
+      if (!added.includes(citation)) added.push(citation);
+    }
+    return added;
+  }
+
+  // What the model receives: the result with the ids it may cite listed first
+  annotate(toolName: string, result: any): any {
+    const citations = this.addToolResult(toolName, result);
+    if (citations.length === 0 || !result || typeof result !== "object" || Array.isArray(result)) return result;
+    return {
+      citations: citations.map(({ id, title, url }) => ({ id, title, url })),
+      ...result,
+    };
+  }
+
+  // The sources a response cites; ids without a source stay in the text and the client flags them
+  getCited(text: string): Citation[] {
+    const byId = new Map(this.getAll().map((citation) => [citation.id, citation]));
+    return findCitedIds(text)
+      .map((id) => byId.get(id))
+      .filter((citation): citation is Citation => Boolean(citation));
+  }
+}
@@ -0,0 +1,198 @@
+//ai/conversation-compaction.ts
+import { ChatSummary, getChatSummary, saveChatSummary } from "@/lib/redis-queries";
+
+import { Message } from "./types";
+
+export interface CompactionOptions {
+  thresholdTokens: number; // Estimated history size that triggers a new summary
+  keepRecentMessages: number; // Latest messages that are always sent verbatim
+  maxTranscriptChars: number; // Per-message cap when building the text to summarize
+}
+
+export interface CompactedHistory {
+  contents: any[];
+  summary: ChatSummary | null;
+  compacted: boolean; // True when a new summary was written on this turn
+}
+
+// Returns the model's text answer for a plain prompt (no tools)
+export type SummaryGenerator = (prompt: string) => Promise<string>;
+
+// Builds the content parts for one message, e.g. to turn its attachments into file parts
+export type MessagePartsBuilder = (message: Message) => Promise<any[]>;
+
+export const RETRIEVE_TOOL_RESULT_NAME = "retrieve_tool_result";
+
+const DEFAULT_THRESHOLD_TOKENS = 24000;
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+const DEFAULT_MAX_TRANSCRIPT_CHARS = 4000;
+const ELIDE_MIN_CHARS = 1500;
+const ELIDED_PREVIEW_CHARS = 300;
+// Flat estimate for an image or document part; its base64 payload says little about its token cost
+const FILE_PART_TOKENS = 1000;
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getCompactionOptions(): CompactionOptions {
+  return {
+    thresholdTokens: readNumberEnv("COMPACTION_THRESHOLD_TOKENS", DEFAULT_THRESHOLD_TOKENS),
+    keepRecentMessages: readNumberEnv("COMPACTION_KEEP_RECENT_MESSAGES", DEFAULT_KEEP_RECENT_MESSAGES),
+    maxTranscriptChars: DEFAULT_MAX_TRANSCRIPT_CHARS,
+  };
+}
+
+export function isCompactionEnabled(): boolean {
+  return process.env.CONVERSATION_COMPACTION !== "off";
+}
+
+// Rough token count (~4 characters per token); good enough to decide when to compact
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateContentTokens(contents: any[]): number {
+  let tokens = 0;
+  for (const content of contents) {
+    for (const part of content?.parts || []) {
+      tokens += part?.inlineData || part?.fileData ? FILE_PART_TOKENS : estimateTokens(part);
+    }
+  }
+  return tokens;
+}
+
+// Tool results are not replayed on later turns; the assistant turn only lists where to find them
+function describeToolCalls(toolCalls: any[] | undefined): string {
+  const refs = (toolCalls || []).filter((toolCall) => toolCall?.id && toolCall?.name);
+  if (refs.length === 0) return "";
+  const list = refs.map((toolCall) => `${toolCall.name} (ref: ${toolCall.id})`).join(", ");
+  return `\n\n[Tool results from this turn were elided. Use ${RETRIEVE_TOOL_RESULT_NAME} with a ref to read one again: ${list}]`;
+}
+
+export async function messagesToContents(messages: Message[], buildParts?: MessagePartsBuilder): Promise<any[]> {
+  return Promise.all(
+    messages.map(async (msg) => {
+      const message = msg.role === "assistant" ? { ...msg, content: `${msg.content}${describeToolCalls(msg.toolCalls)}` } : msg;
+      return {
+        role: msg.role === "assistant" ? "model" : msg.role,
+        parts: buildParts ? await buildParts(message) : [{ text: message.content }],
+      };
+    })
+  );
+}
+
+function summaryContents(summary: ChatSummary): any[] {
+  return [
+    { role: "user", parts: [{ text: `[Summary of the earlier part of this conversation]\n${summary.summary}` }] },
+    { role: "model", parts: [{ text: "Understood. I'll continue with that context in mind." }] },
+  ];
+}
+
+function buildSummaryPrompt(previousSummary: string | null, transcript: string): string {
+  return [
+    "You maintain a rolling summary of a conversation between a user and an AI assistant.",
+    "Merge the existing summary with the new transcript into one updated summary.",
+    "Keep: the user's goals, preferences and constraints, decisions made, facts and figures the assistant found,",
+    "open questions and unfinished tasks, and any tool result refs (e.g. \"ref: tool_...\") worth revisiting.",
+    "Drop pleasantries and repetition. Write concise bullet points, at most about 400 words.",
+    "",
+    `Existing summary:\n${previousSummary || "(none)"}`,
+    "",
+    `New transcript:\n${transcript}`,
+  ].join("\n");
+}
+
+function buildTranscript(messages: Message[], maxChars: number): string {
+  return messages
+    .map((msg) => {
+      const content = msg.content.length > maxChars ? `${msg.content.slice(0, maxChars)}… [truncated]` : msg.content;
+      const speaker = msg.role === "assistant" ? "Assistant" : "User";
+      const files = (msg.attachments || []).map((attachment) => attachment.name).filter(Boolean);
+      const fileNote = files.length > 0 ? ` [attached: ${files.join(", ")}]` : "";
+      return `${speaker}: ${content}${fileNote}${msg.role === "assistant" ? describeToolCalls(msg.toolCalls) : ""}`;
+    })
+    .join("\n\n");
+}
+
+// Builds the model history for a chat. Turns already folded into the stored summary are replaced by it, and
+// when the remainder is still over the threshold the older turns are summarized and the summary rolled forward.
+export async function buildCompactedHistory(
+  chatId: string,
+  messages: Message[],
+  generate: SummaryGenerator,
+  buildParts?: MessagePartsBuilder,
+  options: CompactionOptions = getCompactionOptions()
+): Promise<CompactedHistory> {
+  let summary = await getChatSummary(chatId).catch(() => null);
+
+  // The summary is only valid while the message it ends at is still part of the chat (edits rewrite history)
+  let coveredIndex = summary ? messages.findIndex((msg) => msg.id === summary!.coveredUntilMessageId) : -1;
+  if (summary && coveredIndex === -1) summary = null;
+
+  const remaining = messages.slice(coveredIndex + 1);
+  const contents = [...(summary ? summaryContents(summary) : []), ...(await messagesToContents(remaining, buildParts))];
+  if (estimateContentTokens(contents) <= options.thresholdTokens) {
+    return { contents, summary, compacted: false };
+  }
+
+  // Keep the recent turns verbatim, starting on a user message so roles keep alternating after the summary
+  let split = Math.max(0, remaining.length - options.keepRecentMessages);
+  while (split > 0 && split < remaining.length && remaining[split].role !== "user") split++;
+  if (split <= 0 || split >= remaining.length) {
+    return { contents, summary, compacted: false };
+  }
+
+  const toSummarize = remaining.slice(0, split);
+  try {
+    const text = await generate(
+      buildSummaryPrompt(summary?.summary || null, buildTranscript(toSummarize, options.maxTranscriptChars))
+    );
+    if (!text.trim()) throw new Error("Empty summary");
+
+    coveredIndex += split;
+    const nextSummary: ChatSummary = {
+      summary: text.trim(),
+      coveredUntilMessageId: messages[coveredIndex].id,
+      coveredMessageCount: coveredIndex + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    await saveChatSummary(chatId, nextSummary);
+
+    // Only the turns that stay verbatim keep their files
+    const kept = contents.slice(contents.length - (remaining.length - split));
+    return {
+      contents: [...summaryContents(nextSummary), ...kept],
+      summary: nextSummary,
+      compacted: true,
+    };
+  } catch (error) {
+    console.error("Failed to compact conversation:", error);
+    return { contents, summary, compacted: false };
+  }
+}
+
+function previewResponse(response: unknown): string {
+  const text = typeof response === "string" ? response : JSON.stringify(response);
+  return text.length > ELIDED_PREVIEW_CHARS ? `${text.slice(0, ELIDED_PREVIEW_CHARS)}…` : text;
+}
+
+// Replaces large function responses in a tool-result turn with a short preview and the ref to fetch them again.
+// The route calls this on earlier rounds of the agent loop once newer results have been added.
+export function elideToolResponses(content: any, refs: string[]): void {
+  (content?.parts || []).forEach((part: any, index: number) => {
+    const functionResponse = part?.functionResponse;
+    const ref = refs[index];
+    if (!functionResponse || !ref || functionResponse.response?.elided) return;
+    if (JSON.stringify(functionResponse.response ?? "").length < ELIDE_MIN_CHARS) return;
+
+    functionResponse.response = {
+      elided: true,
+      ref,
+      preview: previewResponse(functionResponse.response),
+      note: `Full result elided to save context. Call ${RETRIEVE_TOOL_RESULT_NAME} with this ref if you need it again.`,
+    };
+  });
+}
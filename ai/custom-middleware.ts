@@ -0,0 +1,346 @@
+//ai/custom-middleware.ts
+import { FunctionDeclaration } from "@google/genai";
+
+import { LLMStreamChunk } from "./providers";
+import { describeToolErrorKind } from "./tool-errors";
+import { Attachment, ToolCall, ToolResult } from "./types";
+
+// Cross-cutting tool handling runs as a chain of middlewares instead of per-tool branches in the chat route.
+// Each middleware can check or rewrite a call before it runs, shape what the model and the user get after it
+// runs, and rewrite streamed model text. Middlewares run in ascending order and can be limited to some tools.
+
+// How text sent with respond() ends up in the saved response: added to it, replacing it, or shown only while streaming
+export type ToolResponseMode = "append" | "replace" | "display";
+
+export interface ToolMiddlewareContext {
+  chatId: string;
+  userId: string;
+  emit: (event: any) => void;
+  respond: (text: string, mode?: ToolResponseMode) => void;
+}
+
+// What a tool call leaves behind once the after hooks have run
+export interface ToolCallOutcome {
+  toolResult: ToolResult | null; // What the model gets back; null keeps the call out of the conversation
+  attachments: Attachment[]; // Saved with the assistant message
+  endTurn: boolean; // The user already has the output, so the model is not called again this turn
+}
+
+export interface ToolMiddleware {
+  name: string;
+  order?: number; // Lower runs first; defaults to 50
+  tools?: string[] | ((toolName: string) => boolean); // Tools the tool hooks apply to; all when omitted
+  // Returns a rewritten call, a result that replaces running the tool, or nothing to leave the call as is
+  beforeToolCall?: (
+    toolCall: ToolCall,
+    context: ToolMiddlewareContext
+  ) => ToolCall | ToolResult | void | Promise<ToolCall | ToolResult | void>;
+  // Gets the result as the tool returned it and the outcome so far; returns a new outcome or nothing
+  afterToolCall?: (
+    toolCall: ToolCall,
+    result: ToolResult,
+    outcome: ToolCallOutcome,
+    context: ToolMiddlewareContext
+  ) => ToolCallOutcome | void | Promise<ToolCallOutcome | void>;
+  onModelChunk?: (chunk: LLMStreamChunk) => LLMStreamChunk;
+}
+
+const DEFAULT_ORDER = 50;
+
+function isToolResult(value: ToolCall | ToolResult): value is ToolResult {
+  return "toolCallId" in value;
+}
+
+export class ToolMiddlewarePipeline {
+  private middlewares: ToolMiddleware[] = [];
+
+  // Middlewares with the same order run in the order they were added
+  use(middleware: ToolMiddleware): this {
+    const order = middleware.order ?? DEFAULT_ORDER;
+    const index = this.middlewares.findIndex((existing) => (existing.order ?? DEFAULT_ORDER) > order);
+    if (index === -1) {
+      this.middlewares.push(middleware);
+    } else {
+      this.middlewares.splice(index, 0, middleware);
+    }
+    return this;
+  }
+
+  list(): string[] {
+    return this.middlewares.map((middleware) => middleware.name);
+  }
+
+  async beforeToolCall(
+    toolCall: ToolCall,
+    context: ToolMiddlewareContext
+  ): Promise<{ toolCall: ToolCall; result?: ToolResult }> {
+    let current = toolCall;
+    for (const middleware of this.matching(toolCall.name)) {
+      const returned = await middleware.beforeToolCall?.(current, context);
+      if (!returned) continue;
+      if (isToolResult(returned)) return { toolCall: current, result: returned };
+      current = returned;
+    }
+    return { toolCall: current };
+  }
+
+  // modelResult is the result after shaping, which is what the model gets unless a middleware changes it
+  async afterToolCall(
+    toolCall: ToolCall,
+    result: ToolResult,
+    modelResult: any,
+    context: ToolMiddlewareContext
+  ): Promise<ToolCallOutcome> {
+    let outcome: ToolCallOutcome = {
+      toolResult: { ...result, result: modelResult },
+      attachments: [],
+      endTurn: false,
+    };
+    for (const middleware of this.matching(toolCall.name)) {
+      outcome = (await middleware.afterToolCall?.(toolCall, result, outcome, context)) || outcome;
+    }
+    return outcome;
+  }
+
+  onModelChunk(chunk: LLMStreamChunk): LLMStreamChunk {
+    return this.middlewares.reduce((current, middleware) => middleware.onModelChunk?.(current) || current, chunk);
+  }
+
+  private matching(toolName: string): ToolMiddleware[] {
+    return this.middlewares.filter(({ tools }) =>
+      !tools ? true : typeof tools === "function" ? tools(toolName) : tools.includes(toolName)
+    );
+  }
+}
+
+// Logging: how long each call took and how it ended
+export function createLoggingMiddleware(): ToolMiddleware {
+  const startedAt = new Map<string, number>();
+  return {
+    name: "logging",
+    order: 0,
+    beforeToolCall: (toolCall) => {
+      startedAt.set(toolCall.id, Date.now());
+    },
+    afterToolCall: (toolCall, result) => {
+      const started = startedAt.get(toolCall.id);
+      startedAt.delete(toolCall.id);
+      const elapsed = started ? ` in ${Date.now() - started}ms` : "";
+      if (result.error) {
+        console.warn(`⚠️ ${toolCall.name} failed${elapsed}${result.errorKind ? ` (${result.errorKind})` : ""}: ${result.error}`);
+      } else {
+        console.log(`✅ ${toolCall.name} finished${elapsed}${result.cachedAt ? " (cached)" : ""}`);
+      }
+    },
+  };
+}
+
+// Numbers and booleans sent as strings are accepted, as tools coerce them and some providers send them that way
+const SCHEMA_TYPE_CHECKS: Record<string, (value: any) => boolean> = {
+  STRING: (value) => typeof value === "string",
+  NUMBER: (value) => Number.isFinite(typeof value === "string" && value.trim() ? Number(value) : value),
+  INTEGER: (value) => Number.isInteger(typeof value === "string" && value.trim() ? Number(value) : value),
+  BOOLEAN: (value) => typeof value === "boolean" || value === "true" || value === "false",
+  ARRAY: (value) => Array.isArray(value),
+  OBJECT: (value) => typeof value === "object" && value !== null && !Array.isArray(value),
+};
+
+// Argument validation: checks a call against the tool's own declaration, so the model gets a precise error to
+// fix instead of whatever the tool or its API makes of bad input. Only top-level arguments are checked.
+export function createArgumentValidationMiddleware(
+  getDefinition: (toolName: string) => FunctionDeclaration | undefined
+): ToolMiddleware {
+  return {
+    name: "argument-validation",
+    order: 10,
+    beforeToolCall: (toolCall) => {
+      const parameters = getDefinition(toolCall.name)?.parameters;
+      if (!parameters?.properties) return;
+
+      const args = toolCall.args || {};
+      const problems: string[] = [];
+      for (const name of parameters.required || []) {
+        if (args[name] === undefined || args[name] === null || args[name] === "") {
+          problems.push(`"${name}" is required`);
+        }
+      }
+      for (const [name, schema] of Object.entries(parameters.properties)) {
+        const value = args[name];
+        if (value === undefined || value === null) continue;
+        const matchesType = schema.type ? SCHEMA_TYPE_CHECKS[schema.type] : undefined;
+        if (matchesType && !matchesType(value)) {
+          problems.push(`"${name}" must be of type ${String(schema.type).toLowerCase()}`);
+        } else if (schema.enum && typeof value === "string" && !schema.enum.includes(value)) {
+          problems.push(`"${name}" must be one of: ${schema.enum.join(", ")}`);
+        }
+      }
+      if (problems.length === 0) return;
+
+      const error = `Invalid arguments for ${toolCall.name}: ${problems.join("; ")}.`;
+      return {
+        toolCallId: toolCall.id,
+        result: { success: false, error, errorKind: "invalid_args", retryable: false, hint: describeToolErrorKind("invalid_args") },
+        error,
+        errorKind: "invalid_args",
+      };
+    },
+  };
+}
+
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  /\b(Bearer\s+)[A-Za-z0-9._~+/-]{20,}=*/gi,
+];
+
+const REDACTED = "[REDACTED]";
+
+export function scrubSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (current, pattern) => current.replace(pattern, (match, prefix) => (typeof prefix === "string" ? `${prefix}${REDACTED}` : REDACTED)),
+    text
+  );
+}
+
+function scrubValue(value: any, depth = 0): any {
+  if (typeof value === "string") return scrubSecrets(value);
+  if (!value || typeof value !== "object" || depth > 12) return value;
+  if (Array.isArray(value)) return value.map((item) => scrubValue(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, scrubValue(child, depth + 1)]));
+}
+
+// Secret scrubbing: API keys, tokens and private keys in tool results or model text never reach the model or the
+// chat history. Runs last so it sees the final result.
+export function createSecretScrubbingMiddleware(): ToolMiddleware {
+  return {
+    name: "secret-scrubbing",
+    order: 90,
+    afterToolCall: (_toolCall, _result, outcome) => {
+      if (!outcome.toolResult) return;
+      return {
+        ...outcome,
+        toolResult: {
+          ...outcome.toolResult,
+          result: scrubValue(outcome.toolResult.result),
+          error: outcome.toolResult.error ? scrubSecrets(outcome.toolResult.error) : undefined,
+        },
+      };
+    },
+    onModelChunk: (chunk) => ({
+      ...chunk,
+      ...(chunk.text && { text: scrubSecrets(chunk.text) }),
+      ...(chunk.thought && { thought: scrubSecrets(chunk.thought) }),
+    }),
+  };
+}
+
+// Fenced payloads end up in the saved response, so they are scrubbed like results are
+const fenceBlock = (language: string, payload: any) =>
+  `\n\n\`\`\`${language}\n${JSON.stringify(scrubValue(payload))}\n\`\`\`\n\n`;
+
+// Fence languages the Markdown renderer draws as widgets
+const WIDGET_FENCES: Record<string, string> = {
+  get_weather: "weather",
+  get_stock_data: "stock",
+  get_map_data: "map",
+};
+
+// UI rendering: tools whose output the client shows directly, as attachments, a viewer or a widget
+export function createUiRenderingMiddlewares(): ToolMiddleware[] {
+  return [
+    {
+      name: "generate-image",
+      order: 20,
+      tools: ["generate_image"],
+      // Images are saved as attachments; the model is not called again
+      afterToolCall: (_toolCall, result, outcome, context) => {
+        const payload = result.result || {};
+        if (!payload.success || !payload.results) {
+          context.respond(`I encountered an error generating the image: ${payload.error || "Unknown error"}`, "replace");
+          return { ...outcome, toolResult: null, endTurn: true };
+        }
+
+        const outputFormat = payload.settings?.outputFormat || "png";
+        const mimeType = `image/${outputFormat}`;
+        const attachments: Attachment[] = [];
+        for (const imageResult of payload.results) {
+          const dataUrl =
+            imageResult.imageDataUrl ||
+            (imageResult.imageBase64 ? `data:${mimeType};base64,${imageResult.imageBase64}` : undefined);
+          if (!dataUrl) continue;
+          const attachment = { url: dataUrl, name: `generated-image-${Date.now()}.${outputFormat}`, contentType: mimeType };
+          // Streamed right away for immediate display
+          context.emit({ type: "image_generation_result", content: attachment });
+          attachments.push(attachment);
+        }
+        context.respond(`I've generated ${payload.results.length} image(s) for you.`, "replace");
+        return { toolResult: null, attachments: [...outcome.attachments, ...attachments], endTurn: true };
+      },
+    },
+    {
+      name: "fire-web-scrape",
+      order: 20,
+      tools: ["fire_web_scrape"],
+      // The scraped page is shown as is and also goes back to the model
+      afterToolCall: (toolCall, result, outcome, context) => {
+        const payload = result.result || {};
+        if (payload.success) {
+          context.emit({ type: "fire_web_scrape_result", content: payload });
+          context.respond("I have successfully scraped the content from the URL.");
+          return;
+        }
+        const error = payload.error || "Unknown error";
+        context.respond(`I encountered an error scraping the content: ${error}`);
+        return { ...outcome, toolResult: { toolCallId: toolCall.id, result: { error, success: false }, error } };
+      },
+    },
+    {
+      name: "pdf-generator",
+      order: 20,
+      tools: ["pdf_generator"],
+      // The viewer block is only streamed; the saved response keeps a short confirmation instead
+      afterToolCall: (_toolCall, result, outcome, context) => {
+        const payload = result.result || {};
+        if (payload.success) {
+          context.respond(fenceBlock("pdf", payload), "display");
+          context.respond(
+            `I have generated the PDF document: "${payload.config?.title || "Untitled"}". You can view it and download it above.`,
+            "replace"
+          );
+        } else {
+          context.respond(`I encountered an error generating the PDF: ${payload.error || "Unknown error"}`, "replace");
+        }
+        return { ...outcome, toolResult: null, endTurn: true };
+      },
+    },
+    {
+      name: "widgets",
+      order: 20,
+      tools: Object.keys(WIDGET_FENCES),
+      afterToolCall: (toolCall, result, _outcome, context) => {
+        const payload = result.result || {};
+        if (payload.success) {
+          context.respond(fenceBlock(WIDGET_FENCES[toolCall.name], payload));
+        }
+      },
+    },
+  ];
+}
+
+// The middlewares every chat turn runs with
+export function createToolMiddlewarePipeline(
+  getDefinition: (toolName: string) => FunctionDeclaration | undefined
+): ToolMiddlewarePipeline {
+  const pipeline = new ToolMiddlewarePipeline()
+    .use(createLoggingMiddleware())
+    .use(createArgumentValidationMiddleware(getDefinition))
+    .use(createSecretScrubbingMiddleware());
+  createUiRenderingMiddlewares().forEach((middleware) => pipeline.use(middleware));
+  return pipeline;
+}
@@ -0,0 +1,39 @@
+//ai/lazy-tool.ts
+import { FunctionDeclaration } from "@google/genai";
+
+import { Tool } from "./types";
+
+// Declarations do not depend on credentials, so one per tool name is kept for the life of the process
+const definitionCache = new Map<string, FunctionDeclaration>();
+
+// Runs the factory on first use only and reuses the result afterwards
+export function lazy<T>(factory: () => T): () => T {
+  let instance: T | undefined;
+  let created = false;
+  return () => {
+    if (!created) {
+      instance = factory();
+      created = true;
+    }
+    return instance as T;
+  };
+}
+
+// Registers a tool without constructing it; the instance is built the first time the tool
+// is actually called (or, once per process, to read its declaration)
+export function lazyTool(name: string, factory: () => Tool): Tool {
+  const getInstance = lazy(factory);
+  return {
+    getDefinition: () => {
+      let definition = definitionCache.get(name);
+      if (!definition) {
+        definition = getInstance().getDefinition();
+        definitionCache.set(name, definition);
+      }
+      return definition;
+    },
+    execute: (args: any) => getInstance().execute(args),
+    getRiskLevel: (args: any) => getInstance().getRiskLevel?.(args) || "low",
+    getCachePolicy: (args: any) => getInstance().getCachePolicy?.(args) || null,
+  };
+}
@@ -0,0 +1,107 @@
+//ai/plan-mode.ts
+import { generateUUID } from "@/lib/utils";
+
+import { AgentPlan, PlanStep, ToolCall, ToolResult } from "./types";
+
+// Plan mode is opt-in per message. For a complex request the agentic engine first proposes a step plan,
+// the user edits or approves it, and only then does the turn run, with the plan in the model's context.
+// Each step names the tools expected to carry it out, which is how tool calls are matched to steps.
+
+export const MAX_PLAN_STEPS = 8;
+const MAX_STEP_TITLE_CHARS = 200;
+
+export const PLAN_PROPOSAL_MESSAGE =
+  "Here's how I plan to handle this. Edit the steps if you'd like, then approve the plan to start.";
+
+// The plan comes back from the client, so only titles, order and tool hints are taken from it
+export function applyPlanEdits(plan: AgentPlan, editedSteps: Array<Partial<PlanStep>> | undefined): AgentPlan {
+  const source = Array.isArray(editedSteps) ? editedSteps : plan.steps;
+  const steps: PlanStep[] = source
+    .map((step) => ({
+      id: typeof step.id === "string" && step.id ? step.id : `step_${generateUUID()}`,
+      title: typeof step.title === "string" ? step.title.trim().slice(0, MAX_STEP_TITLE_CHARS) : "",
+      tools: Array.isArray(step.tools) ? step.tools.filter((name): name is string => typeof name === "string") : [],
+      status: "pending" as const,
+    }))
+    .filter((step) => step.title.length > 0)
+    .slice(0, MAX_PLAN_STEPS);
+  return { ...plan, status: "running", steps };
+}
+
+export function buildPlanExecutionPrompt(plan: AgentPlan): string {
+  const steps = plan.steps.map((step, index) => `${index + 1}. ${step.title}`).join("\n");
+  return `(Approved plan) The user approved this plan for the request above. Carry it out step by step, in order, using tools where a step needs them. Skip a step only if it turns out to be unnecessary, and say so. Finish with a response that covers every step.
+
+${steps}`;
+}
+
+// Follows tool calls through the plan. A call goes to the first open step that expects its tool, or to the
+// current step when no step does. Moving on to a later step closes the steps started before it.
+export class PlanTracker {
+  private plan: AgentPlan;
+  private onUpdate?: (plan: AgentPlan) => void;
+  private callSteps = new Map<string, PlanStep>();
+
+  constructor(plan: AgentPlan, onUpdate?: (plan: AgentPlan) => void) {
+    this.plan = { ...plan, steps: plan.steps.map((step) => ({ ...step })) };
+    this.onUpdate = onUpdate;
+  }
+
+  getPlan(): AgentPlan {
+    return { ...this.plan, steps: this.plan.steps.map((step) => ({ ...step })) };
+  }
+
+  start(): void {
+    this.plan.status = "running";
+    this.update();
+  }
+
+  recordToolStart(toolCall: ToolCall): void {
+    const open = (step: PlanStep) => step.status !== "done" && step.status !== "skipped";
+    const step =
+      this.plan.steps.find((candidate) => open(candidate) && candidate.tools.includes(toolCall.name)) ||
+      this.plan.steps.find((candidate) => candidate.status === "in_progress") ||
+      this.plan.steps.find((candidate) => candidate.status === "pending");
+    if (!step) return;
+
+    const stepIndex = this.plan.steps.indexOf(step);
+    this.plan.steps.forEach((earlier, index) => {
+      if (index < stepIndex && earlier.status === "in_progress") earlier.status = "done";
+    });
+    if (step.status === "pending") step.status = "in_progress";
+    this.callSteps.set(toolCall.id, step);
+    this.update();
+  }
+
+  // A step is done after a successful call; a failure marks it failed until another call succeeds
+  recordToolResult(toolCall: ToolCall, result: ToolResult): void {
+    const step = this.callSteps.get(toolCall.id);
+    if (!step) return;
+    const failed = Boolean(result.error) || result.result?.success === false;
+    if (!failed) {
+      step.status = "done";
+    } else if (step.status !== "done") {
+      step.status = "failed";
+    }
+    this.update();
+  }
+
+  // Steps still open when the response ends were covered by the response itself, or were not needed
+  finish(stopped: boolean): AgentPlan {
+    if (stopped) {
+      this.plan.status = "stopped";
+    } else {
+      this.plan.status = "completed";
+      for (const step of this.plan.steps) {
+        if (step.status === "in_progress") step.status = "done";
+        if (step.status === "pending") step.status = step.tools.length > 0 ? "skipped" : "done";
+      }
+    }
+    this.update();
+    return this.getPlan();
+  }
+
+  private update(): void {
+    this.onUpdate?.(this.getPlan());
+  }
+}
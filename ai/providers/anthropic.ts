@@ -0,0 +1,143 @@
+//ai/providers/anthropic.ts
+import { readServerSentEvents, safeParseJson, toJsonSchema, toNeutralTurns } from "./convert";
+import { LLMProvider, LLMRequest, LLMStreamChunk } from "./types";
+
+export interface AnthropicConfig {
+  apiKey: string;
+  baseUrl?: string;
+  maxTokens?: number;
+  thinkingBudgetTokens?: number;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_THINKING_BUDGET = 4096;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private config: AnthropicConfig;
+
+  constructor(config: AnthropicConfig) {
+    this.config = config;
+  }
+
+  async generateContentStream(request: LLMRequest): Promise<AsyncIterable<LLMStreamChunk>> {
+    const maxTokens = this.config.maxTokens || DEFAULT_MAX_TOKENS;
+    const thinkingBudget = Math.min(this.config.thinkingBudgetTokens || DEFAULT_THINKING_BUDGET, maxTokens - 1024);
+    // Thinking blocks are not kept in our history, and Anthropic rejects tool-use turns without them
+    const hasToolHistory = request.contents.some((content) =>
+      (content?.parts || []).some((part: any) => part.functionCall || part.functionResponse)
+    );
+    const useThinking = !!request.includeThoughts && thinkingBudget >= 1024 && !hasToolHistory;
+
+    const response = await fetch(`${(this.config.baseUrl || "https://api.anthropic.com").replace(/\/+$/, "")}/v1/messages`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: request.systemInstruction,
+        messages: toAnthropicMessages(request.contents),
+        max_tokens: maxTokens,
+        stream: true,
+        // Extended thinking requires the default temperature
+        temperature: useThinking ? undefined : request.temperature,
+        thinking: useThinking ? { type: "enabled", budget_tokens: thinkingBudget } : undefined,
+        tools:
+          request.tools && request.tools.length > 0
+            ? request.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description || "",
+                input_schema: toJsonSchema(tool.parameters),
+              }))
+            : undefined,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Anthropic request failed (${response.status}): ${detail.slice(0, 500)}`);
+    }
+    return normalize(response.body);
+  }
+}
+
+function toAnthropicMessages(contents: any[]): any[] {
+  const messages: Array<{ role: "user" | "assistant"; content: any[] }> = [];
+
+  for (const turn of toNeutralTurns(contents)) {
+    const blocks: any[] = [];
+    for (const part of turn.parts) {
+      if (part.type === "text" && part.text) {
+        blocks.push({ type: "text", text: part.text });
+      } else if (part.type === "image") {
+        blocks.push({ type: "image", source: { type: "base64", media_type: part.mimeType, data: part.data } });
+      } else if (part.type === "function_call") {
+        blocks.push({ type: "tool_use", id: part.id, name: part.name, input: part.args || {} });
+      } else if (part.type === "function_response") {
+        blocks.push({ type: "tool_result", tool_use_id: part.id, content: JSON.stringify(part.response ?? {}) });
+      }
+    }
+    if (blocks.length === 0) continue;
+
+    // Anthropic requires alternating roles, so consecutive turns of the same role are merged
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === turn.role) {
+      previous.content.push(...blocks);
+    } else {
+      messages.push({ role: turn.role, content: blocks });
+    }
+  }
+  return messages;
+}
+
+async function* normalize(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  const toolBlocks = new Map<number, { id: string; name: string; input: string }>();
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const { data } of readServerSentEvents(body)) {
+    switch (data.type) {
+      case "message_start":
+        inputTokens = data.message?.usage?.input_tokens || 0;
+        outputTokens = data.message?.usage?.output_tokens || 0;
+        yield { usage: { inputTokens, outputTokens } };
+        break;
+      case "content_block_start":
+        if (data.content_block?.type === "tool_use") {
+          toolBlocks.set(data.index, { id: data.content_block.id, name: data.content_block.name, input: "" });
+        }
+        break;
+      case "content_block_delta":
+        if (data.delta?.type === "text_delta") {
+          yield { text: data.delta.text };
+        } else if (data.delta?.type === "thinking_delta") {
+          yield { thought: data.delta.thinking };
+        } else if (data.delta?.type === "input_json_delta") {
+          const block = toolBlocks.get(data.index);
+          if (block) block.input += data.delta.partial_json || "";
+        }
+        break;
+      case "content_block_stop": {
+        const block = toolBlocks.get(data.index);
+        if (block) {
+          toolBlocks.delete(data.index);
+          yield { functionCalls: [{ id: block.id, name: block.name, args: safeParseJson(block.input) }] };
+        }
+        break;
+      }
+      case "message_delta":
+        if (data.usage?.output_tokens) {
+          outputTokens = data.usage.output_tokens;
+          yield { usage: { inputTokens, outputTokens } };
+        }
+        break;
+      case "error":
+        throw new Error(`Anthropic stream error: ${data.error?.message || "unknown error"}`);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+//ai/providers/convert.ts
+// Helpers shared by the non-Gemini providers: schema and history translation, SSE parsing
+
+export interface NeutralPart {
+  type: "text" | "image" | "function_call" | "function_response";
+  text?: string;
+  mimeType?: string;
+  data?: string; // base64
+  id?: string;
+  name?: string;
+  args?: any;
+  response?: any;
+}
+
+export interface NeutralTurn {
+  role: "user" | "assistant";
+  parts: NeutralPart[];
+}
+
+// Gemini declarations use upper-case `Type` values; JSON Schema wants lower-case
+export function toJsonSchema(schema: any): any {
+  if (!schema || typeof schema !== "object") return { type: "object", properties: {} };
+  const result: any = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (Array.isArray(schema.enum)) result.enum = schema.enum;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (Array.isArray(schema.required) && schema.required.length > 0) result.required = schema.required;
+  if (result.type === "object" && !result.properties) result.properties = {};
+  return result;
+}
+
+// Flattens Gemini-shaped contents and gives every function call an id its response can refer to
+export function toNeutralTurns(contents: any[]): NeutralTurn[] {
+  const pendingIds = new Map<string, string[]>();
+  let counter = 0;
+
+  return contents.map((content) => {
+    const parts: NeutralPart[] = [];
+    for (const part of content?.parts || []) {
+      if (typeof part.text === "string" && !part.thought) {
+        parts.push({ type: "text", text: part.text });
+      } else if (part.inlineData?.data && part.inlineData.mimeType?.startsWith("image/")) {
+        parts.push({ type: "image", mimeType: part.inlineData.mimeType, data: part.inlineData.data });
+      } else if (part.inlineData || part.fileData) {
+        // Audio and documents are only understood natively by Gemini
+        const mimeType = part.inlineData?.mimeType || part.fileData?.mimeType || "file";
+        parts.push({ type: "text", text: `[A ${mimeType} attachment was omitted because this model cannot read it]` });
+      } else if (part.functionCall) {
+        const name = part.functionCall.name;
+        const id = part.functionCall.id || `call_${++counter}`;
+        pendingIds.set(name, [...(pendingIds.get(name) || []), id]);
+        parts.push({ type: "function_call", id, name, args: part.functionCall.args || {} });
+      } else if (part.functionResponse) {
+        const name = part.functionResponse.name;
+        const queue = pendingIds.get(name) || [];
+        const id = part.functionResponse.id || queue.shift() || `call_${++counter}`;
+        pendingIds.set(name, queue);
+        parts.push({ type: "function_response", id, name, response: part.functionResponse.response });
+      }
+    }
+    return { role: content?.role === "model" || content?.role === "assistant" ? "assistant" : "user", parts };
+  });
+}
+
+// Yields the `event` name and parsed `data` of each server-sent event
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event?: string; data: any }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      const parsed = parseEvent(rawEvent);
+      if (parsed) yield parsed;
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  const parsed = parseEvent(buffer);
+  if (parsed) yield parsed;
+}
+
+function parseEvent(rawEvent: string): { event?: string; data: any } | null {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+  for (const line of rawEvent.split(/\r?\n/)) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+  if (dataLines.length === 0) return null;
+  const data = dataLines.join("\n");
+  if (data === "[DONE]") return null;
+  try {
+    return { event, data: JSON.parse(data) };
+  } catch {
+    return null;
+  }
+}
+
+export function safeParseJson(text: string): any {
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,58 @@
+//ai/providers/gemini.ts
+import { GoogleGenAI } from "@google/genai";
+
+import { LLMProvider, LLMRequest, LLMStreamChunk } from "./types";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContentStream(request: LLMRequest): Promise<AsyncIterable<LLMStreamChunk>> {
+    const stream = await this.ai.models.generateContentStream({
+      model: request.model,
+      contents: request.contents,
+      config: {
+        temperature: request.temperature,
+        thinkingConfig: {
+          includeThoughts: request.includeThoughts,
+        },
+        tools: request.tools && request.tools.length > 0 ? [{ functionDeclarations: request.tools }] : undefined,
+        systemInstruction: request.systemInstruction,
+        abortSignal: request.signal,
+      },
+    });
+    return normalize(stream);
+  }
+}
+
+async function* normalize(stream: AsyncIterable<any>): AsyncGenerator<LLMStreamChunk> {
+  for await (const chunk of stream) {
+    const normalized: LLMStreamChunk = {};
+    for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+      if (!part.text) continue;
+      if (part.thought) {
+        normalized.thought = (normalized.thought || "") + part.text;
+      } else {
+        normalized.text = (normalized.text || "") + part.text;
+      }
+    }
+    if (chunk.functionCalls?.length > 0) {
+      normalized.functionCalls = chunk.functionCalls.map((call: any) => ({
+        id: call.id,
+        name: call.name,
+        args: call.args || {},
+      }));
+    }
+    if (chunk.usageMetadata) {
+      normalized.usage = {
+        inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+        outputTokens: (chunk.usageMetadata.candidatesTokenCount || 0) + (chunk.usageMetadata.thoughtsTokenCount || 0),
+      };
+    }
+    yield normalized;
+  }
+}
@@ -0,0 +1,50 @@
+//ai/providers/index.ts
+import { AnthropicProvider } from "./anthropic";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import { LLMProvider, ModelSelection, ProviderName } from "./types";
+
+export * from "./types";
+
+const PROVIDER_NAMES: ProviderName[] = ["gemini", "openai-compatible", "anthropic"];
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
+
+// Parses "provider:model", e.g. "openai-compatible:llama3.1:8b"; a bare model name means Gemini
+export function parseModelSelection(value: string): ModelSelection | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const separator = trimmed.indexOf(":");
+  const provider = separator === -1 ? "" : trimmed.slice(0, separator);
+  if (isProviderName(provider)) {
+    const model = trimmed.slice(separator + 1).trim();
+    return model ? { provider, model } : null;
+  }
+  return { provider: "gemini", model: trimmed };
+}
+
+// Builds the backend for a provider from environment configuration
+export function createProvider(name: ProviderName, options: { geminiApiKey?: string } = {}): LLMProvider {
+  switch (name) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error("ANTHROPIC_API_KEY is required to use the anthropic provider.");
+      }
+      return new AnthropicProvider({
+        apiKey,
+        maxTokens: Number(process.env.ANTHROPIC_MAX_TOKENS) || undefined,
+      });
+    }
+    case "gemini":
+    default:
+      return new GeminiProvider(options.geminiApiKey || process.env.GEMINI_API_KEY || "");
+  }
+}
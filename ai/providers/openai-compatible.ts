@@ -0,0 +1,160 @@
+//ai/providers/openai-compatible.ts
+import { readServerSentEvents, safeParseJson, toJsonSchema, toNeutralTurns } from "./convert";
+import { LLMProvider, LLMRequest, LLMStreamChunk } from "./types";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  apiKey?: string; // Local servers usually do not need one
+}
+
+// Works with OpenAI and any server exposing the /chat/completions API (Ollama, llama.cpp, vLLM, LM Studio)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai-compatible" as const;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, "") };
+  }
+
+  async generateContentStream(request: LLMRequest): Promise<AsyncIterable<LLMStreamChunk>> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toOpenAIMessages(request),
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+        tools:
+          request.tools && request.tools.length > 0
+            ? request.tools.map((tool) => ({
+                type: "function",
+                function: {
+                  name: tool.name,
+                  description: tool.description || "",
+                  parameters: toJsonSchema(tool.parameters),
+                },
+              }))
+            : undefined,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${detail.slice(0, 500)}`);
+    }
+    return normalize(response.body);
+  }
+}
+
+function toOpenAIMessages(request: LLMRequest): any[] {
+  const messages: any[] = [];
+  if (request.systemInstruction) {
+    messages.push({ role: "system", content: request.systemInstruction });
+  }
+
+  for (const turn of toNeutralTurns(request.contents)) {
+    const text = turn.parts.filter((p) => p.type === "text").map((p) => p.text).join("\n");
+    const images = turn.parts.filter((p) => p.type === "image");
+    const calls = turn.parts.filter((p) => p.type === "function_call");
+    const responses = turn.parts.filter((p) => p.type === "function_response");
+
+    if (turn.role === "assistant") {
+      messages.push({
+        role: "assistant",
+        content: text || null,
+        tool_calls:
+          calls.length > 0
+            ? calls.map((call) => ({
+                id: call.id,
+                type: "function",
+                function: { name: call.name, arguments: JSON.stringify(call.args || {}) },
+              }))
+            : undefined,
+      });
+      continue;
+    }
+
+    // Tool results must directly follow the assistant message that requested them
+    for (const result of responses) {
+      messages.push({ role: "tool", tool_call_id: result.id, content: JSON.stringify(result.response ?? {}) });
+    }
+    if (text || images.length > 0) {
+      messages.push({
+        role: "user",
+        content:
+          images.length > 0
+            ? [
+                ...(text ? [{ type: "text", text }] : []),
+                ...images.map((image) => ({
+                  type: "image_url",
+                  image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                })),
+              ]
+            : text,
+      });
+    }
+  }
+  return messages;
+}
+
+async function* normalize(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  // Tool call arguments arrive as string fragments keyed by index
+  const toolCalls = new Map<number, { id?: string; name: string; args: string }>();
+
+  for await (const { data } of readServerSentEvents(body)) {
+    const chunk: LLMStreamChunk = {};
+    const choice = data.choices?.[0];
+    const delta = choice?.delta || {};
+
+    if (typeof delta.content === "string" && delta.content) chunk.text = delta.content;
+    // Reasoning models served by Ollama / llama.cpp / DeepSeek expose their thinking here
+    const reasoning = delta.reasoning_content ?? delta.reasoning;
+    if (typeof reasoning === "string" && reasoning) chunk.thought = reasoning;
+
+    for (const call of delta.tool_calls || []) {
+      const index = call.index ?? toolCalls.size;
+      const existing = toolCalls.get(index) || { id: undefined, name: "", args: "" };
+      if (call.id) existing.id = call.id;
+      if (call.function?.name) existing.name += call.function.name;
+      if (call.function?.arguments) existing.args += call.function.arguments;
+      toolCalls.set(index, existing);
+    }
+
+    if (choice?.finish_reason && toolCalls.size > 0) {
+      chunk.functionCalls = Array.from(toolCalls.values()).map((call) => ({
+        id: call.id,
+        name: call.name,
+        args: safeParseJson(call.args),
+      }));
+      toolCalls.clear();
+    }
+
+    if (data.usage) {
+      chunk.usage = {
+        inputTokens: data.usage.prompt_tokens || 0,
+        outputTokens: data.usage.completion_tokens || 0,
+      };
+    }
+
+    if (chunk.text || chunk.thought || chunk.functionCalls || chunk.usage) {
+      yield chunk;
+    }
+  }
+
+  // Some servers end the stream without a finish_reason
+  if (toolCalls.size > 0) {
+    yield {
+      functionCalls: Array.from(toolCalls.values()).map((call) => ({
+        id: call.id,
+        name: call.name,
+        args: safeParseJson(call.args),
+      })),
+    };
+  }
+}
@@ -0,0 +1,46 @@
+//ai/providers/types.ts
+import { FunctionDeclaration } from "@google/genai";
+
+export type ProviderName = "gemini" | "openai-compatible" | "anthropic";
+
+// Which backend and model to run a conversation on
+export interface ModelSelection {
+  provider: ProviderName;
+  model: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes reasoning/thinking tokens where the backend reports them
+}
+
+export interface LLMFunctionCall {
+  id?: string;
+  name: string;
+  args: any;
+}
+
+// One normalized streaming event; every field is optional and several may be set at once
+export interface LLMStreamChunk {
+  text?: string;
+  thought?: string;
+  functionCalls?: LLMFunctionCall[];
+  usage?: LLMUsage; // Cumulative for the request, so the last value wins
+}
+
+// Conversation contents use the Gemini shape ({ role: "user" | "model", parts }) across the app;
+// providers translate them to their own wire format
+export interface LLMRequest {
+  model: string;
+  contents: any[];
+  systemInstruction?: string;
+  tools?: FunctionDeclaration[];
+  temperature?: number;
+  includeThoughts?: boolean;
+  signal?: AbortSignal; // Aborts the request, including a stream in progress
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  generateContentStream(request: LLMRequest): Promise<AsyncIterable<LLMStreamChunk>>;
+}
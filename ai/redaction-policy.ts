@@ -0,0 +1,40 @@
+//ai/redaction-policy.ts
+// Which kinds of sensitive values are replaced with placeholders before tool results reach the model.
+// Kept free of server imports so the account page can list the categories.
+
+export const redactionCategories = [
+  { id: "email", label: "Email addresses", description: "Addresses in emails, contacts and CRM records" },
+  { id: "phone", label: "Phone numbers", description: "Phone, mobile and fax numbers" },
+  { id: "address", label: "Postal addresses", description: "Street address and postal code fields" },
+  { id: "card", label: "Payment cards", description: "Card numbers (Luhn-checked) and card fingerprints" },
+  { id: "iban", label: "Bank accounts", description: "IBANs (checksum-verified)" },
+  { id: "jwt", label: "Session tokens", description: "JSON Web Tokens" },
+  { id: "aws_key", label: "AWS keys", description: "AWS access key ids" },
+  { id: "api_key", label: "API keys and secrets", description: "Your saved API keys, OAuth tokens and secret fields" },
+] as const;
+
+export type RedactionCategory = (typeof redactionCategories)[number]["id"];
+
+export interface RedactionPolicy {
+  enabled: boolean;
+  categories: RedactionCategory[];
+}
+
+// Email addresses are left visible by default: the model needs them to summarize and triage mail
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  enabled: true,
+  categories: ["phone", "address", "card", "iban", "jwt", "aws_key", "api_key"],
+};
+
+// Stored and submitted policies are checked against the known categories
+export function normalizeRedactionPolicy(value: unknown): RedactionPolicy {
+  if (!value || typeof value !== "object") return DEFAULT_REDACTION_POLICY;
+  const { enabled, categories } = value as Partial<RedactionPolicy>;
+  const knownIds: string[] = redactionCategories.map((category) => category.id);
+  return {
+    enabled: typeof enabled === "boolean" ? enabled : DEFAULT_REDACTION_POLICY.enabled,
+    categories: Array.isArray(categories)
+      ? (categories.filter((id, index) => knownIds.includes(id) && categories.indexOf(id) === index) as RedactionCategory[])
+      : DEFAULT_REDACTION_POLICY.categories,
+  };
+}
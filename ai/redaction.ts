@@ -0,0 +1,247 @@
+//ai/redaction.ts
+import { decryptApiKey, encryptApiKey } from "@/lib/encryption";
+import redis, { redisKeys } from "@/lib/redis";
+
+import { ToolMiddleware } from "./custom-middleware";
+import { RedactionCategory, RedactionPolicy } from "./redaction-policy";
+import { DEEP_RESEARCH_NAME } from "./research-engine";
+import { DELEGATE_TASK_NAME } from "./sub-agent";
+
+// Sensitive values in tool results are swapped for placeholders such as [[REDACTED_PHONE_1]] before the model
+// sees them, so they are neither sent to the model provider nor saved in the chat history. The placeholders of
+// a chat map back to their values in an encrypted vault, and are filled back in only when the model passes
+// them to a tool call.
+
+const TOKEN_PATTERN = /\[\[REDACTED_([A-Z_]+)_(\d+)\]\]/g;
+const VAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MIN_SECRET_LENGTH = 12;
+const MAX_DEPTH = 12;
+
+// Tools that hand their arguments to another model, which should not get the real values either
+const MODEL_TOOLS = new Set([DELEGATE_TASK_NAME, DEEP_RESEARCH_NAME]);
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: the country code and check digits move to the end, letters become 10-35, and the number mod 97 is 1
+function passesIbanChecksum(iban: string): boolean {
+  const compact = iban.replace(/\s/g, "");
+  if (compact.length < 15 || compact.length > 34) return false;
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+interface PatternDetector {
+  category: RedactionCategory;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+// Checked in this order, so a card number is never taken for a phone number
+const PATTERN_DETECTORS: PatternDetector[] = [
+  { category: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { category: "aws_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    category: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: passesIbanChecksum,
+  },
+  {
+    category: "card",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: (match) => {
+      const digits = digitsOf(match);
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    },
+  },
+  { category: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    category: "phone",
+    pattern: /(?<![\w+])\+?\(?\d{1,4}\)?(?:[\s.-]?\(?\d{2,4}\)?){2,5}(?!\w)/g,
+    // Bare digit runs are usually ids or timestamps; phone numbers carry a + or separators
+    validate: (match) => {
+      const digits = digitsOf(match);
+      return digits.length >= 10 && digits.length <= 15 && /^\+|[\s.()-]/.test(match.trim());
+    },
+  },
+];
+
+// Structured results name their fields, which catches what no pattern can, such as addresses and fingerprints
+const FIELD_DETECTORS: Array<{ category: RedactionCategory; key: RegExp }> = [
+  { category: "card", key: /fingerprint/i },
+  { category: "phone", key: /^(phone|phone_?number|mobile|mobile_?phone|telephone|fax)$/i },
+  {
+    category: "address",
+    key: /^(address|address_?line_?\d?|street|street_?address|line_?[12]|postal_?code|post_?code|zip|zip_?code)$/i,
+  },
+  {
+    category: "api_key",
+    key: /^(api_?key|access_?token|refresh_?token|client_?secret|secret|secret_?key|private_?key|password)$/i,
+  },
+];
+
+// Placeholder to value for one chat; the same value always gets the same placeholder
+export class RedactionVault {
+  private values = new Map<string, string>();
+  private tokens = new Map<string, string>();
+  private changed = false;
+
+  constructor(entries: Record<string, string> = {}) {
+    for (const [token, value] of Object.entries(entries)) {
+      this.values.set(token, value);
+      this.tokens.set(value, token);
+    }
+  }
+
+  tokenize(category: RedactionCategory, value: string): string {
+    const existing = this.tokens.get(value);
+    if (existing) return existing;
+    const prefix = `[[REDACTED_${category.toUpperCase()}_`;
+    const count = Array.from(this.values.keys()).filter((token) => token.startsWith(prefix)).length;
+    const token = `${prefix}${count + 1}]]`;
+    this.values.set(token, value);
+    this.tokens.set(value, token);
+    this.changed = true;
+    return token;
+  }
+
+  resolve(token: string): string | undefined {
+    return this.values.get(token);
+  }
+
+  hasChanges(): boolean {
+    return this.changed;
+  }
+
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.values);
+  }
+}
+
+export async function loadRedactionVault(chatId: string): Promise<RedactionVault> {
+  try {
+    const stored = await redis.get<string>(redisKeys.chatRedactionVault(chatId));
+    if (stored) {
+      const decrypted = await decryptApiKey(stored);
+      return new RedactionVault(JSON.parse(decrypted.value));
+    }
+  } catch (error) {
+    console.error("Failed to load redaction vault:", error);
+  }
+  return new RedactionVault();
+}
+
+export async function saveRedactionVault(chatId: string, vault: RedactionVault): Promise<void> {
+  if (!vault.hasChanges()) return;
+  const encrypted = await encryptApiKey(JSON.stringify(vault.toJSON()));
+  await redis.set(redisKeys.chatRedactionVault(chatId), encrypted, { ex: VAULT_TTL_SECONDS });
+}
+
+export class Redactor {
+  private policy: RedactionPolicy;
+  private vault: RedactionVault;
+  private knownSecrets: string[];
+
+  // knownSecrets are the user's saved API keys and OAuth tokens, matched exactly
+  constructor(policy: RedactionPolicy, vault: RedactionVault, knownSecrets: string[] = []) {
+    this.policy = policy;
+    this.vault = vault;
+    this.knownSecrets = knownSecrets
+      .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  private redacts(category: RedactionCategory): boolean {
+    return this.policy.enabled && this.policy.categories.includes(category);
+  }
+
+  redactText(text: string): string {
+    if (!this.policy.enabled) return text;
+    let redacted = text;
+    if (this.redacts("api_key")) {
+      for (const secret of this.knownSecrets) {
+        if (redacted.includes(secret)) redacted = redacted.split(secret).join(this.vault.tokenize("api_key", secret));
+      }
+    }
+    for (const { category, pattern, validate } of PATTERN_DETECTORS) {
+      if (!this.redacts(category)) continue;
+      redacted = redacted.replace(pattern, (match) =>
+        validate && !validate(match) ? match : this.vault.tokenize(category, match)
+      );
+    }
+    return redacted;
+  }
+
+  redact(value: any, key?: string, depth = 0): any {
+    if (!this.policy.enabled || depth > MAX_DEPTH) return value;
+    if (typeof value === "string" || typeof value === "number") {
+      const field = key ? FIELD_DETECTORS.find((detector) => detector.key.test(key)) : undefined;
+      const text = String(value);
+      if (field && this.redacts(field.category) && text.trim().length >= 3) {
+        return this.vault.tokenize(field.category, text);
+      }
+      return typeof value === "string" ? this.redactText(value) : value;
+    }
+    if (Array.isArray(value)) return value.map((item) => this.redact(item, key, depth + 1));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([childKey, child]) => [childKey, this.redact(child, childKey, depth + 1)])
+      );
+    }
+    return value;
+  }
+
+  // Placeholders the vault does not know, e.g. ones the model made up, are left as they are
+  rehydrate(value: any, depth = 0): any {
+    if (typeof value === "string") {
+      return value.replace(TOKEN_PATTERN, (token) => this.vault.resolve(token) ?? token);
+    }
+    if (!value || typeof value !== "object" || depth > MAX_DEPTH) return value;
+    if (Array.isArray(value)) return value.map((item) => this.rehydrate(item, depth + 1));
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, this.rehydrate(child, depth + 1)]));
+  }
+}
+
+// Runs just before secret scrubbing, so placeholders rather than [REDACTED] stand in for what it can fill back in
+export function createRedactionMiddleware(redactor: Redactor): ToolMiddleware {
+  return {
+    name: "redaction",
+    order: 80,
+    beforeToolCall: (toolCall) => {
+      if (MODEL_TOOLS.has(toolCall.name)) return;
+      return { ...toolCall, args: redactor.rehydrate(toolCall.args) };
+    },
+    afterToolCall: (_toolCall, _result, outcome) => {
+      if (!outcome.toolResult) return;
+      return {
+        ...outcome,
+        toolResult: {
+          ...outcome.toolResult,
+          result: redactor.redact(outcome.toolResult.result),
+          error: outcome.toolResult.error ? redactor.redactText(outcome.toolResult.error) : undefined,
+        },
+      };
+    },
+  };
+}
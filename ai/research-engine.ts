@@ -0,0 +1,556 @@
+//ai/research-engine.ts
+import crypto from "crypto";
+
+import { toolFetch } from "./tool-cancellation";
+import { assignToolCallIds, executeToolCalls } from "./tool-executor";
+import {
+  ResearchConfidence,
+  ResearchJob,
+  ResearchReport,
+  ResearchSection,
+  ResearchSource,
+  ToolCall,
+  ToolResult,
+} from "./types";
+
+// deep_research runs a research job inside one tool call. It splits the question into sub-questions, fans
+// each out across the available search tools, merges the hits by URL and content, reads the best pages,
+// scores the sources, and searches again for the gaps it finds. The result is a structured report whose
+// sections cite sources by id and carry a confidence level that the evidence has to support.
+
+export const DEEP_RESEARCH_NAME = "deep_research";
+
+// Search tools the engine fans out across, in order of preference
+export const RESEARCH_SEARCH_TOOLS = [
+  "serper_search",
+  "tavily_web_search",
+  "langsearch_search",
+  "duckduckgo_search",
+  "serpstack_search",
+  "jina_ai_service",
+];
+
+// Tools that return a page's text, tried before fetching the page directly
+const PAGE_READER_TOOLS = ["web_extract", "jina_ai_service"];
+
+export type ResearchDepth = "quick" | "standard" | "thorough";
+
+export interface ResearchLimits {
+  maxIterations: number;
+  maxSubQuestions: number;
+  maxSearchesPerIteration: number;
+  maxToolsPerQuery: number;
+  resultsPerSearch: number;
+  maxPagesPerIteration: number;
+  maxElapsedMs: number;
+}
+
+export const RESEARCH_LIMITS: Record<ResearchDepth, ResearchLimits> = {
+  quick: { maxIterations: 1, maxSubQuestions: 3, maxSearchesPerIteration: 6, maxToolsPerQuery: 2, resultsPerSearch: 6, maxPagesPerIteration: 3, maxElapsedMs: 90_000 },
+  standard: { maxIterations: 2, maxSubQuestions: 4, maxSearchesPerIteration: 12, maxToolsPerQuery: 3, resultsPerSearch: 8, maxPagesPerIteration: 5, maxElapsedMs: 180_000 },
+  thorough: { maxIterations: 3, maxSubQuestions: 5, maxSearchesPerIteration: 18, maxToolsPerQuery: 3, resultsPerSearch: 10, maxPagesPerIteration: 6, maxElapsedMs: 240_000 },
+};
+
+// Searching stops at the depth's time limit; writing the report takes up to another minute
+export const DEEP_RESEARCH_TIMEOUT_MS = RESEARCH_LIMITS.thorough.maxElapsedMs + 60_000;
+
+const MAX_PAGE_CHARS = 6000;
+const MAX_EVIDENCE_SOURCES = 14;
+const MAX_EVIDENCE_CHARS = 1500;
+const PAGE_FETCH_TIMEOUT_MS = 15_000;
+
+// Domains whose content is usually primary or reviewed
+const TRUSTED_DOMAINS = [
+  "wikipedia.org", "arxiv.org", "nature.com", "science.org", "nih.gov", "who.int", "reuters.com", "apnews.com",
+  "bbc.co.uk", "bbc.com", "github.com", "acm.org", "ieee.org", "springer.com", "sciencedirect.com", "statista.com",
+];
+const LOW_VALUE_DOMAINS = ["pinterest.com", "facebook.com", "instagram.com", "tiktok.com", "quora.com"];
+
+// Result keys that hold media rather than pages
+const SKIPPED_RESULT_KEYS = new Set(["images", "videos", "imageResults", "videoResults", "shoppingResults", "shopping", "ads", "places"]);
+
+// The parts of AIAgent a research run needs
+export interface ResearchAgent {
+  generateText(prompt: string, systemInstruction?: string): Promise<string>;
+  executeToolCall(toolCall: ToolCall, signal?: AbortSignal): Promise<ToolResult>;
+}
+
+export interface ResearchRequest {
+  question: string;
+  focus?: string; // What the report should concentrate on, e.g. an audience or a time range
+  depth?: ResearchDepth;
+  toolNames: string[]; // Search and page-reading tools available to this run
+}
+
+export interface ResearchRunOptions {
+  id: string;
+  signal?: AbortSignal;
+  onUpdate?: (job: ResearchJob) => void;
+}
+
+interface SearchHit {
+  url: string;
+  title: string;
+  snippet: string;
+  rank: number;
+  publishedAt?: string;
+}
+
+interface CollectedSource extends ResearchSource {
+  key: string;
+  fingerprint: string;
+  bestRank: number;
+  content?: string;
+}
+
+export function parseJsonFromText<T>(text: string): T | null {
+  const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+  const start = unfenced.search(/[[{]/);
+  if (start === -1) return null;
+  const end = Math.max(unfenced.lastIndexOf("}"), unfenced.lastIndexOf("]"));
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1)) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Same page, different link: protocol, www, fragments, tracking parameters and trailing slashes are ignored
+export function normalizeResearchUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    const params = new URLSearchParams(parsed.search);
+    for (const name of Array.from(params.keys())) {
+      if (/^(utm_|fbclid|gclid|ref$|ref_src)/i.test(name)) params.delete(name);
+    }
+    const query = params.toString();
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${parsed.hostname.replace(/^www\./, "").toLowerCase()}${path}${query ? `?${query}` : ""}`;
+  } catch {
+    return null;
+  }
+}
+
+// Syndicated copies of one article share their opening words even when their URLs differ
+function contentFingerprint(title: string, snippet: string): string {
+  const words = `${title} ${snippet}`.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return crypto.createHash("sha1").update(words.slice(0, 24).join(" ")).digest("hex");
+}
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|nav|footer|header)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Search tools shape their results differently; any object with a link and a title is a hit
+export function extractSearchHits(result: any): SearchHit[] {
+  const hits: SearchHit[] = [];
+  const visit = (value: any, depth: number) => {
+    if (!value || typeof value !== "object" || depth > 5) return;
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, depth + 1));
+      return;
+    }
+    const url = typeof value.url === "string" ? value.url : typeof value.link === "string" ? value.link : undefined;
+    const title = typeof value.title === "string" ? value.title : typeof value.name === "string" ? value.name : undefined;
+    if (url && title && /^https?:\/\//.test(url)) {
+      const snippet = [value.snippet, value.content, value.description, value.summary].find(
+        (text) => typeof text === "string" && text.trim()
+      );
+      hits.push({
+        url,
+        title: title.trim(),
+        snippet: truncate(String(snippet || "").trim(), 600),
+        rank: hits.length + 1,
+        publishedAt: value.date || value.published_date || value.datePublished || undefined,
+      });
+      return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (!SKIPPED_RESULT_KEYS.has(key)) visit(child, depth + 1);
+    }
+  };
+  visit(result, 0);
+  return hits;
+}
+
+function buildSearchArgs(toolName: string, query: string, count: number): any {
+  switch (toolName) {
+    case "serper_search":
+      return { query, num: count };
+    case "tavily_web_search":
+      return { query, maxResults: count, searchDepth: "advanced", includeAnswer: false };
+    case "langsearch_search":
+      return { query, count: Math.min(count, 10), summary: false };
+    case "duckduckgo_search":
+      return { query, maxResults: count };
+    case "serpstack_search":
+      return { query, num: count };
+    case "jina_ai_service":
+      return { service: "search", query, responseFormat: "json" };
+    default:
+      return { query };
+  }
+}
+
+function questionTerms(text: string): string[] {
+  const stopWords = new Set(["the", "and", "for", "with", "what", "how", "why", "are", "is", "of", "in", "on", "to", "a", "an", "does", "do", "which", "who", "when"]);
+  return Array.from(new Set((text.toLowerCase().match(/[a-z0-9]{3,}/g) || []).filter((word) => !stopWords.has(word))));
+}
+
+// Agreement between search engines counts most, then rank, relevance of the text, the domain and freshness
+function scoreSource(source: CollectedSource, terms: string[], searchToolCount: number): number {
+  const agreement = Math.min(source.foundBy.length / Math.max(Math.min(searchToolCount, 3), 1), 1);
+  const rank = 1 / Math.sqrt(source.bestRank);
+  const text = `${source.title} ${source.snippet} ${source.content || ""}`.toLowerCase();
+  const relevance = terms.length > 0 ? terms.filter((term) => text.includes(term)).length / terms.length : 0.5;
+  let domain = 0.5;
+  if (source.domain.endsWith(".gov") || source.domain.endsWith(".edu") || TRUSTED_DOMAINS.some((d) => source.domain.endsWith(d))) {
+    domain = 1;
+  } else if (LOW_VALUE_DOMAINS.some((d) => source.domain.endsWith(d))) {
+    domain = 0.1;
+  }
+  let freshness = 0.5;
+  const published = source.publishedAt ? Date.parse(source.publishedAt) : NaN;
+  if (Number.isFinite(published)) {
+    const ageDays = (Date.now() - published) / 86_400_000;
+    freshness = ageDays < 365 ? 1 : ageDays < 3 * 365 ? 0.6 : 0.3;
+  }
+  const score = 0.3 * agreement + 0.2 * rank + 0.3 * relevance + 0.15 * domain + 0.05 * freshness + (source.read ? 0.05 : 0);
+  return Math.round(Math.min(score, 1) * 100) / 100;
+}
+
+const confidenceOrder: ResearchConfidence[] = ["low", "medium", "high"];
+
+// The model's stated confidence is capped by what the cited sources can support
+function calibrateConfidence(
+  stated: ResearchConfidence,
+  sourceIds: number[],
+  sourcesById: Map<number, ResearchSource>
+): ResearchConfidence {
+  const cited = sourceIds.map((id) => sourcesById.get(id)).filter((source): source is ResearchSource => Boolean(source));
+  const domains = new Set(cited.map((source) => source.domain));
+  const averageScore = cited.reduce((sum, source) => sum + source.score, 0) / Math.max(cited.length, 1);
+  let supported: ResearchConfidence = "low";
+  if (cited.length >= 3 && domains.size >= 2 && averageScore >= 0.55) {
+    supported = "high";
+  } else if (cited.length >= 2 || cited.some((source) => source.read && source.score >= 0.5)) {
+    supported = "medium";
+  }
+  const statedLevel = confidenceOrder.indexOf(stated);
+  return confidenceOrder[Math.min(statedLevel === -1 ? 0 : statedLevel, confidenceOrder.indexOf(supported))];
+}
+
+function formatEvidence(list: CollectedSource[]): string {
+  return list
+    .map((source, index) => `[${index + 1}] ${source.title} (${source.url})\n${truncate(source.content || source.snippet, MAX_EVIDENCE_CHARS)}`)
+    .join("\n\n");
+}
+
+export async function runResearch(
+  agent: ResearchAgent,
+  request: ResearchRequest,
+  options: ResearchRunOptions
+): Promise<ResearchJob> {
+  const { signal } = options;
+  const limits = RESEARCH_LIMITS[request.depth || "standard"];
+  const deadline = Date.now() + limits.maxElapsedMs;
+  const searchTools = RESEARCH_SEARCH_TOOLS.filter((name) => request.toolNames.includes(name));
+  const readerTool = PAGE_READER_TOOLS.find((name) => request.toolNames.includes(name));
+  const terms = questionTerms(`${request.question} ${request.focus || ""}`);
+
+  const job: ResearchJob = {
+    id: options.id,
+    question: request.question,
+    status: "running",
+    phase: "planning",
+    iteration: 0,
+    subQuestions: [],
+    searches: 0,
+    sourcesFound: 0,
+    pagesRead: 0,
+  };
+  const update = () => options.onUpdate?.({ ...job, subQuestions: [...job.subQuestions] });
+  update();
+
+  const sources = new Map<string, CollectedSource>();
+  const fingerprints = new Map<string, CollectedSource>();
+  const askedQueries = new Set<string>();
+  const attemptedReads = new Set<string>();
+  let toolRotation = 0;
+
+  const addHits = (toolName: string, hits: SearchHit[]) => {
+    for (const hit of hits.slice(0, limits.resultsPerSearch)) {
+      const key = normalizeResearchUrl(hit.url);
+      if (!key) continue;
+      const fingerprint = contentFingerprint(hit.title, hit.snippet);
+      const existing = sources.get(key) || (hit.snippet ? fingerprints.get(fingerprint) : undefined);
+      if (existing) {
+        if (!existing.foundBy.includes(toolName)) existing.foundBy.push(toolName);
+        existing.bestRank = Math.min(existing.bestRank, hit.rank);
+        if (hit.snippet.length > existing.snippet.length) existing.snippet = hit.snippet;
+        continue;
+      }
+      const source: CollectedSource = {
+        id: 0,
+        key,
+        fingerprint,
+        url: hit.url,
+        title: hit.title,
+        domain: domainOf(hit.url),
+        snippet: hit.snippet,
+        foundBy: [toolName],
+        score: 0,
+        read: false,
+        bestRank: hit.rank,
+        publishedAt: hit.publishedAt,
+      };
+      sources.set(key, source);
+      if (hit.snippet) fingerprints.set(fingerprint, source);
+    }
+  };
+
+  // Each query goes to a few tools, rotating so that every available tool gets used
+  const search = async (queries: string[]) => {
+    const calls: ToolCall[] = [];
+    for (const query of queries) {
+      const toolCount = Math.min(limits.maxToolsPerQuery, searchTools.length);
+      for (let i = 0; i < toolCount && calls.length < limits.maxSearchesPerIteration; i++) {
+        const toolName = searchTools[(toolRotation + i) % searchTools.length];
+        calls.push(...assignToolCallIds([{ name: toolName, args: buildSearchArgs(toolName, query, limits.resultsPerSearch) }]));
+      }
+      toolRotation++;
+    }
+    await executeToolCalls(calls, (call, callSignal) => agent.executeToolCall(call, callSignal), {
+      signal,
+      onComplete: (call, result) => {
+        job.searches++;
+        if (!result.error && result.result?.success !== false) addHits(call.name, extractSearchHits(result.result));
+        job.sourcesFound = sources.size;
+        update();
+      },
+    });
+  };
+
+  const rankedSources = () => {
+    for (const source of sources.values()) source.score = scoreSource(source, terms, searchTools.length);
+    return Array.from(sources.values()).sort((a, b) => b.score - a.score);
+  };
+
+  const readPage = async (source: CollectedSource): Promise<string> => {
+    if (readerTool === "jina_ai_service") {
+      const { result } = await agent.executeToolCall({ id: `research_read_${source.key}`, name: readerTool, args: { service: "reader", url: source.url } }, signal);
+      if (typeof result?.content === "string") return result.content;
+    }
+    const response = await toolFetch(source.url, { signal: AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS), headers: { "User-Agent": "Mozilla/5.0 (compatible; JotiumResearch/1.0)" } });
+    if (!response.ok || !(response.headers.get("content-type") || "").includes("text/html")) return "";
+    return htmlToText(await response.text());
+  };
+
+  // The best sources not tried yet are read in full; Tavily extract takes them in one call
+  const readTopPages = async () => {
+    const unread = rankedSources()
+      .filter((source) => !attemptedReads.has(source.key))
+      .slice(0, limits.maxPagesPerIteration);
+    if (unread.length === 0) return;
+    unread.forEach((source) => attemptedReads.add(source.key));
+
+    if (readerTool === "web_extract") {
+      const { result } = await agent.executeToolCall(
+        { id: `research_extract_${Date.now()}`, name: "web_extract", args: { urls: unread.map((source) => source.url), format: "text" } },
+        signal
+      );
+      for (const page of Array.isArray(result?.results) ? result.results : []) {
+        const source = unread.find((candidate) => candidate.key === normalizeResearchUrl(page.url || ""));
+        if (source && typeof page.content === "string" && page.content.trim()) {
+          source.content = truncate(page.content.trim(), MAX_PAGE_CHARS);
+          source.read = true;
+        }
+      }
+    } else {
+      await Promise.all(
+        unread.map(async (source) => {
+          const text = await readPage(source).catch(() => "");
+          if (text.trim().length > 200) {
+            source.content = truncate(text.trim(), MAX_PAGE_CHARS);
+            source.read = true;
+          }
+        })
+      );
+    }
+    job.pagesRead = Array.from(sources.values()).filter((source) => source.read).length;
+    update();
+  };
+
+  try {
+    if (searchTools.length === 0) {
+      throw new Error("No search tools are available for research.");
+    }
+
+    const planned = parseJsonFromText<{ subQuestions?: string[] }>(
+      await agent.generateText(`Break this research question into at most ${limits.maxSubQuestions} specific, searchable sub-questions that together answer it. Write each as a web search query. Today's date is ${new Date().toDateString()}.
+
+QUESTION: ${request.question}${request.focus ? `\nFOCUS: ${request.focus}` : ""}
+
+Respond with JSON only: {"subQuestions": ["..."]}`)
+    );
+    const subQuestions = (planned?.subQuestions || []).filter((q) => typeof q === "string" && q.trim()).slice(0, limits.maxSubQuestions);
+    job.subQuestions = subQuestions.length > 0 ? subQuestions : [request.question];
+    update();
+
+    let queries = job.subQuestions;
+    while (queries.length > 0 && job.iteration < limits.maxIterations && Date.now() < deadline) {
+      signal?.throwIfAborted();
+      job.iteration++;
+      job.phase = "searching";
+      update();
+      queries.forEach((query) => askedQueries.add(query.toLowerCase()));
+      await search(queries);
+
+      signal?.throwIfAborted();
+      job.phase = "reading";
+      update();
+      await readTopPages();
+
+      if (job.iteration >= limits.maxIterations || Date.now() >= deadline) break;
+      signal?.throwIfAborted();
+      job.phase = "analyzing";
+      update();
+      const gaps = parseJsonFromText<{ gaps?: string[] }>(
+        await agent.generateText(`You are checking research coverage. Given the question, the sub-questions already searched and the findings so far, list up to 3 new web search queries for important gaps: missing facts, unverified claims that need a second source, or sub-questions with weak evidence. Return an empty list if the findings already answer the question well.
+
+QUESTION: ${request.question}
+SEARCHED: ${Array.from(askedQueries).join("; ")}
+
+FINDINGS:
+${formatEvidence(rankedSources().slice(0, 10))}
+
+Respond with JSON only: {"gaps": ["..."]}`)
+      );
+      queries = (gaps?.gaps || [])
+        .filter((q) => typeof q === "string" && q.trim() && !askedQueries.has(q.toLowerCase()))
+        .slice(0, 3);
+      job.subQuestions.push(...queries);
+    }
+
+    signal?.throwIfAborted();
+    job.phase = "writing";
+    update();
+    job.report = await writeReport(agent, request, rankedSources().slice(0, MAX_EVIDENCE_SOURCES));
+    job.status = "completed";
+  } catch (error) {
+    if (signal?.aborted) {
+      job.status = "stopped";
+    } else {
+      console.error("Research run failed:", error);
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  job.phase = "done";
+  job.sourcesFound = sources.size;
+  update();
+  return job;
+}
+
+async function writeReport(
+  agent: ResearchAgent,
+  request: ResearchRequest,
+  topSources: CollectedSource[]
+): Promise<ResearchReport> {
+  // Sources are numbered in score order, which is how the report cites them
+  const reportSources: ResearchSource[] = topSources.map((source, index) => ({
+    id: index + 1,
+    url: source.url,
+    title: source.title,
+    domain: source.domain,
+    snippet: source.snippet,
+    foundBy: [...source.foundBy],
+    score: source.score,
+    read: source.read,
+    ...(source.publishedAt ? { publishedAt: String(source.publishedAt) } : {}),
+  }));
+  const sourcesById = new Map(reportSources.map((source) => [source.id, source]));
+
+  const draft = parseJsonFromText<{
+    title?: string;
+    summary?: string;
+    sections?: Array<{ heading?: string; content?: string; confidence?: ResearchConfidence; sources?: number[] }>;
+    openQuestions?: string[];
+  }>(
+    await agent.generateText(`Write a research report that answers the question from the numbered sources below. Use only what the sources say; cite them inline as [n]. Organize the report into 3 to 6 sections with clear headings. Rate each section's confidence: "high" when several independent sources agree, "medium" when support is limited, "low" when evidence is thin or conflicting. List what the sources could not answer as open questions.
+
+QUESTION: ${request.question}${request.focus ? `\nFOCUS: ${request.focus}` : ""}
+
+SOURCES:
+${formatEvidence(topSources)}
+
+Respond with JSON only:
+{"title": "...", "summary": "2-4 sentence answer", "sections": [{"heading": "...", "content": "markdown with [n] citations", "confidence": "high|medium|low", "sources": [1, 2]}], "openQuestions": ["..."]}`)
+  );
+
+  const sections: ResearchSection[] = (draft?.sections || [])
+    .filter((section) => section?.heading && section?.content)
+    .map((section) => {
+      const cited = new Set<number>((Array.isArray(section.sources) ? section.sources : []).map(Number));
+      for (const match of String(section.content).matchAll(/\[(\d+)\]/g)) cited.add(Number(match[1]));
+      const sourceIds = Array.from(cited).filter((id) => sourcesById.has(id)).sort((a, b) => a - b);
+      return {
+        heading: String(section.heading),
+        content: String(section.content),
+        confidence: calibrateConfidence(section.confidence || "medium", sourceIds, sourcesById),
+        sourceIds,
+      };
+    });
+
+  if (sections.length === 0) {
+    // Without a usable draft the report lists the strongest findings as they are
+    return {
+      title: request.question,
+      summary: "The report could not be written, so the strongest sources found are listed below.",
+      sections: [
+        {
+          heading: "Key sources",
+          content: reportSources.slice(0, 8).map((source) => `- ${source.title}: ${source.snippet} [${source.id}]`).join("\n"),
+          confidence: "low",
+          sourceIds: reportSources.slice(0, 8).map((source) => source.id),
+        },
+      ],
+      openQuestions: [],
+      sources: reportSources,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  return {
+    title: draft?.title || request.question,
+    summary: draft?.summary || "",
+    sections,
+    openQuestions: (draft?.openQuestions || []).filter((question) => typeof question === "string"),
+    sources: reportSources,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,20 @@
+//ai/research-report.ts
+import { ResearchReport } from "./types";
+
+// Export formats for deep_research reports. Kept apart from the engine so the client can use them too.
+
+export function researchReportToMarkdown(report: ResearchReport): string {
+  const sections = report.sections
+    .map((section) => `## ${section.heading}\n\n_Confidence: ${section.confidence}_\n\n${section.content}`)
+    .join("\n\n");
+  const openQuestions = report.openQuestions.length
+    ? `\n\n## Open questions\n\n${report.openQuestions.map((question) => `- ${question}`).join("\n")}`
+    : "";
+  const sources = report.sources.map((source) => `${source.id}. [${source.title}](${source.url}) (${source.domain})`).join("\n");
+  return `# ${report.title}\n\n${report.summary}\n\n${sections}${openQuestions}\n\n## Sources\n\n${sources}\n`;
+}
+
+export function researchReportFileName(report: ResearchReport, extension: "md" | "json"): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60);
+  return `${slug || "research-report"}.${extension}`;
+}
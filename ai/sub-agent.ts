@@ -0,0 +1,237 @@
+//ai/sub-agent.ts
+import { AgentBudget, AgentBudgetLimits, AgentBudgetUsage } from "./agent-budget";
+import { ToolMiddlewareContext, ToolMiddlewarePipeline } from "./custom-middleware";
+import { LLMStreamChunk, LLMUsage } from "./providers";
+import { DEEP_RESEARCH_NAME } from "./research-engine";
+import { assignToolCallIds, executeToolCalls } from "./tool-executor";
+import { shapeToolResult, UNSHAPED_TOOLS } from "./tool-result-shaping";
+import { DISCOVER_TOOLS_NAME } from "./tool-router";
+import { Delegation, DelegationStatus, DelegationStep, ToolCall, ToolResult, ToolRiskLevel } from "./types";
+
+// delegate_task hands a self-contained sub-problem to a nested agent. The sub-agent sees only the tools it
+// was given and its own instructions, runs its own tool loop under a smaller budget, and returns one
+// structured result to the agent that delegated it.
+
+export const DELEGATE_TASK_NAME = "delegate_task";
+
+export const SUB_AGENT_LIMITS: AgentBudgetLimits = {
+  maxToolRounds: 6,
+  maxToolCalls: 20,
+  maxElapsedMs: 120_000,
+  maxInputTokens: 400_000,
+  maxOutputTokens: 32_000,
+};
+
+// The delegate_task call runs for the sub-agent's whole budget plus its closing summary
+export const DELEGATE_TASK_TIMEOUT_MS = SUB_AGENT_LIMITS.maxElapsedMs + 45_000;
+
+// Sub-agents cannot delegate further, widen their own tool scope or change the user's long-term memory,
+// and a research job would outlast their time budget
+export const SUB_AGENT_EXCLUDED_TOOLS = new Set([
+  DELEGATE_TASK_NAME,
+  DISCOVER_TOOLS_NAME,
+  DEEP_RESEARCH_NAME,
+  "remember",
+  "forget",
+]);
+
+const MAX_TEXT_STEP_CHARS = 2000;
+
+const APPROVAL_REQUIRED_ERROR =
+  "This action needs the user's approval, which a delegated task cannot ask for. Do not retry it; say in your result what should be done so the main assistant can ask the user.";
+
+// The parts of AIAgent a sub-agent run needs
+export interface SubAgent {
+  generateContentStream(
+    conversationHistory: any[],
+    options?: { disableTools?: boolean; signal?: AbortSignal }
+  ): Promise<AsyncIterable<LLMStreamChunk>>;
+  executeToolCall(toolCall: ToolCall, signal?: AbortSignal): Promise<ToolResult>;
+  getToolRiskLevel(toolCall: ToolCall): ToolRiskLevel;
+}
+
+export interface SubAgentRequest {
+  task: string;
+  instructions?: string;
+  toolNames: string[];
+  maxToolCalls?: number;
+}
+
+export interface SubAgentResult {
+  status: DelegationStatus;
+  output: string;
+  toolCalls: Array<{ name: string; success: boolean; error?: string }>;
+  usage: AgentBudgetUsage;
+}
+
+// How the chat turn that delegated the task handles tool calls, applied to the sub-agent's calls as well
+export interface SubAgentToolHandling {
+  middleware: ToolMiddlewarePipeline;
+  context: ToolMiddlewareContext;
+  redact: (value: any) => any; // Applied before a result is stored as an artifact or reported in a step
+}
+
+export interface SubAgentRunOptions {
+  id: string;
+  chatId?: string; // Lets oversized tool results be stored as chat artifacts, as in the main loop
+  signal?: AbortSignal;
+  onUpdate?: (delegation: Delegation) => void;
+  toolHandling?: SubAgentToolHandling;
+}
+
+export function buildSubAgentInstructions(request: SubAgentRequest): string {
+  return `You are a focused sub-agent working for Jotium, an AI assistant. Jotium delegated one self-contained task to you. Complete it with the tools you have, then reply with the result.
+
+TASK:
+${request.task}
+${request.instructions ? `\nINSTRUCTIONS FROM JOTIUM:\n${request.instructions}\n` : ""}
+RULES:
+- Work autonomously; you cannot ask the user questions. Make reasonable assumptions and state them in your result.
+- Use only the tools you were given. If something is out of reach, say what is missing.
+- Your final reply goes back to Jotium, not to the user. Make it complete and self-contained: the facts found, the actions taken with ids or links, and anything left undone.
+- Today's date is ${new Date().toDateString()}.`;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+async function readStream(
+  stream: AsyncIterable<LLMStreamChunk>
+): Promise<{ text: string; functionCalls: any[]; usage?: LLMUsage }> {
+  let text = "";
+  const functionCalls: any[] = [];
+  let usage: LLMUsage | undefined;
+  for await (const chunk of stream) {
+    if (chunk.usage) usage = chunk.usage;
+    if (chunk.text) text += chunk.text;
+    if (chunk.functionCalls?.length) functionCalls.push(...chunk.functionCalls);
+  }
+  return { text, functionCalls, usage };
+}
+
+export async function runSubAgent(
+  agent: SubAgent,
+  request: SubAgentRequest,
+  options: SubAgentRunOptions
+): Promise<SubAgentResult> {
+  const { signal, toolHandling } = options;
+  const redact = (value: any) => (toolHandling ? toolHandling.redact(value) : value);
+  const limits: AgentBudgetLimits = {
+    ...SUB_AGENT_LIMITS,
+    maxToolCalls: Math.min(Math.max(request.maxToolCalls || SUB_AGENT_LIMITS.maxToolCalls, 1), SUB_AGENT_LIMITS.maxToolCalls),
+  };
+  const budget = new AgentBudget(limits);
+  const delegation: Delegation = {
+    id: options.id,
+    task: request.task,
+    tools: request.toolNames,
+    status: "running",
+    steps: [],
+  };
+  // Listeners get a copy, so later changes to a step do not alter what was already sent
+  const update = () => options.onUpdate?.({ ...delegation, steps: delegation.steps.map((step) => ({ ...step })) });
+  update();
+
+  const history: any[] = [{ role: "user", parts: [{ text: request.task }] }];
+  const toolCalls: SubAgentResult["toolCalls"] = [];
+  let output = "";
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const round = await readStream(await agent.generateContentStream(history, { signal }));
+      budget.recordUsage(round.usage);
+      // A reply without tool calls is the result; text written alongside tool calls is a step
+      if (round.functionCalls.length === 0) {
+        output = round.text;
+        delegation.status = "completed";
+        break;
+      }
+      if (round.text.trim()) {
+        delegation.steps.push({ kind: "text", content: truncate(round.text.trim(), MAX_TEXT_STEP_CHARS) });
+      }
+
+      const exceededReason = budget.checkBeforeToolRound(round.functionCalls.length);
+      if (exceededReason) {
+        if (round.text) history.push({ role: "model", parts: [{ text: round.text }] });
+        history.push({ role: "user", parts: [{ text: budget.getSummaryPrompt(exceededReason) }] });
+        const summary = await readStream(await agent.generateContentStream(history, { disableTools: true, signal }));
+        output = summary.text;
+        delegation.status = "budget_exceeded";
+        break;
+      }
+
+      const calls = assignToolCallIds(round.functionCalls);
+      budget.recordToolRound(calls.length);
+      const steps: DelegationStep[] = calls.map((call) => ({ kind: "tool", toolName: call.name, status: "running" }));
+      delegation.steps.push(...steps);
+      update();
+
+      const results = await executeToolCalls(
+        calls,
+        async (call, callSignal) => {
+          if (agent.getToolRiskLevel(call) === "high") {
+            return {
+              toolCallId: call.id,
+              result: { success: false, error: APPROVAL_REQUIRED_ERROR },
+              error: APPROVAL_REQUIRED_ERROR,
+            };
+          }
+          const checked = toolHandling
+            ? await toolHandling.middleware.beforeToolCall(call, toolHandling.context)
+            : { toolCall: call };
+          return checked.result || agent.executeToolCall(checked.toolCall, callSignal);
+        },
+        {
+          signal,
+          onComplete: (call, result) => {
+            const step = steps[calls.indexOf(call)];
+            step.status = result.error ? "failed" : "done";
+            if (result.error) step.content = truncate(String(redact(result.error)), 300);
+            update();
+          },
+        }
+      );
+      calls.forEach((call, index) => {
+        const error = results[index].error ? redact(results[index].error) : undefined;
+        toolCalls.push({ name: call.name, success: !error, error });
+      });
+
+      // As in the main loop, results are redacted before an oversized one is stored as an artifact
+      const responses = await Promise.all(
+        calls.map(async (call, index) => {
+          const result = redact(results[index].result);
+          const shaped =
+            options.chatId && !UNSHAPED_TOOLS.has(call.name) ? await shapeToolResult(options.chatId, call, result) : result;
+          if (!toolHandling) return shaped;
+          const outcome = await toolHandling.middleware.afterToolCall(call, results[index], shaped, toolHandling.context);
+          return outcome.toolResult?.result ?? shaped;
+        })
+      );
+      history.push({
+        role: "model",
+        parts: [
+          ...(round.text ? [{ text: round.text }] : []),
+          ...round.functionCalls.map((functionCall) => ({ functionCall })),
+        ],
+      });
+      history.push({
+        role: "user",
+        parts: calls.map((call, index) => ({ functionResponse: { name: call.name, response: responses[index] } })),
+      });
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      delegation.status = "stopped";
+    } else {
+      console.error("Sub-agent run failed:", error);
+      delegation.status = "failed";
+      output = output || `The delegated task failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  delegation.output = output;
+  update();
+  return { status: delegation.status, output, toolCalls, usage: budget.getUsage() };
+}
@@ -0,0 +1,73 @@
+//ai/tool-approval.ts
+import { ToolApprovalDecision, ToolCall, ToolResult, ToolRiskLevel } from "./types";
+
+// Integrations whose tools declare high-risk actions. Users can opt into
+// "always allow" per integration from the account page.
+export const approvalIntegrations = [
+  { id: "gmail", label: "Gmail", description: "Sending emails", toolNames: ["gmail_operations"] },
+  { id: "github", label: "GitHub", description: "Merging pull requests, deleting files, webhooks and gists", toolNames: ["github_tool"] },
+  { id: "stripe", label: "Stripe", description: "Refunds, payouts, charges, cancellations and deletions", toolNames: ["stripe_management"] },
+  {
+    id: "mongodb",
+    label: "MongoDB",
+    description: "Dropping databases or collections and bulk updates or deletes",
+    toolNames: ["mongodb_database_ops", "mongodb_crud", "mongodb_aggregation", "mongodb_indexes"],
+  },
+  {
+    id: "twilio",
+    label: "Twilio",
+    description: "SMS, WhatsApp, voice calls, faxes and phone number purchases",
+    toolNames: [
+      "send_sms",
+      "send_whatsapp",
+      "make_voice_call",
+      "send_fax",
+      "manage_phone_numbers",
+      "manage_conversations",
+      "phone_verification",
+      "create_video_room",
+      "phone_lookup",
+    ],
+  },
+] as const;
+
+export type ApprovalIntegrationId = (typeof approvalIntegrations)[number]["id"];
+
+export function getIntegrationForTool(toolName: string): string {
+  const integration = approvalIntegrations.find((i) => (i.toolNames as readonly string[]).includes(toolName));
+  return integration?.id || toolName;
+}
+
+export function requiresApproval(toolName: string, riskLevel: ToolRiskLevel, alwaysAllow: string[]): boolean {
+  if (riskLevel !== "high") return false;
+  return !alwaysAllow.includes(getIntegrationForTool(toolName));
+}
+
+// Result fed back to the model when the user declines a call
+export function buildRejectedResult(toolCall: ToolCall): ToolResult {
+  const error = `The user rejected the ${toolCall.name} action. Do not retry it unless the user asks again.`;
+  return {
+    toolCallId: toolCall.id,
+    result: { success: false, rejected: true, error },
+    error,
+  };
+}
+
+// Applies the user's decisions to the paused calls; calls without a decision count as rejected
+export function applyApprovalDecisions(
+  toolCalls: ToolCall[],
+  pendingIds: string[],
+  decisions: ToolApprovalDecision[]
+): { toolCalls: ToolCall[]; rejectedIds: Set<string> } {
+  const rejectedIds = new Set<string>();
+  const updated = toolCalls.map((toolCall) => {
+    if (!pendingIds.includes(toolCall.id)) return toolCall;
+    const decision = decisions.find((d) => d.toolCallId === toolCall.id);
+    if (!decision || decision.decision === "reject") {
+      rejectedIds.add(toolCall.id);
+      return toolCall;
+    }
+    return decision.args && typeof decision.args === "object" ? { ...toolCall, args: decision.args } : toolCall;
+  });
+  return { toolCalls: updated, rejectedIds };
+}
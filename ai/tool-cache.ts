@@ -0,0 +1,77 @@
+//ai/tool-cache.ts
+import crypto from "crypto";
+
+import redis, { redisKeys } from "@/lib/redis";
+
+import { ToolCachePolicy } from "./types";
+
+// Read-only tools declare a cache policy per call. Identical calls within the TTL reuse the stored result,
+// across turns and regenerations. Arguments are normalized first, so key order, extra whitespace and
+// empty values do not split the cache.
+
+export interface CachedToolResult {
+  result: any;
+  cachedAt: string;
+}
+
+// Larger results are cheaper to fetch again than to keep in Redis
+const MAX_CACHED_RESULT_CHARS = 512 * 1024;
+
+export function normalizeToolArgs(value: any): any {
+  if (Array.isArray(value)) return value.map(normalizeToolArgs);
+  if (value && typeof value === "object") {
+    const normalized: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      const entry = normalizeToolArgs(value[key]);
+      if (entry !== undefined && entry !== null && entry !== "") normalized[key] = entry;
+    }
+    return normalized;
+  }
+  if (typeof value === "string") return value.trim().replace(/\s+/g, " ");
+  return value;
+}
+
+function toolCacheKey(toolName: string, args: any, policy: ToolCachePolicy, userId?: string): string | null {
+  if (policy.ttlSeconds <= 0) return null;
+  if (policy.scope === "user" && !userId) return null;
+  const argsHash = crypto.createHash("sha256").update(JSON.stringify(normalizeToolArgs(args ?? {}))).digest("hex");
+  return redisKeys.toolCache(toolName, policy.scope === "user" ? `user:${userId}` : "global", argsHash);
+}
+
+export async function getCachedToolResult(
+  toolName: string,
+  args: any,
+  policy: ToolCachePolicy,
+  userId?: string
+): Promise<CachedToolResult | null> {
+  const key = toolCacheKey(toolName, args, policy, userId);
+  if (!key) return null;
+  try {
+    return await redis.get<CachedToolResult>(key);
+  } catch (error) {
+    console.error("Failed to read tool cache:", error);
+    return null;
+  }
+}
+
+// Returns when the result was cached, or null when it was not stored
+export async function cacheToolResult(
+  toolName: string,
+  args: any,
+  policy: ToolCachePolicy,
+  userId: string | undefined,
+  result: any
+): Promise<string | null> {
+  const key = toolCacheKey(toolName, args, policy, userId);
+  if (!key) return null;
+
+  const entry: CachedToolResult = { result, cachedAt: new Date().toISOString() };
+  if (JSON.stringify(entry).length > MAX_CACHED_RESULT_CHARS) return null;
+  try {
+    await redis.set(key, entry, { ex: policy.ttlSeconds });
+    return entry.cachedAt;
+  } catch (error) {
+    console.error("Failed to write tool cache:", error);
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+//ai/tool-cancellation.ts
+import { AsyncLocalStorage } from "async_hooks";
+
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+import { backoffDelay, HttpFailure, parseRetryAfter, shouldRetryHttp, sleepWithSignal } from "./tool-errors";
+
+// Stopping a chat turn aborts the tool calls it started. The turn's signal is carried through async context,
+// so a tool's HTTP helpers can pick it up without every method taking a signal parameter. The same context
+// collects the last failed HTTP response, which the agent uses to classify the tool's error, and carries
+// a callback for long-running tools to report progress while they run.
+
+export interface ToolCallContext {
+  signal?: AbortSignal;
+  lastHttpFailure?: HttpFailure;
+  onProgress?: (progress: any) => void;
+}
+
+const toolContextStorage = new AsyncLocalStorage<ToolCallContext>();
+
+export const TOOL_STOPPED_ERROR = "Stopped by the user before this tool finished.";
+
+export function runInToolContext<T>(context: ToolCallContext, run: () => Promise<T>): Promise<T> {
+  return toolContextStorage.run(context, run);
+}
+
+export function runWithToolSignal<T>(signal: AbortSignal | undefined, run: () => Promise<T>): Promise<T> {
+  return runInToolContext({ signal }, run);
+}
+
+export function getToolSignal(): AbortSignal | undefined {
+  return toolContextStorage.getStore()?.signal;
+}
+
+export function reportToolProgress(progress: any): void {
+  toolContextStorage.getStore()?.onProgress?.(progress);
+}
+
+// A request that succeeded after retries clears the failures it recorded
+function recordHttpFailure(failure: HttpFailure | undefined): void {
+  const context = toolContextStorage.getStore();
+  if (context) context.lastHttpFailure = failure;
+}
+
+function mergeSignals(own: AbortSignal | null | undefined, turn: AbortSignal | undefined): AbortSignal | undefined {
+  if (!own) return turn;
+  if (!turn) return own;
+  return AbortSignal.any([own, turn]);
+}
+
+// fetch for tool HTTP calls: aborted when the chat turn is stopped, and retried with backoff on rate limits
+// and transient failures. A failed response that is not retried is returned as usual for the tool to handle.
+export async function toolFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const signal = mergeSignals(init?.signal, getToolSignal());
+  const request = signal ? { ...init, signal } : init;
+  const method = init?.method || (input instanceof Request ? input.method : "GET");
+  // Streamed bodies are consumed by the first attempt
+  const replayable = !(init?.body instanceof ReadableStream) && !(input instanceof Request && input.body);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(input, request);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      recordHttpFailure({ retries: attempt });
+      if (!replayable || !shouldRetryHttp(undefined, method, attempt)) throw error;
+      await sleepWithSignal(backoffDelay(attempt), signal);
+      continue;
+    }
+    if (response.ok) {
+      if (attempt > 0) recordHttpFailure(undefined);
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    recordHttpFailure({ status: response.status, retryAfterMs, retries: attempt });
+    if (!replayable || !shouldRetryHttp(response.status, method, attempt, retryAfterMs)) return response;
+    await response.body?.cancel().catch(() => {});
+    await sleepWithSignal(backoffDelay(attempt, retryAfterMs), signal);
+  }
+}
+
+type RetriableAxiosConfig = InternalAxiosRequestConfig & { toolRetries?: number };
+
+// Axios clients created by tools get the same behaviour through interceptors
+export function withToolSignal(client: AxiosInstance): AxiosInstance {
+  client.interceptors.request.use((config) => {
+    const signal = getToolSignal();
+    if (signal && !config.signal) config.signal = signal;
+    return config;
+  });
+  client.interceptors.response.use(
+    (response) => {
+      if ((response.config as RetriableAxiosConfig).toolRetries) recordHttpFailure(undefined);
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as RetriableAxiosConfig | undefined;
+      if (!config || axios.isCancel(error as unknown)) throw error;
+
+      const attempt = config.toolRetries || 0;
+      const status = error.response?.status;
+      const retryAfterMs = parseRetryAfter(error.response?.headers?.["retry-after"]);
+      recordHttpFailure({ status, retryAfterMs, retries: attempt });
+      if (!shouldRetryHttp(status, config.method || "GET", attempt, retryAfterMs)) throw error;
+
+      await sleepWithSignal(backoffDelay(attempt, retryAfterMs), config.signal as AbortSignal | undefined);
+      config.toolRetries = attempt + 1;
+      return client.request(config);
+    }
+  );
+  return client;
+}
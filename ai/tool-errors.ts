@@ -0,0 +1,160 @@
+//ai/tool-errors.ts
+import { ToolErrorKind } from "./types";
+
+// Tools report failures in many shapes: thrown SDK errors, axios errors, or { success: false, error } results.
+// Every failure is mapped to one of a few kinds, so retries, token refreshes and the model's next step
+// depend on what went wrong rather than on each tool's wording.
+
+const RETRYABLE_KINDS: ReadonlySet<ToolErrorKind> = new Set(["rate_limited", "upstream_unavailable"]);
+
+export const MAX_HTTP_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+const MAX_RETRY_AFTER_MS = 20_000; // Longer waits are surfaced to the model instead of holding the turn
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// The last failed HTTP response a tool call saw, recorded by toolFetch and the axios interceptor
+export interface HttpFailure {
+  status?: number; // Missing for network errors
+  retryAfterMs?: number;
+  retries: number; // Retries already made for the request
+}
+
+export class ToolError extends Error {
+  readonly kind: ToolErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ToolErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "ToolError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+export function toolErrorKindForStatus(status: number): ToolErrorKind | null {
+  if (status === 401) return "auth_expired";
+  if (status === 403) return "permission_denied";
+  if (status === 404 || status === 410) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status === 400 || status === 409 || status === 422) return "invalid_args";
+  if (status === 408 || status >= 500) return "upstream_unavailable";
+  return null;
+}
+
+// Checked in order: a rate limit message often also says "invalid" or "try again"
+const MESSAGE_PATTERNS: [ToolErrorKind, RegExp][] = [
+  ["rate_limited", /\b429\b|rate[\s_-]?limit|too many requests|quota exceeded|throttl/i],
+  [
+    "auth_expired",
+    /\b401\b|unauthori[sz]ed|invalid[_ ]grant|invalid[_ ]auth|token[_ ](?:has )?(?:expired|revoked)|expired[_ ]token|invalid (?:access |oauth )?token|not authenticated|reconnect/i,
+  ],
+  ["permission_denied", /\b403\b|forbidden|permission|insufficient[_ ]scope|access denied|not allowed/i],
+  ["not_found", /\b404\b|not found|does not exist|no such/i],
+  [
+    "upstream_unavailable",
+    /\b50[0-4]\b|service unavailable|bad gateway|gateway timeout|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|fetch failed|socket hang up|network error/i,
+  ],
+  ["invalid_args", /\b4(?:00|22)\b|required|invalid|missing|must be|validation|unsupported/i],
+];
+
+function httpStatusOf(value: any): number | undefined {
+  const candidates = [value?.response?.status, value?.status, value?.statusCode];
+  return candidates.find((status) => typeof status === "number" && status >= 400 && status < 600);
+}
+
+function messageOf(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.message;
+  const error = (value as any)?.error ?? (value as any)?.message;
+  if (typeof error === "string") return error;
+  return error ? JSON.stringify(error) : "";
+}
+
+// Classifies a thrown error or a failed tool result. Returns null when nothing points to a known kind.
+export function classifyToolError(error: unknown, httpFailure?: HttpFailure): ToolError | null {
+  if (error instanceof ToolError) return error;
+
+  const message = messageOf(error) || "Tool call failed";
+  const status = httpStatusOf(error) ?? httpFailure?.status;
+  const retryAfterMs = httpFailure?.retryAfterMs ?? parseRetryAfter((error as any)?.response?.headers?.["retry-after"]);
+
+  const statusKind = status ? toolErrorKindForStatus(status) : null;
+  if (statusKind) return new ToolError(statusKind, message, { status, retryAfterMs });
+  // A network failure recorded by toolFetch has no status
+  if (httpFailure && !httpFailure.status) return new ToolError("upstream_unavailable", message);
+
+  const match = MESSAGE_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return match ? new ToolError(match[0], message, { retryAfterMs }) : null;
+}
+
+// What the model should do next, sent alongside the error
+export function describeToolErrorKind(kind: ToolErrorKind): string {
+  switch (kind) {
+    case "auth_expired":
+      return "The connection to this service has expired and could not be refreshed. Ask the user to reconnect it in their account settings.";
+    case "rate_limited":
+      return "The service is rate limiting requests. Wait before calling it again, or continue without it.";
+    case "not_found":
+      return "The requested item does not exist. Check the id or search for it first instead of retrying the same call.";
+    case "invalid_args":
+      return "The service rejected the arguments. Fix them according to the error before calling the tool again.";
+    case "upstream_unavailable":
+      return "The service is temporarily unavailable. Retrying later may work; tell the user if it keeps failing.";
+    case "permission_denied":
+      return "The account does not have permission for this action. Tell the user which permission or scope is missing.";
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, unless the service said how long to wait
+export function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Rate limits and 503s mean the request was not processed, so any method is retried. Other gateway and
+// network failures may have reached the service, so only idempotent methods are.
+export function shouldRetryHttp(
+  status: number | undefined,
+  method: string,
+  attempt: number,
+  retryAfterMs?: number
+): boolean {
+  if (attempt >= MAX_HTTP_RETRIES) return false;
+  if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) return false;
+  if (status === 429 || status === 503) return true;
+  if (status === undefined || status === 502 || status === 504) return IDEMPOTENT_METHODS.has(method.toUpperCase());
+  return false;
+}
+
+// Resolves after the delay, or rejects as soon as the signal aborts
+export function sleepWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
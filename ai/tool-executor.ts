@@ -0,0 +1,111 @@
+//ai/tool-executor.ts
+import { ToolCall, ToolResult } from "./types";
+
+export interface ToolExecutionOptions {
+  concurrency?: number; // Max tool calls running at the same time
+  timeoutMs?: number; // Per-call timeout, 0 disables it
+  timeoutOverrides?: Record<string, number>; // Per-tool timeouts for tools expected to run longer
+  onStart?: (toolCall: ToolCall) => void;
+  onComplete?: (toolCall: ToolCall, result: ToolResult) => void;
+  signal?: AbortSignal; // The turn's signal; stopping the turn aborts every running call
+}
+
+// Receives a signal that is aborted when the call times out or the turn is stopped. Executors pass it on
+// to the tool so its HTTP requests are cancelled, rather than left running after a timeout result was returned.
+export type ToolCallExecutor = (toolCall: ToolCall, signal: AbortSignal) => Promise<ToolResult>;
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Defaults can be tuned per deployment without a code change
+export function getDefaultToolExecutionOptions(): Required<Pick<ToolExecutionOptions, "concurrency" | "timeoutMs">> {
+  return {
+    concurrency: Math.max(1, readNumberEnv("TOOL_CONCURRENCY", DEFAULT_CONCURRENCY)),
+    timeoutMs: readNumberEnv("TOOL_TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+  };
+}
+
+// Give every call coming back from the model a stable id before execution
+export function assignToolCallIds<T extends { name?: string; args?: any }>(toolCalls: T[]): (T & ToolCall)[] {
+  return toolCalls.map((tc) => ({
+    ...tc,
+    name: tc.name || (tc as any).functionName,
+    args: tc.args || {},
+    id: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  }));
+}
+
+async function runWithTimeout(
+  toolCall: ToolCall,
+  execute: ToolCallExecutor,
+  timeoutMs: number,
+  turnSignal?: AbortSignal
+): Promise<ToolResult> {
+  const controller = new AbortController();
+  const stop = () => controller.abort(turnSignal?.reason);
+  if (turnSignal?.aborted) stop();
+  else turnSignal?.addEventListener("abort", stop, { once: true });
+
+  const execution = execute(toolCall, controller.signal).catch((error: unknown): ToolResult => {
+    const message = error instanceof Error ? error.message : String(error);
+    return { toolCallId: toolCall.id, result: { success: false, error: message }, error: message };
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<ToolResult>((resolve) => {
+    if (!timeoutMs) return;
+    timer = setTimeout(() => {
+      const message = `Tool ${toolCall.name} timed out after ${Math.round(timeoutMs / 1000)}s`;
+      controller.abort(new Error(message));
+      resolve({ toolCallId: toolCall.id, result: { success: false, error: message }, error: message });
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([execution, timeout]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    turnSignal?.removeEventListener("abort", stop);
+  }
+}
+
+/**
+ * Executes the tool calls of a single model turn concurrently.
+ * Calls emitted in the same turn are independent, so they run in parallel up to
+ * the concurrency cap. Results are returned in the same order as the input calls
+ * so the functionResponse parts line up with the functionCall parts.
+ */
+export async function executeToolCalls(
+  toolCalls: ToolCall[],
+  execute: ToolCallExecutor,
+  options: ToolExecutionOptions = {}
+): Promise<ToolResult[]> {
+  const defaults = getDefaultToolExecutionOptions();
+  const concurrency = Math.max(1, options.concurrency ?? defaults.concurrency);
+  const timeoutMs = options.timeoutMs ?? defaults.timeoutMs;
+
+  const results: ToolResult[] = new Array(toolCalls.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < toolCalls.length) {
+      const index = nextIndex++;
+      const toolCall = toolCalls[index];
+      options.onStart?.(toolCall);
+      const timeout = options.timeoutOverrides?.[toolCall.name] ?? timeoutMs;
+      const result = await runWithTimeout(toolCall, execute, timeout, options.signal);
+      results[index] = result;
+      options.onComplete?.(toolCall, result);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, toolCalls.length) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+}
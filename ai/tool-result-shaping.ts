@@ -0,0 +1,301 @@
+//ai/tool-result-shaping.ts
+import { randomBytes } from "crypto";
+
+import redis, { redisKeys } from "@/lib/redis";
+
+import { estimateTokens } from "./conversation-compaction";
+import { ToolCall } from "./types";
+
+// Tools such as spreadsheet reads, crawls and database queries can return megabytes of JSON. Above a token limit
+// the full result is stored as a chat artifact and the model gets its schema, a sample and an artifact_id,
+// which read_artifact pages through.
+
+export const READ_ARTIFACT_NAME = "read_artifact";
+
+export interface ToolArtifact {
+  id: string;
+  chatId: string;
+  toolName: string;
+  args: any;
+  kind: "items" | "text"; // Paged by array item, or by character
+  path: string; // Where the paged content sits in the result, e.g. "data.values"; empty for the whole result
+  total: number; // Items, or characters for text
+  chunkSizes: number[]; // Items or characters in each stored chunk
+  truncated: boolean; // True when the result was larger than an artifact holds
+  estimatedTokens: number;
+  createdAt: string;
+}
+
+export interface ArtifactPageOptions {
+  offset?: number;
+  limit?: number;
+  fields?: string[];
+}
+
+const DEFAULT_RESULT_TOKEN_LIMIT = 6000;
+const SAMPLE_TOKENS = 1200;
+const ENVELOPE_TOKENS = 800;
+const CHUNK_CHARS = 100_000;
+const MAX_ARTIFACT_CHARS = 8_000_000;
+const WRITE_BATCH_CHUNKS = 5; // Keeps each Redis request under its size limit
+const ARTIFACT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const SCHEMA_MAX_DEPTH = 4;
+const SCHEMA_MAX_KEYS = 25;
+const DEFAULT_PAGE_ITEMS = 50;
+const MAX_PAGE_ITEMS = 500;
+
+// Tools whose output goes to the UI rather than the model, or is already paged
+export const UNSHAPED_TOOLS = new Set(["generate_image", "pdf_generator", READ_ARTIFACT_NAME]);
+
+export function getResultTokenLimit(): number {
+  const value = Number(process.env.TOOL_RESULT_TOKEN_LIMIT);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_RESULT_TOKEN_LIMIT;
+}
+
+// Compact type outline of a value: arrays are described by their first item, long objects are cut short
+export function describeSchema(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [];
+    return depth >= SCHEMA_MAX_DEPTH ? `array(${value.length})` : [describeSchema(value[0], depth + 1)];
+  }
+  if (typeof value === "object") {
+    if (depth >= SCHEMA_MAX_DEPTH) return "object";
+    const entries = Object.entries(value as Record<string, unknown>);
+    const schema: Record<string, unknown> = Object.fromEntries(
+      entries.slice(0, SCHEMA_MAX_KEYS).map(([key, child]) => [key, describeSchema(child, depth + 1)])
+    );
+    if (entries.length > SCHEMA_MAX_KEYS) schema["…"] = `${entries.length - SCHEMA_MAX_KEYS} more keys`;
+    return schema;
+  }
+  return typeof value;
+}
+
+interface ContentLocation {
+  path: string[];
+  value: unknown[] | string;
+  size: number;
+}
+
+// The largest array or string in the result is what gets paged; the rest is usually a small envelope
+function findLargestContent(value: unknown, path: string[] = [], depth = 0): ContentLocation | null {
+  let best: ContentLocation | null = null;
+  if (Array.isArray(value)) {
+    best = { path, value, size: JSON.stringify(value).length };
+  } else if (typeof value === "string") {
+    best = { path, value, size: value.length };
+  } else if (value && typeof value === "object" && depth < SCHEMA_MAX_DEPTH) {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const found = findLargestContent(child, [...path, key], depth + 1);
+      if (found && (!best || found.size > best.size)) best = found;
+    }
+  }
+  return best;
+}
+
+function replaceAtPath(value: any, path: string[], replacement: unknown): any {
+  if (path.length === 0) return replacement;
+  const [key, ...rest] = path;
+  return { ...value, [key]: replaceAtPath(value?.[key], rest, replacement) };
+}
+
+function truncateForModel(value: unknown, maxChars: number): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function chunkItems(items: unknown[]): { chunks: unknown[][]; stored: number; truncated: boolean } {
+  const chunks: unknown[][] = [];
+  let current: unknown[] = [];
+  let currentChars = 0;
+  let totalChars = 0;
+  for (const [index, item] of items.entries()) {
+    const chars = JSON.stringify(item ?? null).length;
+    if (totalChars + chars > MAX_ARTIFACT_CHARS) {
+      if (current.length > 0) chunks.push(current);
+      return { chunks, stored: index, truncated: true };
+    }
+    if (current.length > 0 && currentChars + chars > CHUNK_CHARS) {
+      chunks.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(item);
+    currentChars += chars;
+    totalChars += chars;
+  }
+  if (current.length > 0) chunks.push(current);
+  return { chunks, stored: items.length, truncated: false };
+}
+
+function chunkText(text: string): { chunks: string[]; stored: number; truncated: boolean } {
+  const stored = Math.min(text.length, MAX_ARTIFACT_CHARS);
+  const chunks: string[] = [];
+  for (let start = 0; start < stored; start += CHUNK_CHARS) {
+    chunks.push(text.slice(start, Math.min(start + CHUNK_CHARS, stored)));
+  }
+  return { chunks, stored, truncated: stored < text.length };
+}
+
+async function saveArtifact(artifact: ToolArtifact, chunks: Array<{ items: unknown[] } | { text: string }>): Promise<void> {
+  const chunksKey = redisKeys.toolArtifactChunks(artifact.chatId, artifact.id);
+  for (let start = 0; start < chunks.length; start += WRITE_BATCH_CHUNKS) {
+    const pipeline = redis.pipeline();
+    chunks.slice(start, start + WRITE_BATCH_CHUNKS).forEach((chunk) => pipeline.rpush(chunksKey, chunk));
+    await pipeline.exec();
+  }
+
+  const pipeline = redis.pipeline();
+  pipeline.expire(chunksKey, ARTIFACT_TTL_SECONDS);
+  pipeline.set(redisKeys.toolArtifact(artifact.chatId, artifact.id), artifact, { ex: ARTIFACT_TTL_SECONDS });
+  pipeline.sadd(redisKeys.chatArtifacts(artifact.chatId), artifact.id);
+  pipeline.expire(redisKeys.chatArtifacts(artifact.chatId), ARTIFACT_TTL_SECONDS);
+  await pipeline.exec();
+}
+
+function sampleItems(items: unknown[]): unknown[] {
+  const sample: unknown[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const itemTokens = estimateTokens(item);
+    if (sample.length > 0 && tokens + itemTokens > SAMPLE_TOKENS) break;
+    sample.push(itemTokens > SAMPLE_TOKENS ? truncateForModel(item, SAMPLE_TOKENS * 4) : item);
+    tokens += itemTokens;
+  }
+  return sample;
+}
+
+// Returns the result to send to the model: unchanged when it is small enough, otherwise a summary of the stored artifact
+export async function shapeToolResult(
+  chatId: string,
+  toolCall: Pick<ToolCall, "name" | "args">,
+  result: any,
+  tokenLimit: number = getResultTokenLimit()
+): Promise<any> {
+  const estimatedTokens = estimateTokens(result);
+  if (estimatedTokens <= tokenLimit) return result;
+
+  const id = `art_${randomBytes(6).toString("hex")}`;
+  const totalChars = JSON.stringify(result).length;
+  const largest = findLargestContent(result);
+  // Page the largest part when it dominates the result, otherwise the whole result as JSON text
+  const content = largest && largest.size >= totalChars / 2 ? largest : { path: [], value: JSON.stringify(result), size: totalChars };
+  const path = content.path.join(".");
+
+  try {
+    const base = { id, chatId, toolName: toolCall.name, args: toolCall.args, path, estimatedTokens, createdAt: new Date().toISOString() };
+    let artifact: ToolArtifact;
+    let sample: unknown;
+    if (Array.isArray(content.value)) {
+      const { chunks, stored, truncated } = chunkItems(content.value);
+      artifact = { ...base, kind: "items", total: stored, chunkSizes: chunks.map((chunk) => chunk.length), truncated };
+      await saveArtifact(artifact, chunks.map((items) => ({ items })));
+      sample = sampleItems(content.value);
+    } else {
+      const { chunks, stored, truncated } = chunkText(content.value);
+      artifact = { ...base, kind: "text", total: stored, chunkSizes: chunks.map((chunk) => chunk.length), truncated };
+      await saveArtifact(artifact, chunks.map((text) => ({ text })));
+      sample = truncateForModel(content.value, SAMPLE_TOKENS * 4);
+    }
+
+    const envelope = path ? replaceAtPath(result, content.path, `[stored in artifact ${id}]`) : undefined;
+    const unit = artifact.kind === "items" ? "items" : "characters";
+    return {
+      ...(typeof result?.success === "boolean" ? { success: result.success } : {}),
+      artifact_id: id,
+      note: `This result (about ${estimatedTokens.toLocaleString()} tokens) was too large to include in full and was saved as an artifact. ${artifact.total.toLocaleString()} ${unit}${path ? ` at "${path}"` : ""} are stored; call ${READ_ARTIFACT_NAME} with this artifact_id and an offset to page through them.`,
+      kind: artifact.kind,
+      path,
+      total: artifact.total,
+      ...(artifact.truncated ? { truncated: true } : {}),
+      schema: describeSchema(result),
+      ...(envelope && estimateTokens(envelope) <= ENVELOPE_TOKENS ? { fields: envelope } : {}),
+      sample,
+    };
+  } catch (error) {
+    console.error("Failed to store tool result artifact:", error);
+    return {
+      ...(typeof result?.success === "boolean" ? { success: result.success } : {}),
+      truncated: true,
+      note: `This result (about ${estimatedTokens.toLocaleString()} tokens) was too large to include in full; only the beginning is shown.`,
+      schema: describeSchema(result),
+      preview: truncateForModel(result, tokenLimit * 4),
+    };
+  }
+}
+
+async function readChunk(chatId: string, artifactId: string, index: number): Promise<any> {
+  const chunk = await redis.lindex(redisKeys.toolArtifactChunks(chatId, artifactId), index);
+  return typeof chunk === "string" ? JSON.parse(chunk) : chunk;
+}
+
+function pickFields(item: unknown, fields?: string[]): unknown {
+  if (!fields || fields.length === 0 || !item || typeof item !== "object" || Array.isArray(item)) return item;
+  return Object.fromEntries(fields.map((field) => [field, (item as Record<string, unknown>)[field] ?? null]));
+}
+
+// One page of an artifact, sized to stay under the result token limit; null when the artifact does not exist
+export async function readArtifactPage(chatId: string, artifactId: string, options: ArtifactPageOptions = {}): Promise<any> {
+  const artifact = await redis.get<ToolArtifact>(redisKeys.toolArtifact(chatId, artifactId));
+  if (!artifact) return null;
+
+  const tokenLimit = getResultTokenLimit();
+  const offset = Math.min(Math.max(Math.floor(Number(options.offset) || 0), 0), artifact.total);
+
+  let chunkIndex = 0;
+  let chunkStart = 0;
+  while (chunkIndex < artifact.chunkSizes.length && chunkStart + artifact.chunkSizes[chunkIndex] <= offset) {
+    chunkStart += artifact.chunkSizes[chunkIndex];
+    chunkIndex++;
+  }
+
+  let returned = 0;
+  let page: Record<string, unknown>;
+  if (artifact.kind === "text") {
+    const maxChars = Math.min(Math.max(Math.floor(Number(options.limit) || tokenLimit * 4), 1), tokenLimit * 4);
+    let text = "";
+    while (chunkIndex < artifact.chunkSizes.length && chunkStart + text.length < offset + maxChars) {
+      text += (await readChunk(chatId, artifactId, chunkIndex++))?.text || "";
+    }
+    const slice = text.slice(offset - chunkStart, offset - chunkStart + maxChars);
+    returned = slice.length;
+    page = { text: slice };
+  } else {
+    const maxItems = Math.min(Math.max(Math.floor(Number(options.limit) || DEFAULT_PAGE_ITEMS), 1), MAX_PAGE_ITEMS);
+    const items: unknown[] = [];
+    let tokens = 0;
+    let position = chunkStart;
+    reading: while (chunkIndex < artifact.chunkSizes.length) {
+      const chunk = await readChunk(chatId, artifactId, chunkIndex++);
+      for (const item of chunk?.items || []) {
+        if (position++ < offset) continue;
+        const picked = pickFields(item, options.fields);
+        const itemTokens = estimateTokens(picked);
+        if (items.length > 0 && tokens + itemTokens > tokenLimit) break reading;
+        items.push(itemTokens > tokenLimit ? truncateForModel(picked, tokenLimit * 4) : picked);
+        tokens += itemTokens;
+        if (items.length >= maxItems) break reading;
+      }
+    }
+    returned = items.length;
+    page = { items };
+  }
+
+  const nextOffset = offset + returned < artifact.total ? offset + returned : null;
+  return {
+    success: true,
+    artifact_id: artifact.id,
+    tool: artifact.toolName,
+    args: artifact.args,
+    kind: artifact.kind,
+    path: artifact.path,
+    offset,
+    returned,
+    total: artifact.total,
+    nextOffset,
+    ...page,
+    ...(artifact.truncated && nextOffset === null
+      ? { note: "The original result was larger than an artifact holds; content past this point was not stored." }
+      : {}),
+  };
+}
@@ -0,0 +1,227 @@
+//ai/tool-router.ts
+import { FunctionDeclaration } from "@google/genai";
+
+import { Tool } from "./types";
+
+export const DISCOVER_TOOLS_NAME = "discover_tools";
+
+export interface ToolRouterOptions {
+  maxTools?: number; // Routed tools exposed per turn, on top of the core set
+  coreTools?: string[]; // Always exposed when registered
+  historyTurns?: number; // Recent user turns used as the routing query
+}
+
+export interface ToolSelection {
+  enabled: boolean; // False when routing is switched off and every tool is sent
+  tools: string[];
+  core: string[];
+  routed: Array<{ name: string; score: number }>;
+  discovered: string[];
+  omitted: number;
+}
+
+export interface ToolMatch {
+  name: string;
+  description: string;
+  score: number;
+}
+
+const DEFAULT_MAX_TOOLS = 12;
+const DEFAULT_HISTORY_TURNS = 3;
+const DEFAULT_CORE_TOOLS = [
+  DISCOVER_TOOLS_NAME,
+  "delegate_task",
+  "deep_research",
+  "retrieve_tool_result",
+  "read_artifact",
+  "remember",
+  "recall",
+  "forget",
+  "query_dataset",
+  "datetime_tool",
+  "duckduckgo_search",
+  "serper_search",
+  "tavily_web_search",
+  "get_weather",
+  "data_visualization",
+];
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "you", "your", "are", "can", "will", "what", "when",
+  "how", "please", "about", "into", "all", "any", "use", "using", "get", "make", "have", "has", "was", "were",
+  "not", "but", "its", "our", "they", "them", "then", "than", "there", "their", "some", "want", "need", "like",
+  "also", "just", "more", "other", "such", "these", "those", "which", "who", "why", "would", "could", "should",
+  "tool", "tools", "operations", "operation", "action", "actions", "including", "via",
+]);
+
+// Field weights: a hit on the tool's own name says more than a hit buried in an enum
+const FIELD_WEIGHTS = { name: 3, description: 1.5, parameters: 0.5 };
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+    .map((token) => (token.length > 4 && token.endsWith("s") ? token.slice(0, -1) : token));
+}
+
+function collectParameterText(schema: any, out: string[], depth = 0): void {
+  if (!schema || typeof schema !== "object" || depth > 3) return;
+  if (typeof schema.description === "string") out.push(schema.description);
+  if (Array.isArray(schema.enum)) out.push(schema.enum.join(" "));
+  if (schema.properties) {
+    for (const [key, value] of Object.entries(schema.properties)) {
+      out.push(key);
+      collectParameterText(value, out, depth + 1);
+    }
+  }
+  if (schema.items) collectParameterText(schema.items, out, depth + 1);
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Text parts of the last few user turns; function responses are skipped
+function extractRoutingQuery(conversationHistory: any[], historyTurns: number): string {
+  const texts: string[] = [];
+  for (let i = conversationHistory.length - 1; i >= 0 && texts.length < historyTurns; i--) {
+    const content = conversationHistory[i];
+    if (content?.role !== "user") continue;
+    const text = (content.parts || [])
+      .map((part: any) => (typeof part?.text === "string" ? part.text : ""))
+      .join(" ")
+      .trim();
+    if (text) texts.push(text);
+  }
+  return texts.join(" ");
+}
+
+type IndexedTool = {
+  name: string;
+  description: string;
+  fields: Record<keyof typeof FIELD_WEIGHTS, Set<string>>;
+};
+
+// Picks the tools relevant to the current turn by keyword matching over their declarations
+export class ToolRouter {
+  private tools: Map<string, Tool>;
+  private options: Required<ToolRouterOptions>;
+  private index: IndexedTool[] = [];
+  private idf: Map<string, number> = new Map();
+  private indexedSize = -1;
+
+  constructor(tools: Map<string, Tool>, options: ToolRouterOptions = {}) {
+    this.tools = tools;
+    this.options = {
+      maxTools: options.maxTools ?? readNumberEnv("TOOL_ROUTER_MAX_TOOLS", DEFAULT_MAX_TOOLS),
+      coreTools: options.coreTools ?? DEFAULT_CORE_TOOLS,
+      historyTurns: options.historyTurns ?? DEFAULT_HISTORY_TURNS,
+    };
+  }
+
+  public static isEnabled(): boolean {
+    return process.env.TOOL_ROUTING !== "off";
+  }
+
+  public select(conversationHistory: any[], discovered: Iterable<string> = []): ToolSelection {
+    const allNames = Array.from(this.tools.keys());
+    if (!ToolRouter.isEnabled()) {
+      return { enabled: false, tools: allNames, core: [], routed: [], discovered: [], omitted: 0 };
+    }
+
+    const core = this.options.coreTools.filter((name) => this.tools.has(name));
+    const discoveredNames = Array.from(new Set(discovered)).filter((name) => this.tools.has(name) && !core.includes(name));
+    const taken = new Set([...core, ...discoveredNames]);
+
+    const query = extractRoutingQuery(conversationHistory, this.options.historyTurns);
+    const routed = this.rank(query)
+      .filter((match) => match.score > 0 && !taken.has(match.name))
+      .slice(0, this.options.maxTools)
+      .map(({ name, score }) => ({ name, score: Math.round(score * 100) / 100 }));
+
+    const tools = [...core, ...discoveredNames, ...routed.map((match) => match.name)];
+    return {
+      enabled: true,
+      tools,
+      core,
+      routed,
+      discovered: discoveredNames,
+      omitted: allNames.length - tools.length,
+    };
+  }
+
+  // Used by discover_tools: free-text search over every registered tool
+  public search(query: string, limit = 5): ToolMatch[] {
+    return this.rank(query)
+      .filter((match) => match.score > 0 && match.name !== DISCOVER_TOOLS_NAME)
+      .slice(0, limit);
+  }
+
+  public getCatalog(): Array<{ name: string; description: string }> {
+    this.buildIndex();
+    return this.index
+      .filter((tool) => tool.name !== DISCOVER_TOOLS_NAME)
+      .map(({ name, description }) => ({ name, description }));
+  }
+
+  private rank(query: string): ToolMatch[] {
+    this.buildIndex();
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    return this.index
+      .map((tool) => {
+        let score = 0;
+        for (const token of queryTokens) {
+          const idf = this.idf.get(token);
+          if (!idf) continue;
+          for (const field of Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>) {
+            if (tool.fields[field].has(token)) score += FIELD_WEIGHTS[field] * idf;
+          }
+        }
+        return { name: tool.name, description: tool.description, score };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Tools are registered asynchronously, so the index is rebuilt whenever the registry grows or shrinks
+  private buildIndex(): void {
+    if (this.indexedSize === this.tools.size) return;
+
+    this.index = [];
+    for (const [name, tool] of this.tools) {
+      let definition: FunctionDeclaration;
+      try {
+        definition = tool.getDefinition();
+      } catch {
+        continue;
+      }
+      const parameterText: string[] = [];
+      collectParameterText(definition.parameters, parameterText);
+      this.index.push({
+        name,
+        description: (definition.description || "").split("\n")[0].slice(0, 200),
+        fields: {
+          name: new Set(tokenize(`${name} ${definition.name || ""}`)),
+          description: new Set(tokenize(definition.description || "")),
+          parameters: new Set(tokenize(parameterText.join(" "))),
+        },
+      });
+    }
+
+    const documentFrequency = new Map<string, number>();
+    for (const tool of this.index) {
+      const tokens = new Set([...tool.fields.name, ...tool.fields.description, ...tool.fields.parameters]);
+      for (const token of tokens) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+    this.idf = new Map();
+    for (const [token, count] of documentFrequency) {
+      this.idf.set(token, Math.log(1 + this.index.length / count));
+    }
+    this.indexedSize = this.tools.size;
+  }
+}
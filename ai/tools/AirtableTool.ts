@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import axios, { AxiosInstance } from 'axios';
 
+import { getToolSignal, withToolSignal } from "../tool-cancellation";
+
 interface Tool {
   getDefinition(): FunctionDeclaration;
   execute(args: any): Promise<any>;
@@ -11,13 +13,13 @@ export class AirtableTool implements Tool {
   private baseUrl = 'https://api.airtable.com/v0';
 
   constructor(apiKey: string) {
-    this.apiClient = axios.create({
+    this.apiClient = withToolSignal(axios.create({
       baseURL: this.baseUrl,
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json'
       }
-    });
+    }));
   }
 
   getDefinition(): FunctionDeclaration {
@@ -551,7 +553,7 @@ export class AirtableTool implements Tool {
       throw new Error('url is required for getting an attachment');
     }
 
-    const response = await axios.get(url);
+    const response = await axios.get(url, { signal: getToolSignal() });
     return response.data;
   }
 
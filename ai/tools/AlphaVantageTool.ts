@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import axios, { AxiosInstance } from 'axios';
 
+import { withToolSignal } from "../tool-cancellation";
+
 interface Tool {
   getDefinition(): FunctionDeclaration;
   execute(args: any): Promise<any>;
@@ -13,13 +15,13 @@ export class AlphaVantageTool implements Tool {
 
   constructor(apiKey: string) {
     this.apiKey = apiKey;
-    this.apiClient = axios.create({
+    this.apiClient = withToolSignal(axios.create({
       baseURL: this.baseUrl,
       timeout: 30000,
       headers: {
         'User-Agent': 'AlphaVantage-Financial-Tool/1.0'
       }
-    });
+    }));
   }
 
   getDefinition(): FunctionDeclaration {
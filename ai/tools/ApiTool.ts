@@ -3,6 +3,8 @@ import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
 import FormData from "form-data";
 import { URLSearchParams } from "url";
 
+import { getToolSignal } from "../tool-cancellation";
+
 export interface APIToolConfig {
   timeout?: number;
   maxRetries?: number;
@@ -386,7 +388,7 @@ export class ApiTool {
           await this.sleep(delay);
         }
 
-        const response = await axios(config);
+        const response = await axios({ ...config, signal: config.signal || getToolSignal() });
         
         // Check if retry is needed based on status code
         if (this.shouldRetry(response, config)) {
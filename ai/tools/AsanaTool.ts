@@ -2,6 +2,8 @@ import { FunctionDeclaration, Type } from "@google/genai";
 
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class AsanaTool {
   private baseUrl = "https://app.asana.com/api/1.0";
   private accessToken: string;
@@ -424,7 +426,7 @@ export class AsanaTool {
       options.body = JSON.stringify({ data });
     }
 
-    const response = await fetch(url, options);
+    const response = await toolFetch(url, options);
     
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import axios, { AxiosInstance } from 'axios';
 
+import { withToolSignal } from "../tool-cancellation";
+
 interface Tool {
   getDefinition(): FunctionDeclaration;
   execute(args: any): Promise<any>;
@@ -11,13 +13,13 @@ export class AyrshareSocialTool implements Tool {
   private baseUrl = 'https://app.ayrshare.com/api';
 
   constructor(apiKey: string) {
-    this.apiClient = axios.create({
+    this.apiClient = withToolSignal(axios.create({
       baseURL: this.baseUrl,
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json'
       }
-    });
+    }));
   }
 
   getDefinition(): FunctionDeclaration {
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class CalComTool {
   private apiKey: string;
   private baseUrl: string;
@@ -21,7 +23,7 @@ export class CalComTool {
 
   private async makeRequest(endpoint: string, method: string = "GET", body?: any): Promise<any> {
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      const response = await toolFetch(`${this.baseUrl}${endpoint}`, {
         method,
         headers: this.getHeaders(),
         body: body ? JSON.stringify(body) : undefined
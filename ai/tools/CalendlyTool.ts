@@ -2,6 +2,8 @@ import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 import axios, { AxiosInstance } from 'axios';
 
+import { withToolSignal } from "../tool-cancellation";
+
 export interface CalendlyConfig {
   apiKey?: string;
   baseUrl?: string;
@@ -175,13 +177,13 @@ export class CalendlyTool {
     this.apiKey = config.apiKey || null;
     this.oauthToken = oauthToken;
     this.userId = userId;
-    this.client = axios.create({
+    this.client = withToolSignal(axios.create({
       baseURL: config.baseUrl || 'https://api.calendly.com',
       timeout: config.timeout || 30000,
       headers: {
         'Content-Type': 'application/json'
       }
-    });
+    }));
   }
 
   getDefinition(): FunctionDeclaration {
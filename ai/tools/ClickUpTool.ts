@@ -2,6 +2,8 @@ import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 import axios, { AxiosInstance } from 'axios';
 
+import { withToolSignal } from "../tool-cancellation";
+
 export interface ClickUpConfig {
   apiKey: string;
   baseUrl?: string;
@@ -50,13 +52,13 @@ export class ClickUpTool {
     this.apiKey = config.apiKey;
     this.oauthToken = oauthToken;
     this.userId = userId;
-    this.client = axios.create({
+    this.client = withToolSignal(axios.create({
       baseURL: config.baseUrl || 'https://api.clickup.com/api/v2',
       timeout: config.timeout || 30000,
       headers: {
         'Content-Type': 'application/json'
       }
-    });
+    }));
   }
 
   getDefinition(): FunctionDeclaration {
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class Context7Tool {
   private baseUrl: string = "https://mcp.context7.com";
 
@@ -178,7 +180,7 @@ export class Context7Tool {
       }
     };
 
-    const response = await fetch(`${this.baseUrl}/mcp`, {
+    const response = await toolFetch(`${this.baseUrl}/mcp`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
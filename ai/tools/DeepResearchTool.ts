@@ -0,0 +1,51 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import { DEEP_RESEARCH_NAME, ResearchDepth } from "../research-engine";
+
+// Runs a multi-source research job and returns a structured, cited report
+export class DeepResearchTool {
+  private research: (question: string, options: { focus?: string; depth?: ResearchDepth }) => Promise<any>;
+
+  constructor(research: (question: string, options: { focus?: string; depth?: ResearchDepth }) => Promise<any>) {
+    this.research = research;
+  }
+
+  getDefinition(): FunctionDeclaration {
+    return {
+      name: DEEP_RESEARCH_NAME,
+      description:
+        "Research a question in depth across all available search engines: it breaks the question into sub-questions, searches each with several engines, reads the best pages, scores the sources, follows up on gaps, and writes a report with sections, confidence levels and numbered sources. Use it when the user asks for a report, an in-depth analysis, a comparison backed by sources, or research on a topic; use a plain search tool for quick lookups. It takes one to four minutes. The user sees the full report in a card they can export, so reply with a short overview of the key findings rather than repeating the report.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          question: {
+            type: Type.STRING,
+            description: "The research question, with the context that matters (subject, time range, region)",
+          },
+          focus: {
+            type: Type.STRING,
+            description: "Optional: what the report should concentrate on, e.g. 'pricing and market share' or 'for a non-technical audience'",
+          },
+          depth: {
+            type: Type.STRING,
+            enum: ["quick", "standard", "thorough"],
+            description: "How far to research: 'quick' (one search round), 'standard' (default, one follow-up round), 'thorough' (two follow-up rounds)",
+          },
+        },
+        required: ["question"],
+      },
+    };
+  }
+
+  async execute(args: any): Promise<any> {
+    const question = typeof args?.question === "string" ? args.question.trim() : "";
+    if (!question) {
+      return { success: false, error: "question is required." };
+    }
+
+    return await this.research(question, {
+      focus: typeof args.focus === "string" ? args.focus.trim() || undefined : undefined,
+      depth: ["quick", "standard", "thorough"].includes(args.depth) ? args.depth : undefined,
+    });
+  }
+}
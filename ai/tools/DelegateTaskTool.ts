@@ -0,0 +1,58 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import { DELEGATE_TASK_NAME, SUB_AGENT_LIMITS, SubAgentRequest } from "../sub-agent";
+
+// Hands a self-contained part of the user's request to a nested agent with its own tools and budget
+export class DelegateTaskTool {
+  private delegate: (request: SubAgentRequest) => Promise<any>;
+
+  constructor(delegate: (request: SubAgentRequest) => Promise<any>) {
+    this.delegate = delegate;
+  }
+
+  getDefinition(): FunctionDeclaration {
+    return {
+      name: DELEGATE_TASK_NAME,
+      description:
+        "Delegate a self-contained sub-task to a focused sub-agent that works on it with its own tools and returns a complete result. Use it to fan out multi-part requests, e.g. researching several companies or drafting one document per item: call it once per part, in the same step so the parts run in parallel. The sub-agent cannot ask the user anything or perform actions that need the user's approval, so give it everything it needs in the task.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          task: {
+            type: Type.STRING,
+            description: "What the sub-agent must do and what its result should contain, with all the details it needs",
+          },
+          tools: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description:
+              "Exact names of the tools the sub-agent may use, e.g. ['tavily_web_search', 'notion_tool']. If omitted, tools are picked from the task.",
+          },
+          instructions: {
+            type: Type.STRING,
+            description: "Optional guidance on how to work or format the result",
+          },
+          max_tool_calls: {
+            type: Type.NUMBER,
+            description: `Maximum tool calls the sub-agent may make (default and max: ${SUB_AGENT_LIMITS.maxToolCalls})`,
+          },
+        },
+        required: ["task"],
+      },
+    };
+  }
+
+  async execute(args: any): Promise<any> {
+    const task = typeof args?.task === "string" ? args.task.trim() : "";
+    if (!task) {
+      return { success: false, error: "task is required." };
+    }
+
+    return await this.delegate({
+      task,
+      instructions: typeof args.instructions === "string" ? args.instructions.trim() || undefined : undefined,
+      toolNames: Array.isArray(args.tools) ? args.tools.filter((name: unknown) => typeof name === "string") : [],
+      maxToolCalls: Number(args.max_tool_calls) || undefined,
+    });
+  }
+}
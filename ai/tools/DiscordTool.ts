@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export interface DiscordConfig {
   token: string;
 }
@@ -722,7 +724,7 @@ export class DiscordTool {
           headers['X-Audit-Log-Reason'] = encodeURIComponent(args.reason);
         }
 
-        const response = await fetch(url, fetchOptions);
+        const response = await toolFetch(url, fetchOptions);
 
         clearTimeout(timeoutId);
 
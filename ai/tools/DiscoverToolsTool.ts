@@ -0,0 +1,80 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import { DISCOVER_TOOLS_NAME, ToolRouter } from "../tool-router";
+
+// Lets the model load abilities that were not exposed for the current turn
+export class DiscoverToolsTool {
+  private router: ToolRouter;
+  private onDiscover: (toolNames: string[]) => void;
+
+  constructor(router: ToolRouter, onDiscover: (toolNames: string[]) => void) {
+    this.router = router;
+    this.onDiscover = onDiscover;
+  }
+
+  getDefinition(): FunctionDeclaration {
+    return {
+      name: DISCOVER_TOOLS_NAME,
+      description:
+        "Find and enable additional abilities that are not currently available, e.g. integrations like Slack, Notion, GitHub, Stripe, Google Drive or Trello. Describe what you need in plain words, or pass exact tool names. Enabled tools can be called on your next step.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: {
+            type: Type.STRING,
+            description: "What you are trying to do, e.g. 'create a Trello card' or 'list Stripe invoices'",
+          },
+          toolNames: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Exact tool names to enable, if already known",
+          },
+          limit: {
+            type: Type.NUMBER,
+            description: "Maximum number of tools to enable from the query (default: 3)",
+          },
+        },
+      },
+    };
+  }
+
+  async execute(args: any): Promise<any> {
+    const query = typeof args?.query === "string" ? args.query.trim() : "";
+    const requested: string[] = Array.isArray(args?.toolNames) ? args.toolNames : [];
+    const limit = Math.min(Math.max(Number(args?.limit) || 3, 1), 8);
+
+    if (!query && requested.length === 0) {
+      return {
+        success: true,
+        message: "Provide a query or tool names to enable. Available tools are listed below.",
+        available: this.router.getCatalog(),
+      };
+    }
+
+    const catalog = this.router.getCatalog();
+    const known = new Set(catalog.map((tool) => tool.name));
+    const byName = catalog.filter((tool) => requested.includes(tool.name));
+    const unknown = requested.filter((name) => !known.has(name));
+    const matches = query ? this.router.search(query, limit) : [];
+
+    const enabled = Array.from(new Set([...byName.map((tool) => tool.name), ...matches.map((match) => match.name)]));
+    if (enabled.length === 0) {
+      return {
+        success: false,
+        error: `No tools matched "${query || requested.join(", ")}".`,
+        available: catalog,
+      };
+    }
+
+    this.onDiscover(enabled);
+    return {
+      success: true,
+      enabled: enabled.map((name) => ({
+        name,
+        description: catalog.find((tool) => tool.name === name)?.description || "",
+      })),
+      unknown: unknown.length > 0 ? unknown : undefined,
+      message: "These tools are now available. Call them directly on your next step.",
+    };
+  }
+}
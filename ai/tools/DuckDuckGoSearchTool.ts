@@ -1,5 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolCachePolicy } from "../types";
+
 export class DuckDuckGoSearchTool {
   private baseUrl: string = "https://api.duckduckgo.com";
   private userAgent: string = "Mozilla/5.0 (compatible; SearchBot/1.0)";
@@ -53,6 +56,10 @@ export class DuckDuckGoSearchTool {
     };
   }
 
+  getCachePolicy(): ToolCachePolicy {
+    return { ttlSeconds: 30 * 60, scope: "global" };
+  }
+
   async execute(args: any): Promise<any> {
     try {
       console.log(`🦆 DuckDuckGo searching: "${args.query}"`);
@@ -97,7 +104,7 @@ export class DuckDuckGoSearchTool {
         params.append('safe_search', args.safeSearch);
       }
 
-      const response = await fetch(`${this.baseUrl}/?${params.toString()}`, {
+      const response = await toolFetch(`${this.baseUrl}/?${params.toString()}`, {
         headers: {
           'User-Agent': this.userAgent
         }
@@ -148,7 +155,7 @@ export class DuckDuckGoSearchTool {
       // DuckDuckGo HTML search URL
       const searchUrl = `https://html.duckduckgo.com/html/?q=${query}&kl=${region}&s=${safeSearch === 'strict' ? 'strict' : safeSearch === 'off' ? 'off' : 'moderate'}`;
 
-      const response = await fetch(searchUrl, {
+      const response = await toolFetch(searchUrl, {
         headers: {
           'User-Agent': this.userAgent,
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 interface DuffelConfig {
   apiKey: string;
   baseUrl?: string;
@@ -416,7 +418,7 @@ export class DuffelFlightTool implements Tool {
         searchPayload.data.excluded_airlines = params.excludeAirlines.map((code: string) => code.toUpperCase());
       }
 
-      const response = await fetch(`${this.baseUrl}/air/offer_requests`, {
+      const response = await toolFetch(`${this.baseUrl}/air/offer_requests`, {
         method: 'POST',
         headers: this.headers,
         body: JSON.stringify(searchPayload)
@@ -434,7 +436,7 @@ export class DuffelFlightTool implements Tool {
       const requestId = data.data?.id;
       
       // Get offers from the request
-      const offersResponse = await fetch(`${this.baseUrl}/air/offers?offer_request_id=${requestId}`, {
+      const offersResponse = await toolFetch(`${this.baseUrl}/air/offers?offer_request_id=${requestId}`, {
         method: 'GET',
         headers: this.headers
       });
@@ -581,7 +583,7 @@ export class DuffelFlightTool implements Tool {
         }));
       }
 
-      const response = await fetch(`${this.baseUrl}/air/orders`, {
+      const response = await toolFetch(`${this.baseUrl}/air/orders`, {
         method: 'POST',
         headers: this.headers,
         body: JSON.stringify(bookingPayload)
@@ -674,7 +676,7 @@ export class DuffelFlightTool implements Tool {
         }
       };
 
-      const response = await fetch(`${this.baseUrl}/payments/payment_intents`, {
+      const response = await toolFetch(`${this.baseUrl}/payments/payment_intents`, {
         method: 'POST',
         headers: this.headers,
         body: JSON.stringify(paymentPayload)
@@ -729,7 +731,7 @@ export class DuffelFlightTool implements Tool {
 
       console.log(`🔍 Checking order status: ${params.orderNumber}`);
 
-      const response = await fetch(`${this.baseUrl}/air/orders/${params.orderNumber}`, {
+      const response = await toolFetch(`${this.baseUrl}/air/orders/${params.orderNumber}`, {
         method: 'GET',
         headers: this.headers
       });
@@ -797,7 +799,7 @@ export class DuffelFlightTool implements Tool {
         }
       };
 
-      const response = await fetch(`${this.baseUrl}/air/orders/${params.orderNumber}/actions/cancel`, {
+      const response = await toolFetch(`${this.baseUrl}/air/orders/${params.orderNumber}/actions/cancel`, {
         method: 'POST',
         headers: this.headers,
         body: JSON.stringify(cancelPayload)
@@ -853,7 +855,7 @@ export class DuffelFlightTool implements Tool {
       console.log(`🪑 Getting seat map for offer: ${params.offerId}`);
 
       // Correct endpoint for getting seat maps from offers
-      const response = await fetch(`${this.baseUrl}/air/seat_maps?offer_id=${params.offerId}`, {
+      const response = await toolFetch(`${this.baseUrl}/air/seat_maps?offer_id=${params.offerId}`, {
         method: 'GET',
         headers: this.headers
       });
@@ -894,7 +896,7 @@ export class DuffelFlightTool implements Tool {
       console.log(`🧳 Adding baggage to order: ${params.orderNumber}`);
 
       // First get available services for the order
-      const servicesResponse = await fetch(`${this.baseUrl}/air/orders/${params.orderNumber}/available_services`, {
+      const servicesResponse = await toolFetch(`${this.baseUrl}/air/orders/${params.orderNumber}/available_services`, {
         method: 'GET',
         headers: this.headers
       });
@@ -931,7 +933,7 @@ export class DuffelFlightTool implements Tool {
         }
       };
 
-      const response = await fetch(`${this.baseUrl}/air/orders/${params.orderNumber}/services`, {
+      const response = await toolFetch(`${this.baseUrl}/air/orders/${params.orderNumber}/services`, {
         method: 'POST',
         headers: this.headers,
         body: JSON.stringify(servicePayload)
@@ -973,7 +975,7 @@ export class DuffelFlightTool implements Tool {
 
       console.log(`🏢 Getting airport info for: ${params.airportCode}`);
 
-      const response = await fetch(`${this.baseUrl}/air/airports?iata_code=${params.airportCode.toUpperCase()}`, {
+      const response = await toolFetch(`${this.baseUrl}/air/airports?iata_code=${params.airportCode.toUpperCase()}`, {
         method: 'GET',
         headers: this.headers
       });
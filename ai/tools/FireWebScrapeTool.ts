@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class FireWebScrapeTool {
   private apiKey: string;
   private baseUrl: string = "https://api.firecrawl.dev";
@@ -105,7 +107,7 @@ export class FireWebScrapeTool {
     if (args.parsePDF !== undefined) scrapeOptions.parsePDF = args.parsePDF;
     if (args.maxAge !== undefined) scrapeOptions.maxAge = args.maxAge;
 
-    const response = await fetch(`${this.baseUrl}/v1/scrape`, {
+    const response = await toolFetch(`${this.baseUrl}/v1/scrape`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -149,7 +151,7 @@ export class FireWebScrapeTool {
     if (args.parsePDF !== undefined) crawlOptions.scrapeOptions.parsePDF = args.parsePDF;
     if (args.maxAge !== undefined) crawlOptions.scrapeOptions.maxAge = args.maxAge;
 
-    const response = await fetch(`${this.baseUrl}/v1/crawl`, {
+    const response = await toolFetch(`${this.baseUrl}/v1/crawl`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -198,7 +200,7 @@ export class FireWebScrapeTool {
     if (args.parsePDF !== undefined) extractOptions.parsePDF = args.parsePDF;
     if (args.maxAge !== undefined) extractOptions.maxAge = args.maxAge;
 
-    const response = await fetch(`${this.baseUrl}/v1/scrape`, {
+    const response = await toolFetch(`${this.baseUrl}/v1/scrape`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -242,7 +244,7 @@ export class FireWebScrapeTool {
     if (args.parsePDF !== undefined) searchOptions.scrapeOptions.parsePDF = args.parsePDF;
     if (args.maxAge !== undefined) searchOptions.scrapeOptions.maxAge = args.maxAge;
 
-    const response = await fetch(`${this.baseUrl}/v1/search`, {
+    const response = await toolFetch(`${this.baseUrl}/v1/search`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -275,7 +277,7 @@ export class FireWebScrapeTool {
       throw new Error("jobId is required for check_crawl_status action");
     }
 
-    const response = await fetch(`${this.baseUrl}/v1/crawl/${args.jobId}`, {
+    const response = await toolFetch(`${this.baseUrl}/v1/crawl/${args.jobId}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
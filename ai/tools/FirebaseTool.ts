@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 // Firebase SDK imports (version 12.2.1+)
 interface FirebaseConfig {
   apiKey: string;
@@ -271,7 +273,7 @@ export class FirebaseTool {
       };
 
       // Get project info
-      const projectResponse = await fetch(
+      const projectResponse = await toolFetch(
         `https://firebase.googleapis.com/v1beta1/projects/${projectName}`,
         { headers }
       );
@@ -283,7 +285,7 @@ export class FirebaseTool {
       const projectData = await projectResponse.json();
 
       // Get web app info
-      const appsResponse = await fetch(
+      const appsResponse = await toolFetch(
         `https://firebase.googleapis.com/v1beta1/projects/${projectName}/webApps`,
         { headers }
       );
@@ -300,7 +302,7 @@ export class FirebaseTool {
 
       // Get config for the first web app
       const webApp = appsData.apps[0];
-      const configResponse = await fetch(
+      const configResponse = await toolFetch(
         `https://firebase.googleapis.com/v1beta1/${webApp.name}/config`,
         { headers }
       );
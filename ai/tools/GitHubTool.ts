@@ -1,7 +1,11 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { Octokit } from "@octokit/rest";
+
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolRiskLevel } from "../types";
+
 export interface GitHubConfig {
   token: string;
 }
@@ -18,6 +22,7 @@ export class GitHubTool {
     this.oauthToken = oauthToken;
     this.octokit = new Octokit({
       auth: this.token,
+      request: { fetch: toolFetch },
     });
   }
 
@@ -305,6 +310,17 @@ export class GitHubTool {
     };
   }
 
+  getRiskLevel(args: any): ToolRiskLevel {
+    const action: string = args?.action || "";
+    if (["merge_pull_request", "delete_file", "delete_webhook", "delete_gist", "update_repository"].includes(action)) {
+      return "high";
+    }
+    if (/^(create|update|close|add|star|unstar|fork)_/.test(action)) {
+      return "medium";
+    }
+    return "low";
+  }
+
   async execute(args: any): Promise<any> {
     let accessToken: string | null = this.oauthToken;
     if (!accessToken) {
@@ -312,7 +328,8 @@ export class GitHubTool {
     }
 
     const token = accessToken || this.token;
-    this.octokit = new Octokit({ auth: token });
+    // Requests go through toolFetch, so stopping the turn aborts them and their retries
+    this.octokit = new Octokit({ auth: token, request: { fetch: toolFetch } });
 
     switch (args.action) {
       case "get_authenticated_user":
@@ -1,6 +1,8 @@
 //ai/tools/GmailTool.ts
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
+import { toolFetch } from "../tool-cancellation";
+import { ToolRiskLevel } from "../types";
 
 export class GmailTool {
   private userId: string;
@@ -79,6 +81,18 @@ export class GmailTool {
     };
   }
 
+  // Sending mail leaves the user's account, so it needs explicit approval
+  getRiskLevel(args: any): ToolRiskLevel {
+    switch (args?.action) {
+      case "send_email":
+        return "high";
+      case "create_label":
+        return "medium";
+      default:
+        return "low";
+    }
+  }
+
   async execute(args: any): Promise<any> {
     try {
       const accessToken = await getValidOAuthAccessToken(this.userId, "gmail");
@@ -144,7 +158,7 @@ export class GmailTool {
       isHtml: args.isHtml || false
     });
 
-    const response = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/messages/send', {
+    const response = await toolFetch('https://gmail.googleapis.com/gmail/v1/users/me/messages/send', {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -174,7 +188,7 @@ export class GmailTool {
     }
     if (args.query) params.append('q', args.query);
 
-    const response = await fetch(`https://gmail.googleapis.com/gmail/v1/users/me/messages?${params}`, {
+    const response = await toolFetch(`https://gmail.googleapis.com/gmail/v1/users/me/messages?${params}`, {
       headers
     });
 
@@ -197,7 +211,7 @@ export class GmailTool {
       return { success: false, error: "Message ID is required" };
     }
 
-    const response = await fetch(`https://gmail.googleapis.com/gmail/v1/users/me/messages/${args.messageId}`, {
+    const response = await toolFetch(`https://gmail.googleapis.com/gmail/v1/users/me/messages/${args.messageId}`, {
       headers
     });
 
@@ -230,7 +244,7 @@ export class GmailTool {
       return { success: false, error: "Label name is required" };
     }
 
-    const response = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/labels', {
+    const response = await toolFetch('https://gmail.googleapis.com/gmail/v1/users/me/labels', {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -253,7 +267,7 @@ export class GmailTool {
   }
 
   private async listLabels(headers: any): Promise<any> {
-    const response = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/labels', {
+    const response = await toolFetch('https://gmail.googleapis.com/gmail/v1/users/me/labels', {
       headers
     });
 
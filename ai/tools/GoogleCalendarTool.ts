@@ -2,6 +2,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class GoogleCalendarTool {
   private userId: string;
 
@@ -267,7 +269,7 @@ export class GoogleCalendarTool {
       ? `https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events?conferenceDataVersion=1`
       : `https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events`;
 
-    const response = await fetch(url, {
+    const response = await toolFetch(url, {
       method: 'POST',
       headers,
       body: JSON.stringify(event)
@@ -293,7 +295,7 @@ export class GoogleCalendarTool {
     if (args.orderBy) params.append('orderBy', args.orderBy);
     params.append('singleEvents', 'true'); // Expand recurring events
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events?${params}`, {
       headers
     });
 
@@ -316,7 +318,7 @@ export class GoogleCalendarTool {
       return { success: false, error: "Event ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}`, {
       headers
     });
 
@@ -343,7 +345,7 @@ export class GoogleCalendarTool {
       ? `https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}?conferenceDataVersion=1`
       : `https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}`;
 
-    const response = await fetch(url, {
+    const response = await toolFetch(url, {
       method: 'PUT',
       headers,
       body: JSON.stringify(event)
@@ -366,7 +368,7 @@ export class GoogleCalendarTool {
       return { success: false, error: "Event ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}`, {
       method: 'DELETE',
       headers
     });
@@ -383,7 +385,7 @@ export class GoogleCalendarTool {
   }
 
   private async listCalendars(headers: any): Promise<any> {
-    const response = await fetch('https://www.googleapis.com/calendar/v3/users/me/calendarList', {
+    const response = await toolFetch('https://www.googleapis.com/calendar/v3/users/me/calendarList', {
       headers
     });
 
@@ -420,7 +422,7 @@ export class GoogleCalendarTool {
       timeZone: args.timeZone || 'UTC'
     };
 
-    const response = await fetch('https://www.googleapis.com/calendar/v3/calendars', {
+    const response = await toolFetch('https://www.googleapis.com/calendar/v3/calendars', {
       method: 'POST',
       headers,
       body: JSON.stringify(calendar)
@@ -453,7 +455,7 @@ export class GoogleCalendarTool {
       return { success: false, error: "No fields provided to update the calendar." };
     }
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}`, {
       method: 'PUT',
       headers,
       body: JSON.stringify(body)
@@ -473,7 +475,7 @@ export class GoogleCalendarTool {
       return { success: false, error: "Cannot delete the primary calendar. Use 'clear_calendar' instead." };
     }
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}`, {
       method: 'DELETE',
       headers
     });
@@ -487,7 +489,7 @@ export class GoogleCalendarTool {
   }
 
   private async clearCalendar(args: any, headers: any, calendarId: string): Promise<any> {
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/clear`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/clear`, {
       method: 'POST',
       headers
     });
@@ -513,7 +515,7 @@ export class GoogleCalendarTool {
       }
     };
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/acl`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/acl`, {
       method: 'POST',
       headers,
       body: JSON.stringify(body)
@@ -529,7 +531,7 @@ export class GoogleCalendarTool {
   }
 
   private async listPermissions(args: any, headers: any, calendarId: string): Promise<any> {
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/acl`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/acl`, {
       headers
     });
 
@@ -547,7 +549,7 @@ export class GoogleCalendarTool {
       return { success: false, error: "ruleId is required to remove a permission." };
     }
 
-    const response = await fetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/acl/${args.ruleId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/calendar/v3/calendars/${calendarId}/acl/${args.ruleId}`, {
       method: 'DELETE',
       headers
     });
@@ -571,7 +573,7 @@ export class GoogleCalendarTool {
       items: args.itemsToCheck
     };
 
-    const response = await fetch('https://www.googleapis.com/calendar/v3/freeBusy', {
+    const response = await toolFetch('https://www.googleapis.com/calendar/v3/freeBusy', {
       method: 'POST',
       headers,
       body: JSON.stringify(body)
@@ -593,7 +595,7 @@ export class GoogleCalendarTool {
 
     const url = `https://www.googleapis.com/calendar/v3/calendars/${calendarId}/events/${args.eventId}/move?destination=${args.destinationCalendarId}`;
 
-    const response = await fetch(url, {
+    const response = await toolFetch(url, {
       method: 'POST',
       headers
     });
@@ -2,6 +2,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class GoogleDocTool {
   private userId: string;
 
@@ -604,7 +606,7 @@ export class GoogleDocTool {
     }
 
     // First create the document in Google Drive
-    const createResponse = await fetch('https://docs.googleapis.com/v1/documents', {
+    const createResponse = await toolFetch('https://docs.googleapis.com/v1/documents', {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -656,7 +658,7 @@ export class GoogleDocTool {
       return { success: false, error: "Document ID is required" };
     }
 
-    const response = await fetch(`https://docs.googleapis.com/v1/documents/${args.documentId}`, {
+    const response = await toolFetch(`https://docs.googleapis.com/v1/documents/${args.documentId}`, {
       headers
     });
 
@@ -692,7 +694,7 @@ export class GoogleDocTool {
       return { success: false, error: "Requests array is required for updating document" };
     }
 
-    const response = await fetch(`https://docs.googleapis.com/v1/documents/${args.documentId}:batchUpdate`, {
+    const response = await toolFetch(`https://docs.googleapis.com/v1/documents/${args.documentId}:batchUpdate`, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -720,7 +722,7 @@ export class GoogleDocTool {
     }
 
     // Google Docs uses Google Drive API for deletion
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}`, {
       method: 'DELETE',
       headers
     });
@@ -743,7 +745,7 @@ export class GoogleDocTool {
     if (args.pageSize) params.append('pageSize', String(Math.min(args.pageSize, 100)));
     if (args.orderBy) params.append('orderBy', args.orderBy);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
       headers
     });
 
@@ -783,7 +785,7 @@ export class GoogleDocTool {
     if (args.pageSize) params.append('pageSize', String(Math.min(args.pageSize, 100)));
     if (args.orderBy) params.append('orderBy', args.orderBy);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
       headers
     });
 
@@ -1028,7 +1030,7 @@ export class GoogleDocTool {
   // ============ Document Structure Operations ============
 
   private async getDocumentStructure(args: any, headers: any): Promise<any> {
-    const response = await fetch(`https://docs.googleapis.com/v1/documents/${args.documentId}`, {
+    const response = await toolFetch(`https://docs.googleapis.com/v1/documents/${args.documentId}`, {
       headers
     });
 
@@ -1086,7 +1088,7 @@ export class GoogleDocTool {
       anchor: args.anchorText || 'Document comment'
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}/comments`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}/comments`, {
       method: 'POST',
       headers,
       body: JSON.stringify(commentData)
@@ -1105,7 +1107,7 @@ export class GoogleDocTool {
   }
 
   private async getComments(args: any, headers: any): Promise<any> {
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}/comments`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}/comments`, {
       headers
     });
 
@@ -1128,7 +1130,7 @@ export class GoogleDocTool {
       emailAddress: args.emailAddress
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}/permissions`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.documentId}/permissions`, {
       method: 'POST',
       headers,
       body: JSON.stringify(permission)
@@ -1161,7 +1163,7 @@ export class GoogleDocTool {
       'odt': 'application/vnd.oasis.opendocument.text'
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${documentId}/export?mimeType=${mimeTypes[exportFormat]}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${documentId}/export?mimeType=${mimeTypes[exportFormat]}`, {
       headers
     });
 
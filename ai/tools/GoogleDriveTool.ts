@@ -2,6 +2,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class GoogleDriveTool {
   private userId: string;
 
@@ -375,7 +377,7 @@ export class GoogleDriveTool {
       args.fileContent +
       close_delim;
 
-    const response = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
+    const response = await toolFetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
       method: 'POST',
       headers: {
         'Authorization': headers.Authorization,
@@ -411,7 +413,7 @@ export class GoogleDriveTool {
         mimeType = 'application/pdf';
       }
 
-      const response = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=media', {
+      const response = await toolFetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=media', {
         method: 'POST',
         headers: {
           'Authorization': headers.Authorization,
@@ -430,7 +432,7 @@ export class GoogleDriveTool {
       
       // Update file name
       if (args.fileName !== result.name) {
-        await fetch(`https://www.googleapis.com/drive/v3/files/${result.id}`, {
+        await toolFetch(`https://www.googleapis.com/drive/v3/files/${result.id}`, {
           method: 'PATCH',
           headers: {
             'Authorization': headers.Authorization,
@@ -481,7 +483,7 @@ export class GoogleDriveTool {
       downloadUrl = `https://www.googleapis.com/drive/v3/files/${args.fileId}/export?mimeType=${encodeURIComponent(exportMimeType)}`;
     }
 
-    const response = await fetch(downloadUrl, { headers });
+    const response = await toolFetch(downloadUrl, { headers });
 
     if (!response.ok) {
       const error = await response.text();
@@ -512,7 +514,7 @@ export class GoogleDriveTool {
     if (args.includeItemsFromAllDrives) params.append('includeItemsFromAllDrives', 'true');
     if (args.spaces) params.append('spaces', args.spaces);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
       headers
     });
 
@@ -534,7 +536,7 @@ export class GoogleDriveTool {
       return { success: false, error: "File ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}?fields=*`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}?fields=*`, {
       headers
     });
 
@@ -555,7 +557,7 @@ export class GoogleDriveTool {
       return { success: false, error: "File ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}`, {
       method: 'DELETE',
       headers
     });
@@ -582,7 +584,7 @@ export class GoogleDriveTool {
       parents: args.parentFolderId ? [args.parentFolderId] : undefined
     };
 
-    const response = await fetch('https://www.googleapis.com/drive/v3/files', {
+    const response = await toolFetch('https://www.googleapis.com/drive/v3/files', {
       method: 'POST',
       headers,
       body: JSON.stringify(metadata)
@@ -614,7 +616,7 @@ export class GoogleDriveTool {
     if (args.includeItemsFromAllDrives) params.append('includeItemsFromAllDrives', 'true');
     if (args.spaces) params.append('spaces', args.spaces);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
       headers
     });
 
@@ -646,7 +648,7 @@ export class GoogleDriveTool {
       emailAddress: args.shareWithEmail
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions`, {
       method: 'POST',
       headers,
       body: JSON.stringify(permission)
@@ -675,7 +677,7 @@ export class GoogleDriveTool {
       parents: args.parentFolderId ? [args.parentFolderId] : undefined
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/copy`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/copy`, {
       method: 'POST',
       headers,
       body: JSON.stringify(metadata)
@@ -713,7 +715,7 @@ export class GoogleDriveTool {
     params.append('addParents', args.newParentFolderId);
     if (currentParents) params.append('removeParents', currentParents);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}?${params}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify({}) // Empty body for move operation
@@ -771,7 +773,7 @@ export class GoogleDriveTool {
       return { success: false, error: "File ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/revisions`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/revisions`, {
       headers
     });
 
@@ -806,7 +808,7 @@ export class GoogleDriveTool {
       return { success: false, error: "Revision ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/revisions/${args.revisionId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/revisions/${args.revisionId}`, {
       headers
     });
 
@@ -855,7 +857,7 @@ export class GoogleDriveTool {
       const exportMimeType = 'application/pdf'; // Default to PDF
       const exportUrl = revision.exportLinks[exportMimeType] || Object.values(revision.exportLinks)[0];
       
-      const response = await fetch(exportUrl, { headers });
+      const response = await toolFetch(exportUrl, { headers });
       if (!response.ok) {
         const error = await response.text();
         return { success: false, error: `Failed to download revision: ${error}` };
@@ -876,7 +878,7 @@ export class GoogleDriveTool {
 
     // For regular files, try to download the revision
     const downloadUrl = `https://www.googleapis.com/drive/v3/files/${args.fileId}?alt=media&revision=${args.revisionId}`;
-    const response = await fetch(downloadUrl, { headers });
+    const response = await toolFetch(downloadUrl, { headers });
 
     if (!response.ok) {
       const error = await response.text();
@@ -905,7 +907,7 @@ export class GoogleDriveTool {
     const params = new URLSearchParams();
     params.append('fields', 'permissions(id, role, type, emailAddress, displayName, domain, allowFileDiscovery, deleted, pendingOwner)');
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions?${params}`, {
       headers
     });
 
@@ -946,7 +948,7 @@ export class GoogleDriveTool {
       role: args.newPermissionRole
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions/${args.permissionId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions/${args.permissionId}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify(permission)
@@ -979,7 +981,7 @@ export class GoogleDriveTool {
       return { success: false, error: "Permission ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions/${args.permissionId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/permissions/${args.permissionId}`, {
       method: 'DELETE',
       headers
     });
@@ -1004,7 +1006,7 @@ export class GoogleDriveTool {
     const params = new URLSearchParams();
     params.append('fields', 'comments(id, content, createdTime, modifiedTime, author, resolved, replies)');
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/comments?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/comments?${params}`, {
       headers
     });
 
@@ -1051,7 +1053,7 @@ export class GoogleDriveTool {
       content: args.commentText
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/comments`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/comments`, {
       method: 'POST',
       headers,
       body: JSON.stringify(comment)
@@ -1086,7 +1088,7 @@ export class GoogleDriveTool {
       return { success: false, error: "Comment ID is required" };
     }
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/comments/${args.commentId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/comments/${args.commentId}`, {
       method: 'DELETE',
       headers
     });
@@ -1112,7 +1114,7 @@ export class GoogleDriveTool {
       trashed: true
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify(metadata)
@@ -1140,7 +1142,7 @@ export class GoogleDriveTool {
       trashed: false
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify(metadata)
@@ -1167,7 +1169,7 @@ export class GoogleDriveTool {
     if (args.maxResults) params.append('pageSize', String(Math.min(args.maxResults, 1000)));
     if (args.orderBy) params.append('orderBy', args.orderBy);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
       headers
     });
 
@@ -1185,7 +1187,7 @@ export class GoogleDriveTool {
   }
 
   private async emptyTrash(args: any, headers: any): Promise<any> {
-    const response = await fetch('https://www.googleapis.com/drive/v3/files/trash', {
+    const response = await toolFetch('https://www.googleapis.com/drive/v3/files/trash', {
       method: 'DELETE',
       headers
     });
@@ -1273,7 +1275,7 @@ export class GoogleDriveTool {
     if (args.includeItemsFromAllDrives) params.append('includeItemsFromAllDrives', 'true');
     if (args.maxResults) params.append('pageSize', String(Math.min(args.maxResults, 100)));
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/changes?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/changes?${params}`, {
       headers
     });
 
@@ -1311,7 +1313,7 @@ export class GoogleDriveTool {
       address: args.webhookUrl
     };
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/watch`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/files/${args.fileId}/watch`, {
       method: 'POST',
       headers,
       body: JSON.stringify(watchRequest)
@@ -1343,7 +1345,7 @@ export class GoogleDriveTool {
     if (args.maxResults) params.append('pageSize', String(Math.min(args.maxResults, 100)));
     if (args.sharedDriveId) {
       // Get specific shared drive
-      const response = await fetch(`https://www.googleapis.com/drive/v3/drives/${args.sharedDriveId}`, {
+      const response = await toolFetch(`https://www.googleapis.com/drive/v3/drives/${args.sharedDriveId}`, {
         headers
       });
 
@@ -1367,7 +1369,7 @@ export class GoogleDriveTool {
     }
 
     // List all shared drives
-    const response = await fetch(`https://www.googleapis.com/drive/v3/drives?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/drives?${params}`, {
       headers
     });
 
@@ -1403,7 +1405,7 @@ export class GoogleDriveTool {
     const params = new URLSearchParams();
     params.append('requestId', `drive-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
 
-    const response = await fetch(`https://www.googleapis.com/drive/v3/drives?${params}`, {
+    const response = await toolFetch(`https://www.googleapis.com/drive/v3/drives?${params}`, {
       method: 'POST',
       headers,
       body: JSON.stringify(drive)
@@ -2,6 +2,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 type HeadersLike = Record<string, string>;
 
 interface SheetInfo {
@@ -763,7 +765,7 @@ export class GoogleSheetsTool {
   private async getSpreadsheetInfo(spreadsheetId: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId) return { success: false, error: "spreadsheetId is required" };
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, { headers });
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, { headers });
     if (!res.ok) return { success: false, error: await res.text() };
     
     const data = await res.json();
@@ -787,7 +789,7 @@ export class GoogleSheetsTool {
   private async listAllSheets(spreadsheetId: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId) return { success: false, error: "spreadsheetId is required" };
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, { headers });
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, { headers });
     if (!res.ok) return { success: false, error: await res.text() };
     
     const data = await res.json();
@@ -805,7 +807,7 @@ export class GoogleSheetsTool {
   private async getSheetProperties(spreadsheetId: string, sheetId: number, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || sheetId === undefined) return { success: false, error: "spreadsheetId and sheetId are required" };
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, { headers });
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`, { headers });
     if (!res.ok) return { success: false, error: await res.text() };
     
     const data = await res.json();
@@ -826,7 +828,7 @@ export class GoogleSheetsTool {
       url.searchParams.set("orderBy", "modifiedTime desc");
       url.searchParams.set("pageSize", "50");
       
-      const res = await fetch(url.toString(), { headers });
+      const res = await toolFetch(url.toString(), { headers });
       if (!res.ok) return { success: false, error: await res.text() };
       
       const data = await res.json();
@@ -893,7 +895,7 @@ export class GoogleSheetsTool {
       url.searchParams.set("fields", "files(id,name,modifiedTime,createdTime,webViewLink)");
       url.searchParams.set("orderBy", "modifiedTime desc");
       
-      const res = await fetch(url.toString(), { headers });
+      const res = await toolFetch(url.toString(), { headers });
       if (!res.ok) return { success: false, error: await res.text() };
       
       const data = await res.json();
@@ -916,7 +918,7 @@ export class GoogleSheetsTool {
       return { success: false, error: "spreadsheetId, sheetId and newTitle are required" };
     }
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -943,7 +945,7 @@ export class GoogleSheetsTool {
     if (rowCount) gridProperties.rowCount = rowCount;
     if (columnCount) gridProperties.columnCount = columnCount;
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -971,7 +973,7 @@ export class GoogleSheetsTool {
       return { success: false, error: "sourceSpreadsheetId, sheetId and destinationSpreadsheetId are required" };
     }
     
-    const res = await fetch(
+    const res = await toolFetch(
       `https://sheets.googleapis.com/v4/spreadsheets/${sourceSpreadsheetId}/sheets/${sheetId}:copyTo`,
       {
         method: "POST",
@@ -1000,7 +1002,7 @@ export class GoogleSheetsTool {
     const url = new URL(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}`);
     url.searchParams.set("valueInputOption", valueInputOption || "USER_ENTERED");
     
-    const res = await fetch(url.toString(), {
+    const res = await toolFetch(url.toString(), {
       method: "PUT",
       headers,
       body: JSON.stringify({ values }),
@@ -1039,7 +1041,7 @@ export class GoogleSheetsTool {
       userEnteredFormat.backgroundColor = this.hexToRgb(formatOptions.backgroundColor);
     }
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1071,7 +1073,7 @@ export class GoogleSheetsTool {
     const rangeInfo = await this.parseRange(spreadsheetId, range, headers!);
     if (!rangeInfo.success) return rangeInfo;
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1097,7 +1099,7 @@ export class GoogleSheetsTool {
       return { success: false, error: "spreadsheetId and protectedRangeId are required" };
     }
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1137,7 +1139,7 @@ export class GoogleSheetsTool {
       findReplaceRequest.sheetId = sheetId;
     }
     
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1165,7 +1167,7 @@ export class GoogleSheetsTool {
       };
 
       // Create the spreadsheet with basic structure
-      const createRes = await fetch("https://sheets.googleapis.com/v4/spreadsheets", {
+      const createRes = await toolFetch("https://sheets.googleapis.com/v4/spreadsheets", {
         method: "POST",
         headers,
         body: JSON.stringify(spreadsheetBody),
@@ -1251,7 +1253,7 @@ export class GoogleSheetsTool {
     if (!spreadsheetId) return { success: false, error: "spreadsheetId is required" };
     const url = new URL(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`);
     if (includeGridData) url.searchParams.set("includeGridData", "true");
-    const res = await fetch(url.toString(), { headers });
+    const res = await toolFetch(url.toString(), { headers });
     if (!res.ok) return { success: false, error: await res.text() };
     const data = await res.json();
     return { success: true, data };
@@ -1259,7 +1261,7 @@ export class GoogleSheetsTool {
 
   private async addSheet(spreadsheetId: string, title: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || !title) return { success: false, error: "spreadsheetId and sheetTitle are required" };
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({ requests: [{ addSheet: { properties: { title } } }] }),
@@ -1271,7 +1273,7 @@ export class GoogleSheetsTool {
 
   private async deleteSheet(spreadsheetId: string, sheetId: number, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || sheetId === undefined) return { success: false, error: "spreadsheetId and sheetId are required" };
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({ requests: [{ deleteSheet: { sheetId } }] }),
@@ -1283,7 +1285,7 @@ export class GoogleSheetsTool {
 
   private async duplicateSheet(spreadsheetId: string, sheetId: number, newTitle: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || sheetId === undefined || !newTitle) return { success: false, error: "spreadsheetId, sheetId and sheetTitle are required" };
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({ requests: [{ duplicateSheet: { sourceSheetId: sheetId, newSheetName: newTitle } }] }),
@@ -1296,7 +1298,7 @@ export class GoogleSheetsTool {
   private async readValues(spreadsheetId: string, range: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || !range) return { success: false, error: "spreadsheetId and range are required" };
     const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}`;
-    const res = await fetch(url, { headers });
+    const res = await toolFetch(url, { headers });
     if (!res.ok) return { success: false, error: await res.text() };
     const data = await res.json();
     return { success: true, range: data.range, values: data.values || [] };
@@ -1306,7 +1308,7 @@ export class GoogleSheetsTool {
     if (!spreadsheetId || !range || !Array.isArray(values)) return { success: false, error: "spreadsheetId, range, values are required" };
     const url = new URL(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}:append`);
     url.searchParams.set("valueInputOption", valueInputOption || "USER_ENTERED");
-    const res = await fetch(url.toString(), {
+    const res = await toolFetch(url.toString(), {
       method: "POST",
       headers,
       body: JSON.stringify({ values }),
@@ -1319,7 +1321,7 @@ export class GoogleSheetsTool {
   private async clearValues(spreadsheetId: string, range: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || !range) return { success: false, error: "spreadsheetId and range are required" };
     const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}:clear`;
-    const res = await fetch(url, { method: "POST", headers, body: JSON.stringify({}) });
+    const res = await toolFetch(url, { method: "POST", headers, body: JSON.stringify({}) });
     if (!res.ok) return { success: false, error: await res.text() };
     const data = await res.json();
     return { success: true, data };
@@ -1328,7 +1330,7 @@ export class GoogleSheetsTool {
   private async batchUpdateValues(spreadsheetId: string, data: Array<{ range: string; values: string[][] }>, valueInputOption: string, headers: HeadersLike): Promise<any> {
     if (!spreadsheetId || !Array.isArray(data)) return { success: false, error: "spreadsheetId and data are required" };
     const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values:batchUpdate`;
-    const res = await fetch(url, {
+    const res = await toolFetch(url, {
       method: "POST",
       headers,
       body: JSON.stringify({ valueInputOption, data }),
@@ -1537,7 +1539,7 @@ export class GoogleSheetsTool {
         addSheet: { properties: { title } }
       }));
 
-      const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+      const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
         method: "POST",
         headers,
         body: JSON.stringify({ requests }),
@@ -1600,7 +1602,7 @@ export class GoogleSheetsTool {
     const targetInfo = await this.parseRange(spreadsheetId, targetRange, headers);
     if (!targetInfo.success) return targetInfo;
 
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1634,7 +1636,7 @@ export class GoogleSheetsTool {
   }
 
   private async deletePivotTable(spreadsheetId: string, pivotTableId: number, headers: HeadersLike): Promise<any> {
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1679,7 +1681,7 @@ export class GoogleSheetsTool {
     const position = config.position ? await this.parseRange(spreadsheetId, config.position, headers) : null;
     const positionGridRange = position?.success ? position.gridRange : { sheetId: 0, rowIndex: 0, columnIndex: 0 };
 
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1706,7 +1708,7 @@ export class GoogleSheetsTool {
   }
 
   private async updateChart(spreadsheetId: string, chartId: number, config: any, headers: HeadersLike): Promise<any> {
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1731,7 +1733,7 @@ export class GoogleSheetsTool {
   }
 
   private async deleteChart(spreadsheetId: string, chartId: number, headers: HeadersLike): Promise<any> {
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1785,7 +1787,7 @@ export class GoogleSheetsTool {
     if (config.bold !== undefined) format.bold = config.bold;
     if (config.italic !== undefined) format.italic = config.italic;
 
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1818,7 +1820,7 @@ export class GoogleSheetsTool {
   }
 
   private async deleteConditionalFormatting(spreadsheetId: string, ruleId: number, headers: HeadersLike): Promise<any> {
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1876,7 +1878,7 @@ export class GoogleSheetsTool {
     if (config.inputMessage) validation.inputMessage = config.inputMessage;
     if (config.errorMessage) validation.errorMessage = config.errorMessage;
 
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1904,7 +1906,7 @@ export class GoogleSheetsTool {
 
   private async deleteDataValidation(spreadsheetId: string, validationId: number, headers: HeadersLike): Promise<any> {
     // Data validation doesn't have a direct delete method, so we clear it
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1926,7 +1928,7 @@ export class GoogleSheetsTool {
     const rangeInfo = await this.parseRange(spreadsheetId, range, headers);
     if (!rangeInfo.success) return rangeInfo;
 
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1950,7 +1952,7 @@ export class GoogleSheetsTool {
     const rangeInfo = await this.parseRange(spreadsheetId, range, headers);
     if (!rangeInfo.success) return rangeInfo;
 
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
@@ -1973,7 +1975,7 @@ export class GoogleSheetsTool {
   }
 
   private async deleteNamedRange(spreadsheetId: string, namedRangeId: string, headers: HeadersLike): Promise<any> {
-    const res = await fetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
+    const res = await toolFetch(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`, {
       method: "POST",
       headers,
       body: JSON.stringify({
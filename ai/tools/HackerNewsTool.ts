@@ -1,6 +1,9 @@
 //ai/tools/HackerNewsTool.ts
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolCachePolicy } from "../types";
+
 // Interface for Hacker News story/item
 interface HackerNewsStory {
   id: number;
@@ -224,6 +227,34 @@ export class HackerNewsTool {
     };
   }
 
+  // Live feeds are not cached; lists and items are reused briefly, digests and profiles for longer
+  getCachePolicy(args: any): ToolCachePolicy | null {
+    switch (args?.action) {
+      case "get_latest_updates":
+      case "get_max_item_id":
+      case "get_realtime_updates":
+        return null;
+      case "get_new_stories":
+        return { ttlSeconds: 2 * 60, scope: "global" };
+      case "get_user_profile":
+      case "get_user_karma":
+      case "get_user_submissions":
+      case "get_user_comments":
+      case "get_user_activity":
+      case "get_user_metrics":
+      case "get_trending_topics":
+      case "get_top_authors":
+      case "get_domain_info":
+        return { ttlSeconds: 15 * 60, scope: "global" };
+      case "get_weekly_digest":
+      case "get_monthly_digest":
+      case "get_yearly_digest":
+        return { ttlSeconds: 60 * 60, scope: "global" };
+      default:
+        return { ttlSeconds: 5 * 60, scope: "global" };
+    }
+  }
+
   async execute(args: any): Promise<any> {
     try {
       console.log(`📰 HackerNews operation: ${args.action}`);
@@ -360,7 +391,7 @@ export class HackerNewsTool {
     const url = `${this.baseUrl}/${endpoint}.json`;
     console.log(`📡 Fetching: ${url}`);
     
-    const response = await fetch(url);
+    const response = await toolFetch(url);
     if (!response.ok) {
       throw new Error(`API request failed: ${response.status} ${response.statusText}`);
     }
@@ -2,6 +2,8 @@ import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 import axios, { AxiosInstance } from 'axios';
 
+import { toolFetch, withToolSignal } from "../tool-cancellation";
+
 export interface HubSpotConfig {
   apiKey?: string;
   baseUrl?: string;
@@ -21,14 +23,14 @@ export class HubSpotTool {
     this.apiKey = config.apiKey || null;
     this.oauthToken = oauthToken;
     this.userId = userId;
-    this.client = axios.create({
+    this.client = withToolSignal(axios.create({
       baseURL: config.baseUrl || 'https://api.hubapi.com',
       timeout: config.timeout || 30000,
       headers: {
         'Content-Type': 'application/json',
         'User-Agent': this.userAgent
       }
-    });
+    }));
     this.rateLimiter = new RateLimiter();
   }
 
@@ -785,7 +787,7 @@ export class HubSpotTool {
     // Handle file content
     let fileBlob: Blob;
     if (fileData.fileContent.startsWith('data:')) {
-      const response = await fetch(fileData.fileContent);
+      const response = await toolFetch(fileData.fileContent);
       fileBlob = await response.blob();
     } else {
       const byteCharacters = atob(fileData.fileContent);
@@ -846,7 +848,7 @@ export class HubSpotTool {
 
     console.log(`📡 ${method} ${this.maskUrl(url)}`);
 
-    const response = await fetch(url, requestConfig);
+    const response = await toolFetch(url, requestConfig);
     
     let responseData: any;
     const responseText = await response.text();
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class JinaTool {
   private readerBaseUrl: string = "https://r.jina.ai";
   private searchBaseUrl: string = "https://s.jina.ai";
@@ -219,7 +221,7 @@ export class JinaTool {
       headers["X-Respond-With"] = "text";
     }
 
-    const response = await fetch(`${this.readerBaseUrl}/${args.url}`, {
+    const response = await toolFetch(`${this.readerBaseUrl}/${args.url}`, {
       method: "GET",
       headers
     });
@@ -288,7 +290,7 @@ export class JinaTool {
     const queryParam = encodeURIComponent(args.query);
     const searchUrl = `${this.searchBaseUrl}/${queryParam}${searchParams.toString() ? '?' + searchParams.toString() : ''}`;
 
-    const response = await fetch(searchUrl, {
+    const response = await toolFetch(searchUrl, {
       method: "GET",
       headers
     });
@@ -341,7 +343,7 @@ export class JinaTool {
       ...(args.overlap && { overlap: args.overlap })
     };
 
-    const response = await fetch(`${this.apiBaseUrl}/rerank`, {
+    const response = await toolFetch(`${this.apiBaseUrl}/rerank`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -389,7 +391,7 @@ export class JinaTool {
       ...(args.late_chunking && { late_chunking: args.late_chunking })
     };
 
-    const response = await fetch(`${this.apiBaseUrl}/embeddings`, {
+    const response = await toolFetch(`${this.apiBaseUrl}/embeddings`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -429,7 +431,7 @@ export class JinaTool {
     }
 
     try {
-      const response = await fetch(`${this.apiBaseUrl}/embeddings`, {
+      const response = await toolFetch(`${this.apiBaseUrl}/embeddings`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -458,7 +460,7 @@ export class JinaTool {
 
     try {
       // Test with a minimal request
-      const response = await fetch(`${this.apiBaseUrl}/embeddings`, {
+      const response = await toolFetch(`${this.apiBaseUrl}/embeddings`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
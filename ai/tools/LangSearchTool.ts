@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class LangSearchTool {
   private baseUrl: string = "https://api.langsearch.com/v1";
   private apiKey: string;
@@ -109,7 +111,7 @@ export class LangSearchTool {
       ...(args.language && { language: args.language })
     };
 
-    const response = await fetch(`${this.baseUrl}/web-search`, {
+    const response = await toolFetch(`${this.baseUrl}/web-search`, {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${this.apiKey}`,
@@ -185,7 +187,7 @@ export class LangSearchTool {
         documents: documents.slice(0, 50) // Ensure we don't exceed 50 documents
       };
 
-      const response = await fetch(`${this.baseUrl}/rerank`, {
+      const response = await toolFetch(`${this.baseUrl}/rerank`, {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${this.apiKey}`,
@@ -253,7 +255,7 @@ export class LangSearchTool {
         documents: documents.slice(0, 50) // Ensure max 50 documents
       };
 
-      const response = await fetch(`${this.baseUrl}/rerank`, {
+      const response = await toolFetch(`${this.baseUrl}/rerank`, {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${this.apiKey}`,
@@ -302,7 +304,7 @@ export class LangSearchTool {
   // Utility method to validate API key
   async validateApiKey(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/web-search`, {
+      const response = await toolFetch(`${this.baseUrl}/web-search`, {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${this.apiKey}`,
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class LinearManagementTool {
   private apiKey: string;
   private baseUrl: string = "https://api.linear.app/graphql";
@@ -598,7 +600,7 @@ export class LinearManagementTool {
   }
 
   private async makeGraphQLRequest(query: string, variables: any = {}): Promise<any> {
-    const response = await fetch(this.baseUrl, {
+    const response = await toolFetch(this.baseUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
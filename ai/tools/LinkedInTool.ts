@@ -2,6 +2,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class LinkedInTool {
   private userId: string;
 
@@ -288,7 +290,7 @@ export class LinkedInTool {
 
   private async getProfile(args: any, headers: any): Promise<any> {
     const profileId = args.profileId || 'me';
-    const response = await fetch(`https://api.linkedin.com/v2/people/${profileId}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/people/${profileId}`, {
       headers
     });
 
@@ -312,7 +314,7 @@ export class LinkedInTool {
     if (args.industry) profileData.industry = args.industry;
     if (args.location) profileData.location = args.location;
 
-    const response = await fetch('https://api.linkedin.com/v2/people/me', {
+    const response = await toolFetch('https://api.linkedin.com/v2/people/me', {
       method: 'PATCH',
       headers,
       body: JSON.stringify(profileData)
@@ -343,7 +345,7 @@ export class LinkedInTool {
       };
     }
 
-    const response = await fetch('https://api.linkedin.com/v2/posts', {
+    const response = await toolFetch('https://api.linkedin.com/v2/posts', {
       method: 'POST',
       headers,
       body: JSON.stringify(postData)
@@ -367,7 +369,7 @@ export class LinkedInTool {
       return { success: false, error: "Post ID is required for deletion" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/posts/${args.postId}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/posts/${args.postId}`, {
       method: 'DELETE',
       headers
     });
@@ -385,7 +387,7 @@ export class LinkedInTool {
       return { success: false, error: "Post ID is required" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/posts/${args.postId}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/posts/${args.postId}`, {
       headers
     });
 
@@ -406,7 +408,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/posts?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/posts?${params}`, {
       headers
     });
 
@@ -435,7 +437,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/posts/search?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/posts/search?${params}`, {
       headers
     });
 
@@ -462,7 +464,7 @@ export class LinkedInTool {
       object: `urn:li:post:${args.postId}`
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/reactions', {
+    const response = await toolFetch('https://api.linkedin.com/v2/reactions', {
       method: 'POST',
       headers,
       body: JSON.stringify(likeData)
@@ -489,7 +491,7 @@ export class LinkedInTool {
       }
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/comments', {
+    const response = await toolFetch('https://api.linkedin.com/v2/comments', {
       method: 'POST',
       headers,
       body: JSON.stringify(commentData)
@@ -513,7 +515,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/connections?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/connections?${params}`, {
       headers
     });
 
@@ -540,7 +542,7 @@ export class LinkedInTool {
       message: args.message || undefined
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/invitations', {
+    const response = await toolFetch('https://api.linkedin.com/v2/invitations', {
       method: 'POST',
       headers,
       body: JSON.stringify(invitationData)
@@ -559,7 +561,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/messages?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/messages?${params}`, {
       headers
     });
 
@@ -589,7 +591,7 @@ export class LinkedInTool {
       }
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/messages', {
+    const response = await toolFetch('https://api.linkedin.com/v2/messages', {
       method: 'POST',
       headers,
       body: JSON.stringify(messageData)
@@ -608,7 +610,7 @@ export class LinkedInTool {
       return { success: false, error: "Company ID is required" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/companies/${args.companyId}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/companies/${args.companyId}`, {
       headers
     });
 
@@ -636,7 +638,7 @@ export class LinkedInTool {
     if (args.companyIndustry) companyData.industry = args.companyIndustry;
     if (args.companySize) companyData.companySize = args.companySize;
 
-    const response = await fetch(`https://api.linkedin.com/v2/companies/${args.companyId}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/companies/${args.companyId}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify(companyData)
@@ -661,7 +663,7 @@ export class LinkedInTool {
       visibility: args.postVisibility || 'PUBLIC'
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/posts', {
+    const response = await toolFetch('https://api.linkedin.com/v2/posts', {
       method: 'POST',
       headers,
       body: JSON.stringify(postData)
@@ -689,7 +691,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/companies/${args.companyId}/followers?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/companies/${args.companyId}/followers?${params}`, {
       headers
     });
 
@@ -716,7 +718,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/companies/search?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/companies/search?${params}`, {
       headers
     });
 
@@ -737,7 +739,7 @@ export class LinkedInTool {
     const analyticsType = args.analyticsType || 'profile_views';
     const timeRange = args.timeRange || 'month';
 
-    const response = await fetch(`https://api.linkedin.com/v2/people/me/analytics?type=${analyticsType}&timeRange=${timeRange}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/people/me/analytics?type=${analyticsType}&timeRange=${timeRange}`, {
       headers
     });
 
@@ -758,7 +760,7 @@ export class LinkedInTool {
       return { success: false, error: "Post ID is required for analytics" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/posts/${args.postId}/analytics`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/posts/${args.postId}/analytics`, {
       headers
     });
 
@@ -779,7 +781,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/people/me/network/updates?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/people/me/network/updates?${params}`, {
       headers
     });
 
@@ -802,7 +804,7 @@ export class LinkedInTool {
     if (args.maxResults) params.append('count', String(Math.min(args.maxResults, 100)));
     if (args.start) params.append('start', String(args.start));
 
-    const response = await fetch(`https://api.linkedin.com/v2/invitations?${params}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/invitations?${params}`, {
       headers
     });
 
@@ -824,7 +826,7 @@ export class LinkedInTool {
       return { success: false, error: "Invitation ID is required" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/invitations/${args.invitationId}/accept`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/invitations/${args.invitationId}/accept`, {
       method: 'POST',
       headers
     });
@@ -842,7 +844,7 @@ export class LinkedInTool {
       return { success: false, error: "Invitation ID is required" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/invitations/${args.invitationId}/ignore`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/invitations/${args.invitationId}/ignore`, {
       method: 'POST',
       headers
     });
@@ -857,7 +859,7 @@ export class LinkedInTool {
 
   private async getSkills(args: any, headers: any): Promise<any> {
     const profileId = args.profileId || 'me';
-    const response = await fetch(`https://api.linkedin.com/v2/people/${profileId}/skills`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/people/${profileId}/skills`, {
       headers
     });
 
@@ -882,7 +884,7 @@ export class LinkedInTool {
       name: args.skillName
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/people/me/skills', {
+    const response = await toolFetch('https://api.linkedin.com/v2/people/me/skills', {
       method: 'POST',
       headers,
       body: JSON.stringify(skillData)
@@ -906,7 +908,7 @@ export class LinkedInTool {
       return { success: false, error: "Skill ID is required" };
     }
 
-    const response = await fetch(`https://api.linkedin.com/v2/people/me/skills/${args.skillId}`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/people/me/skills/${args.skillId}`, {
       method: 'DELETE',
       headers
     });
@@ -921,7 +923,7 @@ export class LinkedInTool {
 
   private async getRecommendations(args: any, headers: any): Promise<any> {
     const profileId = args.profileId || 'me';
-    const response = await fetch(`https://api.linkedin.com/v2/people/${profileId}/recommendations`, {
+    const response = await toolFetch(`https://api.linkedin.com/v2/people/${profileId}/recommendations`, {
       headers
     });
 
@@ -948,7 +950,7 @@ export class LinkedInTool {
       message: args.message || undefined
     };
 
-    const response = await fetch('https://api.linkedin.com/v2/people/me/recommendations', {
+    const response = await toolFetch('https://api.linkedin.com/v2/people/me/recommendations', {
       method: 'POST',
       headers,
       body: JSON.stringify(recommendationData)
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class MailchimpTool {
   private apiKey: string;
   private dataCenter: string;
@@ -190,7 +192,7 @@ export class MailchimpTool {
       options.body = JSON.stringify(body);
     }
 
-    const response = await fetch(url, options);
+    const response = await toolFetch(url, options);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
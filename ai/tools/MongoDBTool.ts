@@ -1,6 +1,11 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { MongoClient, Db, ObjectId } from "mongodb";
 
+import { ToolRiskLevel } from "../types";
+
+const HIGH_RISK_OPERATIONS = ["dropDatabase", "dropCollection", "deleteOne", "deleteMany", "updateMany", "replaceOne", "dropIndexes"];
+const MEDIUM_RISK_OPERATIONS = ["createCollection", "renameCollection", "insertOne", "insertMany", "updateOne", "createIndex", "createIndexes", "dropIndex"];
+
 export class MongoDBTool {
   private client: MongoClient | null = null;
   private db: Db | null = null;
@@ -39,6 +44,14 @@ export class MongoDBTool {
     return this.client.db(dbName);
   }
 
+  // Shared by all four MongoDB functions, they all take an `operation` argument
+  getRiskLevel(args: any): ToolRiskLevel {
+    const operation: string = args?.operation || "";
+    if (HIGH_RISK_OPERATIONS.includes(operation)) return "high";
+    if (MEDIUM_RISK_OPERATIONS.includes(operation)) return "medium";
+    return "low";
+  }
+
   // Database Operations
   getDatabaseOpsDefinition(): FunctionDeclaration {
     return {
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export interface N8NCredential {
   id: string;
   name: string;
@@ -681,7 +683,7 @@ export class N8NTool {
   private async testWebhook(webhookPath: string): Promise<any> {
     try {
       const webhookUrl = `${this.baseUrl}/webhook-test/${webhookPath}`;
-      const response = await fetch(webhookUrl, {
+      const response = await toolFetch(webhookUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -832,7 +834,7 @@ export class N8NTool {
     config.signal = controller.signal;
 
     try {
-      const response = await fetch(url, config);
+      const response = await toolFetch(url, config);
       clearTimeout(timeoutId);
 
       if (!response.ok) {
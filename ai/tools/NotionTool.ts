@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 // Interface for rate limiting configuration
 interface RateLimitConfig {
   maxRetries: number;
@@ -657,7 +659,7 @@ export class NotionTool {
       options.body = JSON.stringify(data);
     }
 
-    const response = await fetch(url, options);
+    const response = await toolFetch(url, options);
     
     if (!response.ok) {
       const errorBody = await response.text();
@@ -1722,7 +1724,7 @@ export class NotionTool {
     const formData = new FormData();
     formData.append('file', new Blob([fileData], { type: contentType }), fileName);
 
-    const uploadResponse = await fetch(uploadUrlResponse.upload_url, {
+    const uploadResponse = await toolFetch(uploadUrlResponse.upload_url, {
       method: 'POST',
       body: formData
     });
@@ -4,6 +4,8 @@ import axios from 'axios';
 import path from 'path';
 import fs from 'fs';
 
+import { getToolSignal } from "../tool-cancellation";
+
 // Define the path to the font data
 const fontDataPath = path.join(process.cwd(), 'public', 'fonts', 'pdfkit-data');
 
@@ -409,7 +411,7 @@ export class PDFTool {
 
       case 'image':
         try {
-          const response = await axios.get(block.src, { responseType: 'arraybuffer' });
+          const response = await axios.get(block.src, { responseType: 'arraybuffer', signal: getToolSignal() });
           const imageBuffer = Buffer.from(response.data, 'binary');
           const imageOptions: any = {};
           if (block.width) imageOptions.width = block.width;
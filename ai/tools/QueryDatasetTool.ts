@@ -0,0 +1,183 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import { TableCell } from "@/lib/office-files";
+
+import { getDataset } from "../attachment-ingestion";
+
+type Row = Record<string, TableCell>;
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+function compare(a: TableCell, b: TableCell): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true });
+}
+
+function matches(value: TableCell, operator: string, target: any): boolean {
+  switch (operator) {
+    case "neq":
+      return String(value ?? "") !== String(target ?? "");
+    case "gt":
+      return compare(value, target) > 0;
+    case "gte":
+      return compare(value, target) >= 0;
+    case "lt":
+      return compare(value, target) < 0;
+    case "lte":
+      return compare(value, target) <= 0;
+    case "contains":
+      return String(value ?? "").toLowerCase().includes(String(target ?? "").toLowerCase());
+    default:
+      return String(value ?? "") === String(target ?? "");
+  }
+}
+
+function aggregate(values: TableCell[], method: string): number {
+  const numbers = values.map(Number).filter((value) => Number.isFinite(value));
+  switch (method) {
+    case "count":
+      return values.length;
+    case "avg":
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : 0;
+    case "min":
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    case "max":
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    default:
+      return numbers.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+// Filters, groups and reads rows from spreadsheets and CSV files the user attached to the chat
+export class QueryDatasetTool {
+  private userId: string;
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  getDefinition(): FunctionDeclaration {
+    return {
+      name: "query_dataset",
+      description:
+        "Query a dataset created from a CSV or Excel spreadsheet the user attached (the dataset id is shown with the file preview). Filter rows, pick columns, group and aggregate, sort and limit. The result includes a JSON `data` string that can be passed directly to data_visualization.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          datasetId: { type: Type.STRING, description: "Dataset id from the attachment preview, e.g. 'ds_1a2b3c4d5e6f'" },
+          columns: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Columns to return (default: all). Ignored when groupBy is set.",
+          },
+          filters: {
+            type: Type.ARRAY,
+            description: "Row filters, all of which must match",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                column: { type: Type.STRING },
+                operator: { type: Type.STRING, enum: ["eq", "neq", "gt", "gte", "lt", "lte", "contains"] },
+                value: { type: Type.STRING },
+              },
+              required: ["column", "value"],
+            },
+          },
+          groupBy: { type: Type.STRING, description: "Column to group rows by" },
+          valueColumns: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Numeric columns to aggregate per group",
+          },
+          aggregate: {
+            type: Type.STRING,
+            enum: ["sum", "avg", "count", "min", "max"],
+            description: "Aggregation for valueColumns when grouping (default: sum)",
+          },
+          sortBy: { type: Type.STRING, description: "Column to sort by" },
+          sortOrder: { type: Type.STRING, enum: ["asc", "desc"], description: "Sort direction (default: asc)" },
+          limit: { type: Type.NUMBER, description: `Maximum rows to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})` },
+        },
+        required: ["datasetId"],
+      },
+    };
+  }
+
+  async execute(args: any): Promise<any> {
+    const datasetId = typeof args?.datasetId === "string" ? args.datasetId.trim() : "";
+    if (!datasetId) {
+      return { success: false, error: "datasetId is required." };
+    }
+
+    try {
+      const dataset = await getDataset(this.userId, datasetId);
+      if (!dataset) {
+        return { success: false, error: `Dataset "${datasetId}" was not found. It may have expired; ask the user to attach the file again.` };
+      }
+
+      const known = new Set(dataset.columns);
+      const requested: string[] = [
+        ...(Array.isArray(args.columns) ? args.columns : []),
+        ...(Array.isArray(args.valueColumns) ? args.valueColumns : []),
+        ...(Array.isArray(args.filters) ? args.filters.map((filter: any) => filter?.column) : []),
+        ...[args.groupBy, args.sortBy].filter(Boolean),
+      ];
+      const unknown = requested.filter((column) => !known.has(column));
+      if (unknown.length > 0) {
+        return { success: false, error: `Unknown columns: ${unknown.join(", ")}`, columns: dataset.columns };
+      }
+
+      let rows: Row[] = dataset.rows;
+      for (const filter of Array.isArray(args.filters) ? args.filters : []) {
+        rows = rows.filter((row) => matches(row[filter.column], filter.operator || "eq", filter.value));
+      }
+      const matchedRows = rows.length;
+
+      let columns: string[] = Array.isArray(args.columns) && args.columns.length > 0 ? args.columns : dataset.columns;
+      if (args.groupBy) {
+        const method = args.aggregate || "sum";
+        const valueColumns: string[] = Array.isArray(args.valueColumns) ? args.valueColumns : [];
+        const groups = new Map<string, Row[]>();
+        for (const row of rows) {
+          const key = String(row[args.groupBy] ?? "");
+          groups.set(key, [...(groups.get(key) || []), row]);
+        }
+        const aggregated = valueColumns.length > 0 ? valueColumns : ["count"];
+        rows = Array.from(groups.entries()).map(([key, groupRows]) => ({
+          [args.groupBy]: key,
+          ...Object.fromEntries(
+            aggregated.map((column) => [
+              column,
+              column === "count" && valueColumns.length === 0
+                ? groupRows.length
+                : Math.round(aggregate(groupRows.map((row) => row[column]), method) * 100) / 100,
+            ])
+          ),
+        }));
+        columns = [args.groupBy, ...aggregated];
+      }
+
+      if (args.sortBy && columns.includes(args.sortBy)) {
+        const direction = args.sortOrder === "desc" ? -1 : 1;
+        rows = [...rows].sort((a, b) => compare(a[args.sortBy], b[args.sortBy]) * direction);
+      }
+
+      const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+      const result = rows.slice(0, limit).map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])));
+
+      return {
+        success: true,
+        dataset: dataset.name,
+        columns,
+        matchedRows,
+        returnedRows: result.length,
+        truncated: rows.length > result.length || dataset.truncated,
+        rows: result,
+        data: JSON.stringify(result),
+      };
+    } catch (error: unknown) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class QuickBooksTool {
   private userId: string;
   private baseUrl = 'https://sandbox-quickbooks.api.intuit.com/v3';
@@ -435,7 +437,7 @@ export class QuickBooksTool {
       return { success: false, error: "Customer data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/customer`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/customer`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.customerData)
@@ -458,7 +460,7 @@ export class QuickBooksTool {
       return { success: false, error: "Customer ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/customer/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/customer/${args.entityId}`, {
       headers
     });
 
@@ -485,7 +487,7 @@ export class QuickBooksTool {
       sparse: true
     };
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/customer`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/customer`, {
       method: 'POST',
       headers,
       body: JSON.stringify(customerData)
@@ -509,7 +511,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -532,7 +534,7 @@ export class QuickBooksTool {
       return { success: false, error: "Invoice data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/invoice`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/invoice`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.invoiceData)
@@ -555,7 +557,7 @@ export class QuickBooksTool {
       return { success: false, error: "Invoice ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/invoice/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/invoice/${args.entityId}`, {
       headers
     });
 
@@ -582,7 +584,7 @@ export class QuickBooksTool {
       sparse: true
     };
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/invoice`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/invoice`, {
       method: 'POST',
       headers,
       body: JSON.stringify(invoiceData)
@@ -606,7 +608,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -629,7 +631,7 @@ export class QuickBooksTool {
       return { success: false, error: "Payment data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/payment`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/payment`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.paymentData)
@@ -652,7 +654,7 @@ export class QuickBooksTool {
       return { success: false, error: "Payment ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/payment/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/payment/${args.entityId}`, {
       headers
     });
 
@@ -674,7 +676,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -697,7 +699,7 @@ export class QuickBooksTool {
       return { success: false, error: "Account data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/account`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/account`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.accountData)
@@ -720,7 +722,7 @@ export class QuickBooksTool {
       return { success: false, error: "Account ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/account/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/account/${args.entityId}`, {
       headers
     });
 
@@ -747,7 +749,7 @@ export class QuickBooksTool {
       sparse: true
     };
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/account`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/account`, {
       method: 'POST',
       headers,
       body: JSON.stringify(accountData)
@@ -771,7 +773,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -790,7 +792,7 @@ export class QuickBooksTool {
 
   // Company info
   private async getCompanyInfo(args: any, headers: any, baseUrl: string): Promise<any> {
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/companyinfo/${args.companyId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/companyinfo/${args.companyId}`, {
       headers
     });
 
@@ -812,7 +814,7 @@ export class QuickBooksTool {
       return { success: false, error: "Item data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/item`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/item`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.itemData)
@@ -835,7 +837,7 @@ export class QuickBooksTool {
       return { success: false, error: "Item ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/item/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/item/${args.entityId}`, {
       headers
     });
 
@@ -862,7 +864,7 @@ export class QuickBooksTool {
       sparse: true
     };
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/item`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/item`, {
       method: 'POST',
       headers,
       body: JSON.stringify(itemData)
@@ -886,7 +888,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -909,7 +911,7 @@ export class QuickBooksTool {
       return { success: false, error: "Vendor data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/vendor`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/vendor`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.vendorData)
@@ -932,7 +934,7 @@ export class QuickBooksTool {
       return { success: false, error: "Vendor ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/vendor/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/vendor/${args.entityId}`, {
       headers
     });
 
@@ -959,7 +961,7 @@ export class QuickBooksTool {
       sparse: true
     };
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/vendor`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/vendor`, {
       method: 'POST',
       headers,
       body: JSON.stringify(vendorData)
@@ -983,7 +985,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -1011,7 +1013,7 @@ export class QuickBooksTool {
     if (args.startDate) params.append('start_date', args.startDate);
     if (args.endDate) params.append('end_date', args.endDate);
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/reports?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/reports?${params}`, {
       headers
     });
 
@@ -1033,7 +1035,7 @@ export class QuickBooksTool {
       return { success: false, error: "Bill data is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/bill`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/bill`, {
       method: 'POST',
       headers,
       body: JSON.stringify(args.billData)
@@ -1056,7 +1058,7 @@ export class QuickBooksTool {
       return { success: false, error: "Bill ID is required" };
     }
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/bill/${args.entityId}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/bill/${args.entityId}`, {
       headers
     });
 
@@ -1083,7 +1085,7 @@ export class QuickBooksTool {
       sparse: true
     };
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/bill`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/bill`, {
       method: 'POST',
       headers,
       body: JSON.stringify(billData)
@@ -1107,7 +1109,7 @@ export class QuickBooksTool {
     if (args.limit) params.append('limit', String(Math.min(args.limit, 1000)));
     if (args.offset) params.append('offset', String(args.offset));
 
-    const response = await fetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
+    const response = await toolFetch(`${baseUrl}/company/${args.companyId}/query?${params}`, {
       headers
     });
 
@@ -0,0 +1,55 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import { READ_ARTIFACT_NAME, readArtifactPage } from "../tool-result-shaping";
+
+// Pages through a tool result that was too large to send to the model and was stored as an artifact
+export class ReadArtifactTool {
+  private chatId: string;
+
+  constructor(chatId: string) {
+    this.chatId = chatId;
+  }
+
+  getDefinition(): FunctionDeclaration {
+    return {
+      name: READ_ARTIFACT_NAME,
+      description:
+        "Read part of a large tool result that was saved as an artifact (the result shows an artifact_id, a schema and a sample). Items are returned from the given offset; text artifacts are read by character offset. Use nextOffset from the previous page to continue.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          artifact_id: { type: Type.STRING, description: "The artifact_id from the tool result, e.g. 'art_1a2b3c4d5e6f'" },
+          offset: { type: Type.NUMBER, description: "Item (or character) offset to start from (default: 0)" },
+          limit: { type: Type.NUMBER, description: "Maximum items (or characters) to return; pages are also capped by size" },
+          fields: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "For items that are objects, only return these keys",
+          },
+        },
+        required: ["artifact_id"],
+      },
+    };
+  }
+
+  async execute(args: any): Promise<any> {
+    const artifactId = typeof args?.artifact_id === "string" ? args.artifact_id.trim() : "";
+    if (!artifactId) {
+      return { success: false, error: "artifact_id is required." };
+    }
+
+    try {
+      const page = await readArtifactPage(this.chatId, artifactId, {
+        offset: args.offset,
+        limit: args.limit,
+        fields: Array.isArray(args.fields) ? args.fields : undefined,
+      });
+      if (!page) {
+        return { success: false, error: `Artifact "${artifactId}" was not found in this chat. It may have expired; call the original tool again.` };
+      }
+      return page;
+    } catch (error: unknown) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import { getToolResult } from "@/lib/redis-queries";
+
+import { RETRIEVE_TOOL_RESULT_NAME } from "../conversation-compaction";
+
+// Reads back a tool result from earlier in the chat that was elided from the model history
+export class RetrieveToolResultTool {
+  private chatId: string;
+
+  constructor(chatId: string) {
+    this.chatId = chatId;
+  }
+
+  getDefinition(): FunctionDeclaration {
+    return {
+      name: RETRIEVE_TOOL_RESULT_NAME,
+      description:
+        "Retrieve the full result of a tool call made earlier in this conversation. Earlier results are elided from the history to save space; use the ref shown next to them (e.g. 'tool_1712345678_0') instead of calling the original tool again.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          ref: {
+            type: Type.STRING,
+            description: "The ref of the elided tool result",
+          },
+        },
+        required: ["ref"],
+      },
+    };
+  }
+
+  async execute(args: any): Promise<any> {
+    const ref = typeof args?.ref === "string" ? args.ref.trim() : "";
+    if (!ref) {
+      return { success: false, error: "A ref is required." };
+    }
+
+    try {
+      const stored = await getToolResult(this.chatId, ref);
+      if (!stored) {
+        return { success: false, error: `No stored tool result found for ref "${ref}". It may have expired.` };
+      }
+      return {
+        success: true,
+        ref,
+        tool: stored.name,
+        args: stored.args,
+        createdAt: stored.createdAt,
+        result: stored.result,
+      };
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolCachePolicy } from "../types";
+
 export class SerperSearchTool {
   private apiKey: string;
   private baseUrl: string = "https://google.serper.dev";
@@ -53,6 +56,11 @@ export class SerperSearchTool {
     };
   }
 
+  // The API key comes from the environment, so results can be shared between users
+  getCachePolicy(): ToolCachePolicy {
+    return { ttlSeconds: 30 * 60, scope: "global" };
+  }
+
   async execute(args: any): Promise<any> {
     try {
       console.log(`🔍 Serper searching (${args.searchType || 'web'}): "${args.query}"`);
@@ -72,7 +80,7 @@ export class SerperSearchTool {
       if (args.tbs) requestBody.tbs = args.tbs;
       if (args.safe) requestBody.safe = args.safe;
 
-      const response = await fetch(endpoint, {
+      const response = await toolFetch(endpoint, {
         method: 'POST',
         headers: {
           'X-API-KEY': this.apiKey,
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class SerpstackTool {
   private baseUrl: string = "https://api.serpstack.com";
   private apiKey: string;
@@ -183,7 +185,7 @@ export class SerpstackTool {
       ...(args.csvFields && { csv_fields: args.csvFields })
     });
 
-    const response = await fetch(`${this.baseUrl}/search?${params.toString()}`, {
+    const response = await toolFetch(`${this.baseUrl}/search?${params.toString()}`, {
       method: "GET",
       headers: {
         "User-Agent": "SerpstackTool/1.0"
@@ -433,7 +435,7 @@ export class SerpstackTool {
         ...(limit && { limit: limit.toString() })
       });
 
-      const response = await fetch(`${this.baseUrl}/locations?${params.toString()}`, {
+      const response = await toolFetch(`${this.baseUrl}/locations?${params.toString()}`, {
         method: "GET",
         headers: {
           "User-Agent": "SerpstackTool/1.0"
@@ -474,7 +476,7 @@ export class SerpstackTool {
   // Utility method to validate API key
   async validateApiKey(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/search?access_key=${this.apiKey}&query=test`, {
+      const response = await toolFetch(`${this.baseUrl}/search?access_key=${this.apiKey}&query=test`, {
         method: "GET"
       });
 
@@ -490,7 +492,7 @@ export class SerpstackTool {
     try {
       // Note: Serpstack doesn't have a dedicated account endpoint,
       // so we make a minimal request and check the response for usage info
-      const response = await fetch(`${this.baseUrl}/search?access_key=${this.apiKey}&query=test&num=1`, {
+      const response = await toolFetch(`${this.baseUrl}/search?access_key=${this.apiKey}&query=test&num=1`, {
         method: "GET"
       });
 
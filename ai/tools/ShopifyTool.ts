@@ -2,6 +2,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export interface ShopifyConfig {
   storeDomain: string;
   accessToken: string;
@@ -191,7 +193,7 @@ export class ShopifyTool {
   private async getStoreDomain(accessToken: string): Promise<string | null> {
     try {
       // Use the shop endpoint to get store information
-      const response = await fetch('https://api.shopify.com/admin/api/2024-10/shop.json', {
+      const response = await toolFetch('https://api.shopify.com/admin/api/2024-10/shop.json', {
         headers: {
           'X-Shopify-Access-Token': accessToken
         }
@@ -244,7 +246,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -322,7 +324,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -402,7 +404,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query: mutation })
@@ -478,7 +480,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query: mutation })
@@ -534,7 +536,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query: mutation })
@@ -594,7 +596,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -680,7 +682,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -768,7 +770,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query: mutation })
@@ -832,7 +834,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -897,7 +899,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -970,7 +972,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query: mutation })
@@ -1029,7 +1031,7 @@ export class ShopifyTool {
       }
     `;
 
-    const response = await fetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
+    const response = await toolFetch(`https://${storeDomain}/admin/api/2024-10/graphql.json`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ query })
@@ -1,8 +1,11 @@
 import { FunctionDeclaration, Type } from "@google/genai";
-import { WebClient } from "@slack/web-api";
 import { RTMClient } from "@slack/rtm-api";
+import { WebClient } from "@slack/web-api";
+
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { getToolSignal } from "../tool-cancellation";
+
 export interface SlackToolConfig {
   botToken?: string; // Make optional as OAuth might be used
   userToken?: string;
@@ -338,8 +341,14 @@ export class SlackTool {
         throw new Error("Slack bot token or OAuth token is required for this action.");
       }
 
+      // WebClient retries on its own, so every attempt checks the turn's signal before it is sent
+      const signal = getToolSignal();
       this.webClient = new WebClient(token, {
-        retryConfig: this.config.retryConfig || { retries: 3, factor: 2 }
+        retryConfig: this.config.retryConfig || { retries: 3, factor: 2 },
+        requestInterceptor: (request) => {
+          signal?.throwIfAborted();
+          return signal ? { ...request, signal } : request;
+        },
       });
       
       // Check rate limits
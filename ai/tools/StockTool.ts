@@ -1,5 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolCachePolicy } from "../types";
+
 export class StockTool {
   constructor() {}
 
@@ -83,7 +86,7 @@ export class StockTool {
       
       console.log(`📈 Fetching data for ${symbol} (${period})`);
       
-      const response = await fetch(url);
+      const response = await toolFetch(url);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
@@ -148,7 +151,7 @@ export class StockTool {
 
   private async fetchYahooRange(symbol: string, range: string, interval: string): Promise<Array<{ timestamp: number; date: string; close: number }>> {
     const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=${encodeURIComponent(range)}&interval=${encodeURIComponent(interval)}&includePrePost=true&events=div%2Csplit`;
-    const response = await fetch(url, { headers: { 'Cache-Control': 'no-cache' } });
+    const response = await toolFetch(url, { headers: { 'Cache-Control': 'no-cache' } });
     if (!response.ok) throw new Error(`HTTP ${response.status}`);
     const data = await response.json();
     const result = data.chart?.result?.[0];
@@ -173,7 +176,7 @@ export class StockTool {
       const apiKey = 'demo';
       const url = `https://www.alphavantage.co/query?function=OVERVIEW&symbol=${symbol}&apikey=${apiKey}`;
       
-      const response = await fetch(url);
+      const response = await toolFetch(url);
       const data = await response.json();
       
       if (data.Symbol) {
@@ -203,7 +206,7 @@ export class StockTool {
       // Use free news API (you might want to replace with a better source)
       const url = `https://api.rss2json.com/v1/api.json?rss_url=https://feeds.finance.yahoo.com/rss/2.0/headline?s=${symbol}&region=US&lang=en-US`;
       
-      const response = await fetch(url);
+      const response = await toolFetch(url);
       const data = await response.json();
       
       if (data.status === 'ok' && data.items) {
@@ -235,6 +238,12 @@ export class StockTool {
     return value?.toString() || '0';
   }
 
+  // Intraday quotes go stale within a minute; longer history barely moves
+  getCachePolicy(args: any): ToolCachePolicy {
+    const period = String(args?.period || "1D").toUpperCase();
+    return { ttlSeconds: period === "1D" || period === "5D" ? 60 : 15 * 60, scope: "global" };
+  }
+
   async execute(args: any): Promise<any> {
     try {
       const symbol = args.symbol.toUpperCase();
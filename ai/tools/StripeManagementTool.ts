@@ -1,23 +1,43 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import axios, { AxiosInstance } from 'axios';
 
+import { withToolSignal } from "../tool-cancellation";
+import { ToolRiskLevel } from "../types";
+
 interface Tool {
   getDefinition(): FunctionDeclaration;
   execute(args: any): Promise<any>;
+  getRiskLevel?(args: any): ToolRiskLevel;
 }
 
+// Actions that move money or destroy billing data
+const HIGH_RISK_ACTIONS = [
+  'create_refund',
+  'create_transfer',
+  'create_payout',
+  'create_charge',
+  'confirm_payment_intent',
+  'capture_payment_intent',
+  'pay_invoice',
+  'void_invoice',
+  'cancel_subscription',
+  'cancel_subscription_schedule',
+  'close_dispute',
+  'update_account',
+];
+
 export class StripeManagementTool implements Tool {
   private apiClient: AxiosInstance;
   private baseUrl = 'https://api.stripe.com/v1';
 
   constructor(apiKey: string) {
-    this.apiClient = axios.create({
+    this.apiClient = withToolSignal(axios.create({
       baseURL: this.baseUrl,
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/x-www-form-urlencoded'
       }
-    });
+    }));
   }
 
   getDefinition(): FunctionDeclaration {
@@ -210,6 +230,17 @@ export class StripeManagementTool implements Tool {
     };
   }
 
+  getRiskLevel(args: any): ToolRiskLevel {
+    const action: string = args?.action || '';
+    if (HIGH_RISK_ACTIONS.includes(action) || action.startsWith('delete_')) {
+      return 'high';
+    }
+    if (!action.startsWith('get_') && !action.startsWith('list_') && action !== 'verify_webhook_signature') {
+      return 'medium';
+    }
+    return 'low';
+  }
+
   async execute(args: any): Promise<any> {
     try {
       const startTime = Date.now();
@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
+import { toolFetch } from "../tool-cancellation";
+
 interface Tool {
   getDefinition(): FunctionDeclaration;
   execute(args: any): Promise<any>;
@@ -725,7 +727,7 @@ export class SupabaseTool implements Tool {
       throw new Error('Supabase management token is not provided.');
     }
 
-    const response = await fetch('https://api.supabase.com/v1/projects', {
+    const response = await toolFetch('https://api.supabase.com/v1/projects', {
       headers: {
         'Authorization': `Bearer ${this.managementToken}`,
         'Content-Type': 'application/json'
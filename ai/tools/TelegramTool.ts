@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class TelegramTool {
   private baseUrl: string = "https://api.telegram.org/bot";
   private userAgent: string = "TelegramTool/1.0";
@@ -309,7 +311,7 @@ export class TelegramTool {
           'User-Agent': this.userAgent
         };
 
-        const response = await fetch(url, {
+        const response = await toolFetch(url, {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody),
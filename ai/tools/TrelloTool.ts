@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export interface TrelloConfig {
   apiKey: string;
   token: string;
@@ -523,7 +525,7 @@ export class TrelloTool {
 
     if (method === 'GET') {
       const finalUrl = `${url}?${params.toString()}`;
-      const response = await fetch(finalUrl, config);
+      const response = await toolFetch(finalUrl, config);
       return response.json();
     } else {
       if (body) {
@@ -532,7 +534,7 @@ export class TrelloTool {
         config.body = params.toString();
         config.headers = { 'Content-Type': 'application/x-www-form-urlencoded' };
       }
-      const response = await fetch(url, config);
+      const response = await toolFetch(url, config);
       return response.json();
     }
   }
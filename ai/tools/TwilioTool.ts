@@ -1,5 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { withToolSignal } from "../tool-cancellation";
+import { ToolRiskLevel } from "../types";
+
 export class TwilioTool {
   private twilio: any;
   private accountSid: string;
@@ -17,7 +20,10 @@ export class TwilioTool {
     try {
       // Use proper import instead of require
       const twilio = require('twilio');
-      this.twilio = twilio(accountSid, authToken);
+      // The SDK's axios client gets the turn's signal, so stopping the turn aborts a send that has not gone out
+      const httpClient = new twilio.RequestClient();
+      withToolSignal(httpClient.axios);
+      this.twilio = twilio(accountSid, authToken, { httpClient });
       console.log("✅ Twilio client initialized successfully");
     } catch (error) {
       console.error("❌ Failed to initialize Twilio client:", error);
@@ -25,6 +31,30 @@ export class TwilioTool {
     }
   }
 
+  // Every Twilio function is registered separately, so the risk depends on the function name
+  getRiskLevel(functionName: string, args: any): ToolRiskLevel {
+    const action: string = args?.action || "";
+    switch (functionName) {
+      case "send_sms":
+      case "send_whatsapp":
+      case "make_voice_call":
+      case "send_fax":
+        return "high";
+      case "manage_phone_numbers":
+        if (action === "purchase" || action === "release") return "high";
+        return action === "update" ? "medium" : "low";
+      case "manage_conversations":
+        if (action === "delete" || action === "send_message") return "high";
+        return ["create", "update", "add_participant", "remove_participant"].includes(action) ? "medium" : "low";
+      case "phone_verification":
+        return action === "check_verification" || action === "list_services" ? "low" : "medium";
+      case "create_video_room":
+        return "medium";
+      default:
+        return "low";
+    }
+  }
+
   // SMS Messaging functionality
   getSMSDefinition(): FunctionDeclaration {
     return {
@@ -0,0 +1,185 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+import {
+  createUserMemory,
+  deleteUserMemories,
+  getUserMemories,
+  updateUserMemory,
+  userMemoryCategories,
+  UserMemoryCategory,
+} from "@/db/queries";
+import { UserMemory } from "@/db/schema";
+
+import { MAX_MEMORIES_PER_USER, normalizeMemoryContent, searchMemories } from "../user-memory";
+
+// remember / recall / forget over the user's long-term memory
+export class UserMemoryTool {
+  private userId: string;
+  private chatId?: string;
+  private onChange: (memories: UserMemory[]) => void;
+
+  constructor(userId: string, chatId: string | undefined, onChange: (memories: UserMemory[]) => void) {
+    this.userId = userId;
+    this.chatId = chatId;
+    this.onChange = onChange;
+  }
+
+  getRememberDefinition(): FunctionDeclaration {
+    return {
+      name: "remember",
+      description:
+        "Save a lasting fact about the user to long-term memory so it is available in future chats: personal facts, preferences, people they work with, or projects they are running. Only store information the user would expect you to keep; never store passwords, keys or other secrets. To correct a memory, pass its memoryId.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          content: {
+            type: Type.STRING,
+            description: "The fact to remember, written as a short standalone sentence, e.g. 'Prefers replies in bullet points'",
+          },
+          category: {
+            type: Type.STRING,
+            enum: [...userMemoryCategories],
+            description: "Kind of memory (default: fact)",
+          },
+          memoryId: {
+            type: Type.STRING,
+            description: "Id of an existing memory to update instead of adding a new one",
+          },
+        },
+        required: ["content"],
+      },
+    };
+  }
+
+  getRecallDefinition(): FunctionDeclaration {
+    return {
+      name: "recall",
+      description:
+        "Search what you remember about the user from earlier chats. Returns matching memories with their ids. Leave query empty to list everything.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: {
+            type: Type.STRING,
+            description: "Words to search for, e.g. 'manager' or 'travel preferences'",
+          },
+          category: {
+            type: Type.STRING,
+            enum: [...userMemoryCategories],
+            description: "Only return memories of this kind",
+          },
+        },
+      },
+    };
+  }
+
+  getForgetDefinition(): FunctionDeclaration {
+    return {
+      name: "forget",
+      description:
+        "Delete memories about the user, e.g. when they ask you to forget something or a fact is no longer true. Use recall first to find the memory ids.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          memoryIds: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Ids of the memories to delete",
+          },
+        },
+        required: ["memoryIds"],
+      },
+    };
+  }
+
+  async executeRemember(args: any): Promise<any> {
+    const content = typeof args?.content === "string" ? normalizeMemoryContent(args.content) : "";
+    if (!content) {
+      return { success: false, error: "content is required." };
+    }
+    const category: UserMemoryCategory = userMemoryCategories.includes(args?.category) ? args.category : "fact";
+
+    try {
+      if (typeof args?.memoryId === "string" && args.memoryId) {
+        const updated = await updateUserMemory({ id: args.memoryId, userId: this.userId, category, content });
+        if (!updated) {
+          return { success: false, error: `No memory found with id "${args.memoryId}".` };
+        }
+        await this.refresh();
+        return { success: true, action: "updated", memory: this.toResult(updated) };
+      }
+
+      const memories = await getUserMemories(this.userId);
+      const duplicate = memories.find((memory) => memory.content.toLowerCase() === content.toLowerCase());
+      if (duplicate) {
+        return { success: true, action: "unchanged", message: "Already remembered.", memory: this.toResult(duplicate) };
+      }
+      if (memories.length >= MAX_MEMORIES_PER_USER) {
+        return {
+          success: false,
+          error: `Memory is full (${MAX_MEMORIES_PER_USER} items). Forget something outdated first, or update an existing memory.`,
+        };
+      }
+
+      const created = await createUserMemory({ userId: this.userId, category, content, sourceChatId: this.chatId });
+      this.onChange([created, ...memories]);
+      return { success: true, action: "created", memory: this.toResult(created) };
+    } catch (error: unknown) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async executeRecall(args: any): Promise<any> {
+    try {
+      let memories = await getUserMemories(this.userId);
+      if (userMemoryCategories.includes(args?.category)) {
+        memories = memories.filter((memory) => memory.category === args.category);
+      }
+      const query = typeof args?.query === "string" ? args.query.trim() : "";
+      const results = query ? searchMemories(memories, query) : memories;
+      return {
+        success: true,
+        count: results.length,
+        memories: results.map((memory) => this.toResult(memory)),
+        message: results.length === 0 ? "Nothing remembered that matches." : undefined,
+      };
+    } catch (error: unknown) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async executeForget(args: any): Promise<any> {
+    const ids: string[] = Array.isArray(args?.memoryIds)
+      ? args.memoryIds.filter((id: unknown) => typeof id === "string" && id)
+      : [];
+    if (ids.length === 0) {
+      return { success: false, error: "memoryIds is required. Use recall to find them." };
+    }
+
+    try {
+      const deleted = await deleteUserMemories({ userId: this.userId, ids });
+      await this.refresh();
+      return {
+        success: deleted > 0,
+        deleted,
+        error: deleted === 0 ? "None of those memories exist." : undefined,
+      };
+    } catch (error: unknown) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    this.onChange(await getUserMemories(this.userId));
+  }
+
+  private toResult(memory: UserMemory) {
+    return {
+      id: memory.id,
+      category: memory.category,
+      content: memory.content,
+      sourceChatId: memory.sourceChatId || undefined,
+      updatedAt: memory.updatedAt,
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class VercelTool {
   private apiKey: string;
   private baseUrl: string = "https://api.vercel.com";
@@ -165,7 +167,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v13/deployments`, {
+    const response = await toolFetch(`${this.baseUrl}/v13/deployments`, {
       method: 'POST',
       headers,
       body: JSON.stringify(deploymentData)
@@ -204,7 +206,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v6/deployments?${params}`, {
+    const response = await toolFetch(`${this.baseUrl}/v6/deployments?${params}`, {
       method: 'GET',
       headers
     });
@@ -235,7 +237,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v13/deployments/${args.deploymentId}`, {
+    const response = await toolFetch(`${this.baseUrl}/v13/deployments/${args.deploymentId}`, {
       method: 'GET',
       headers
     });
@@ -266,7 +268,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v12/deployments/${args.deploymentId}/cancel`, {
+    const response = await toolFetch(`${this.baseUrl}/v12/deployments/${args.deploymentId}/cancel`, {
       method: 'PATCH',
       headers
     });
@@ -298,7 +300,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v9/projects?${params}`, {
+    const response = await toolFetch(`${this.baseUrl}/v9/projects?${params}`, {
       method: 'GET',
       headers
     });
@@ -346,7 +348,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v10/projects`, {
+    const response = await toolFetch(`${this.baseUrl}/v10/projects`, {
       method: 'POST',
       headers,
       body: JSON.stringify(projectData)
@@ -389,7 +391,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v10/projects/${args.projectName}`, {
+    const response = await toolFetch(`${this.baseUrl}/v10/projects/${args.projectName}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify(updateData)
@@ -421,7 +423,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v10/projects/${args.projectName}`, {
+    const response = await toolFetch(`${this.baseUrl}/v10/projects/${args.projectName}`, {
       method: 'DELETE',
       headers
     });
@@ -450,7 +452,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v5/domains?${params}`, {
+    const response = await toolFetch(`${this.baseUrl}/v5/domains?${params}`, {
       method: 'GET',
       headers
     });
@@ -491,7 +493,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v10/projects/${args.projectName}/domains`, {
+    const response = await toolFetch(`${this.baseUrl}/v10/projects/${args.projectName}/domains`, {
       method: 'POST',
       headers,
       body: JSON.stringify(domainData)
@@ -529,7 +531,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v9/projects/${args.projectName}/domains/${args.domain}`, {
+    const response = await toolFetch(`${this.baseUrl}/v9/projects/${args.projectName}/domains/${args.domain}`, {
       method: 'DELETE',
       headers
     });
@@ -562,7 +564,7 @@ export class VercelTool {
 
     if (args.teamId) headers['X-Vercel-Team-Id'] = args.teamId;
 
-    const response = await fetch(`${this.baseUrl}/v3/deployments/${args.deploymentId}/events?${params}`, {
+    const response = await toolFetch(`${this.baseUrl}/v3/deployments/${args.deploymentId}/events?${params}`, {
       method: 'GET',
       headers
     });
@@ -586,7 +588,7 @@ export class VercelTool {
     const params = new URLSearchParams();
     if (args.limit) params.append('limit', args.limit.toString());
 
-    const response = await fetch(`${this.baseUrl}/v2/teams?${params}`, {
+    const response = await toolFetch(`${this.baseUrl}/v2/teams?${params}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -1,5 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolCachePolicy } from "../types";
+
 export class WeatherTool {
   constructor() {}
 
@@ -38,7 +41,7 @@ export class WeatherTool {
       const geocodeUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1&language=en&format=json`;
       
       console.log(`🌍 Geocoding: "${location}"`);
-      const response = await fetch(geocodeUrl);
+      const response = await toolFetch(geocodeUrl);
       const data = await response.json();
       
       if (!data.results || data.results.length === 0) {
@@ -136,6 +139,11 @@ export class WeatherTool {
     return days[date.getDay()];
   }
 
+  // Conditions and forecasts change slowly enough to reuse for a few minutes
+  getCachePolicy(): ToolCachePolicy {
+    return { ttlSeconds: 10 * 60, scope: "global" };
+  }
+
   async execute(args: any): Promise<any> {
     try {
       console.log(`⛅ Getting weather for: "${args.location}"`);
@@ -177,7 +185,7 @@ export class WeatherTool {
       const weatherUrl = `${baseUrl}?${params}`;
       
       console.log(`🌤 Fetching weather data...`);
-      const response = await fetch(weatherUrl);
+      const response = await toolFetch(weatherUrl);
       const data = await response.json();
 
       if (!response.ok) {
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class WordPressTool {
   private siteUrl: string;
   private username: string;
@@ -337,7 +339,7 @@ export class WordPressTool {
     
     try {
       // Test if WordPress REST API is available
-      const response = await fetch(`${baseUrl}/wp-json/wp/v2`);
+      const response = await toolFetch(`${baseUrl}/wp-json/wp/v2`);
       
       if (response.ok) {
         const data = await response.json();
@@ -608,7 +610,7 @@ export class WordPressTool {
 
     const credentials = Buffer.from(`${this.username}:${this.applicationPassword}`).toString('base64');
     
-    const response = await fetch(`${this.baseUrl}/media`, {
+    const response = await toolFetch(`${this.baseUrl}/media`, {
       method: 'POST',
       headers: {
         'Authorization': `Basic ${credentials}`,
@@ -930,7 +932,7 @@ export class WordPressTool {
   private async getSiteInfo(args: any): Promise<any> {
     try {
       const [siteInfo, userInfo] = await Promise.all([
-        fetch(`${this.siteUrl}/wp-json`).then(r => r.json()),
+        toolFetch(`${this.siteUrl}/wp-json`).then(r => r.json()),
         this.makeRequest('GET', '/users/me').catch(() => null)
       ]);
 
@@ -1051,7 +1053,7 @@ export class WordPressTool {
     }
 
     try {
-      const response = await fetch(url, options);
+      const response = await toolFetch(url, options);
 
       if (!response.ok) {
         const errorText = await response.text();
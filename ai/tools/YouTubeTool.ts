@@ -1,5 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+import { ToolCachePolicy } from "../types";
+
 export class YouTubeTool {
   constructor() {}
 
@@ -76,6 +79,26 @@ export class YouTubeTool {
     };
   }
 
+  // Transcripts never change; metadata and searches are reused for a while
+  getCachePolicy(args: any): ToolCachePolicy | null {
+    switch (args?.action) {
+      case "get_video_transcript":
+        return { ttlSeconds: 24 * 60 * 60, scope: "global" };
+      case "get_video_details":
+      case "get_channel_info":
+        return { ttlSeconds: 60 * 60, scope: "global" };
+      case "get_video_comments":
+        return { ttlSeconds: 15 * 60, scope: "global" };
+      case "search_videos":
+      case "search_channels":
+      case "get_trending_videos":
+      case "get_channel_videos":
+        return { ttlSeconds: 30 * 60, scope: "global" };
+      default:
+        return null;
+    }
+  }
+
   async execute(args: any): Promise<any> {
     try {
       console.log(`📺 YouTube operation: ${args.action}`);
@@ -176,7 +199,7 @@ export class YouTubeTool {
       ...options.headers
     };
 
-    const response = await fetch(url, {
+    const response = await toolFetch(url, {
       method: options.method || 'GET',
       headers,
       body: options.body
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class ZapierTool {
   private baseUrl: string = "https://hooks.zapier.com/hooks/catch";
   private userAgent: string = "ZapierTool/1.0";
@@ -175,7 +177,7 @@ export class ZapierTool {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-        const response = await fetch(webhookUrl, {
+        const response = await toolFetch(webhookUrl, {
           ...requestConfig,
           signal: controller.signal
         });
@@ -1,5 +1,7 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 
+import { toolFetch } from "../tool-cancellation";
+
 export class ZendeskTool {
   private subdomain: string;
   private email: string;
@@ -784,7 +786,7 @@ export class ZendeskTool {
       options.body = JSON.stringify(data);
     }
 
-    const response = await fetch(url, options);
+    const response = await toolFetch(url, options);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -1,6 +1,8 @@
 import { FunctionDeclaration, Type } from "@google/genai";
 import { getValidOAuthAccessToken } from "@/lib/oauth-refresh";
 
+import { toolFetch } from "../tool-cancellation";
+
 export interface ZoomConfig {
   apiKey: string;
   apiSecret: string;
@@ -233,7 +235,7 @@ export class ZoomTool {
       };
     } else {
       // Fall back to API key/secret authentication
-      const response = await fetch('https://zoom.us/oauth/token', {
+      const response = await toolFetch('https://zoom.us/oauth/token', {
         method: 'POST',
         headers: {
           'Authorization': `Basic ${Buffer.from(`${this.apiKey}:${this.apiSecret}`).toString('base64')}`,
@@ -269,7 +271,7 @@ export class ZoomTool {
       config.body = JSON.stringify(body);
     }
 
-    const response = await fetch(`${this.baseUrl}${endpoint}`, config);
+    const response = await toolFetch(`${this.baseUrl}${endpoint}`, config);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
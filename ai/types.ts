@@ -16,6 +16,13 @@ export interface Message {
   toolResults?: ToolResult[];
   duration?: number; // Duration in ms for assistant's thought/response
   attachments?: Attachment[];
+  pendingApproval?: ToolApprovalRequest; // Set while a high-risk tool call waits for the user
+  stopped?: boolean; // The user stopped the response before it finished
+  cachedTools?: Record<string, string>; // Tool name to when its result was cached, for results reused from the tool cache
+  delegations?: Delegation[]; // Sub-agent runs started with delegate_task
+  plan?: AgentPlan; // Step plan proposed in plan mode, with the status of each step
+  research?: ResearchJob[]; // Deep research runs started with deep_research
+  citations?: Citation[]; // Sources the response cites inline as [^id]
 }
 
 export interface ToolCall {
@@ -28,6 +35,8 @@ export interface ToolResult {
   toolCallId: string;
   result: any;
   error?: string;
+  errorKind?: ToolErrorKind;
+  cachedAt?: string; // Set when the result was served from the tool cache
 }
 
 export interface AgentMemory {
@@ -35,7 +44,142 @@ export interface AgentMemory {
   lastUpdated: number;
 }
 
+export type ToolRiskLevel = "low" | "medium" | "high";
+
+// Shared failure categories for tool calls; see ai/tool-errors.ts
+export type ToolErrorKind =
+  | "auth_expired"
+  | "rate_limited"
+  | "not_found"
+  | "invalid_args"
+  | "upstream_unavailable"
+  | "permission_denied";
+
+export interface ToolApprovalRequest {
+  approvalId: string;
+  toolCalls: Array<{
+    id: string;
+    name: string;
+    args: any;
+    riskLevel: ToolRiskLevel;
+    integration: string;
+    reason?: string; // Why a call that would normally run on its own needs confirmation
+  }>;
+}
+
+export interface ToolApprovalDecision {
+  toolCallId: string;
+  decision: "approve" | "reject";
+  args?: any; // Edited arguments, only used when approving
+}
+
 export interface Tool {
   getDefinition(): FunctionDeclaration;
   execute(args: any): Promise<any>;
+  // Risk of a specific call; tools that do not declare one are treated as low risk
+  getRiskLevel?(args: any): ToolRiskLevel;
+  // Read-only calls whose results can be reused; tools that do not declare one are never cached
+  getCachePolicy?(args: any): ToolCachePolicy | null;
+}
+
+export interface ToolCachePolicy {
+  ttlSeconds: number;
+  // "user" for calls made with the user's own credentials, so results are never shared between users
+  scope: "global" | "user";
+}
+
+export type DelegationStatus = "running" | "completed" | "budget_exceeded" | "failed" | "stopped";
+
+export interface DelegationStep {
+  kind: "tool" | "text";
+  toolName?: string;
+  status?: "running" | "done" | "failed"; // Tool steps only
+  content?: string; // Text the sub-agent wrote, or a tool's error
+}
+
+// Progress of a delegate_task run, sent to the client as it changes and saved with the assistant message
+export interface Delegation {
+  id: string; // The delegate_task call id
+  task: string;
+  tools: string[];
+  status: DelegationStatus;
+  steps: DelegationStep[];
+  output?: string;
+}
+
+export type PlanStatus = "proposed" | "running" | "completed" | "stopped";
+
+export type PlanStepStatus = "pending" | "in_progress" | "done" | "failed" | "skipped";
+
+export interface PlanStep {
+  id: string;
+  title: string;
+  tools: string[]; // Tools expected to carry out the step; used to match tool calls to steps
+  status: PlanStepStatus;
+}
+
+export type ResearchStatus = "running" | "completed" | "failed" | "stopped";
+
+export type ResearchPhase = "planning" | "searching" | "reading" | "analyzing" | "writing" | "done";
+
+export type ResearchConfidence = "high" | "medium" | "low";
+
+export interface ResearchSource {
+  id: number; // Cited in the report as [id]
+  url: string;
+  title: string;
+  domain: string;
+  snippet: string;
+  foundBy: string[]; // Search tools that returned it
+  score: number; // 0 to 1
+  read: boolean; // The page itself was fetched and used, not only its snippet
+  publishedAt?: string;
+}
+
+export interface ResearchSection {
+  heading: string;
+  content: string; // Markdown citing sources as [id]
+  confidence: ResearchConfidence;
+  sourceIds: number[];
+}
+
+export interface ResearchReport {
+  title: string;
+  summary: string;
+  sections: ResearchSection[];
+  openQuestions: string[];
+  sources: ResearchSource[];
+  generatedAt: string;
+}
+
+// Progress of a deep_research run, sent to the client as it changes and saved with the assistant message
+export interface ResearchJob {
+  id: string;
+  question: string;
+  status: ResearchStatus;
+  phase: ResearchPhase;
+  iteration: number;
+  subQuestions: string[];
+  searches: number;
+  sourcesFound: number;
+  pagesRead: number;
+  report?: ResearchReport;
+  error?: string;
+}
+
+// A plan-mode turn first proposes this plan; it runs once the user approves it, possibly edited
+export interface AgentPlan {
+  id: string;
+  goal: string;
+  status: PlanStatus;
+  steps: PlanStep[];
+}
+
+// A URL a search or page-reading tool returned during a turn; the model cites it inline as [^id]
+export interface Citation {
+  id: number;
+  url: string;
+  title: string;
+  snippet?: string;
+  toolName: string;
 }
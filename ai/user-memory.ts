@@ -0,0 +1,73 @@
+//ai/user-memory.ts
+import { UserMemory } from "@/db/schema";
+
+export const MAX_MEMORIES_PER_USER = 200;
+export const MAX_MEMORY_LENGTH = 1000;
+const DEFAULT_PROMPT_MEMORIES = 12;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "you", "your", "are", "can", "will", "what", "when",
+  "how", "please", "about", "into", "all", "any", "use", "have", "has", "was", "were", "not", "but", "its",
+  "our", "they", "them", "then", "than", "there", "their", "some", "want", "need", "like", "also", "just",
+  "user", "users", "my", "me",
+]);
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+      .map((token) => (token.length > 4 && token.endsWith("s") ? token.slice(0, -1) : token))
+  );
+}
+
+export function normalizeMemoryContent(content: string): string {
+  return content.replace(/\s+/g, " ").trim().slice(0, MAX_MEMORY_LENGTH);
+}
+
+// Memories whose words overlap the query, best match first
+export function searchMemories(memories: UserMemory[], query: string, limit = 20): UserMemory[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.size === 0) return memories.slice(0, limit);
+
+  return memories
+    .map((memory) => {
+      const tokens = tokenize(memory.content);
+      let score = 0;
+      queryTokens.forEach((token) => {
+        if (tokens.has(token)) score++;
+      });
+      return { memory, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ memory }) => memory);
+}
+
+// Picks what goes into the system instruction: matches for the current conversation first,
+// then standing preferences, then the most recently updated memories
+export function selectRelevantMemories(memories: UserMemory[], query: string, limit = DEFAULT_PROMPT_MEMORIES): UserMemory[] {
+  if (memories.length <= limit) return memories;
+
+  const selected = new Map<string, UserMemory>();
+  const add = (list: UserMemory[]) => {
+    for (const memory of list) {
+      if (selected.size >= limit) return;
+      selected.set(memory.id, memory);
+    }
+  };
+  add(searchMemories(memories, query, limit));
+  add(memories.filter((memory) => memory.category === "preference"));
+  add(memories);
+  return Array.from(selected.values());
+}
+
+export function formatMemoriesForPrompt(memories: UserMemory[]): string {
+  if (memories.length === 0) return "";
+  const lines = memories.map((memory) => `- [${memory.category}] ${memory.content} (id: ${memory.id})`);
+  return `USER MEMORY (what you remember about this user from earlier chats; use it naturally, do not recite it):
+${lines.join("\n")}
+Use the remember tool when the user shares a lasting fact or preference, and forget when they ask you to drop something or it is no longer true.`;
+}
@@ -1,10 +1,39 @@
 import { revalidatePath } from "next/cache"; 
-import { NextRequest, NextResponse } from "next/server";
-
+import { NextRequest, NextResponse, unstable_after } from "next/server";
+
+import { AgentBudget, AgentBudgetLimits } from "@/ai/agent-budget";
+import { AttachmentResolver } from "@/ai/attachments";
+import { CitationTracker, CITATION_TOOLS } from "@/ai/citations";
+import { buildCompactedHistory, elideToolResponses, isCompactionEnabled, messagesToContents } from "@/ai/conversation-compaction";
+import {
+  createSecretScrubbingMiddleware,
+  createToolMiddlewarePipeline,
+  ToolCallOutcome,
+  ToolMiddlewareContext,
+  ToolMiddlewarePipeline,
+} from "@/ai/custom-middleware";
 import { AIAgent } from "@/ai/jotium";
-import { Message } from "@/ai/types";
+import { applyPlanEdits, buildPlanExecutionPrompt, PLAN_PROPOSAL_MESSAGE, PlanTracker } from "@/ai/plan-mode";
+import { createOutboundGuardMiddleware, createProvenanceMiddleware, TaintTracker } from "@/ai/prompt-injection";
+import { LLMUsage } from "@/ai/providers";
+import { createRedactionMiddleware, loadRedactionVault, Redactor, saveRedactionVault } from "@/ai/redaction";
+import { DEFAULT_REDACTION_POLICY } from "@/ai/redaction-policy";
+import { DEEP_RESEARCH_NAME, DEEP_RESEARCH_TIMEOUT_MS } from "@/ai/research-engine";
+import { DELEGATE_TASK_NAME, DELEGATE_TASK_TIMEOUT_MS } from "@/ai/sub-agent";
+import { applyApprovalDecisions, buildRejectedResult, getIntegrationForTool, requiresApproval } from "@/ai/tool-approval";
+import { assignToolCallIds, executeToolCalls } from "@/ai/tool-executor";
+import { shapeToolResult, UNSHAPED_TOOLS } from "@/ai/tool-result-shaping";
+import { Delegation, Message, PlanStep, ResearchJob, ToolApprovalDecision, ToolApprovalRequest, ToolCall } from "@/ai/types";
 import { auth } from "@/app/(auth)/auth";
-import { getUserById, getUserCustomInstruction, getUserLanguage } from "@/db/queries";
+import {
+  getUserById,
+  getUserCustomInstruction,
+  getUserLanguage,
+  getUserRedactionPolicy,
+  getUserToolApprovalAllowList,
+} from "@/db/queries";
+import { ChatEventStream, formatSseEvent, SSE_HEADERS } from "@/lib/chat-stream";
+import { getChatOwnership, isChatOwner, notFoundResponse } from "@/lib/ownership";
 import { 
   saveChat as saveChatToRedis, 
   saveChatMeta, 
@@ -12,8 +41,19 @@ import {
   deleteChat as deleteChatFromRedis,
   getChatMessages,
   getUserDailyMessageCount,
-  incrementUserDailyMessageCount
+  incrementUserDailyMessageCount,
+  savePendingApproval,
+  getPendingApproval,
+  deletePendingApproval,
+  savePendingPlan,
+  getPendingPlan,
+  deletePendingPlan,
+  saveToolResults,
+  PendingApproval,
+  PendingPlan,
+  StoredToolResult
 } from "@/lib/redis-queries";
+import { loadUserCredentials } from "@/lib/user-credentials";
 import { getUserAIModel } from "@/lib/user-model"; 
 import { generateUUID } from "@/lib/utils";
 
@@ -23,8 +63,23 @@ const planLimits: { [key: string]: number } = {
   "Advanced": Infinity,
 };
 
+// Per-request ceilings for the agent loop
+const planBudgets: { [key: string]: AgentBudgetLimits } = {
+  "Free": { maxToolRounds: 4, maxToolCalls: 12, maxElapsedMs: 90_000, maxInputTokens: 200_000, maxOutputTokens: 16_000 },
+  "Pro": { maxToolRounds: 8, maxToolCalls: 32, maxElapsedMs: 180_000, maxInputTokens: 600_000, maxOutputTokens: 48_000 },
+  "Advanced": { maxToolRounds: 15, maxToolCalls: 80, maxElapsedMs: 300_000, maxInputTokens: 1_500_000, maxOutputTokens: 120_000 },
+};
+
 export async function POST(request: NextRequest) {
-  const { id, messages, regenerate }: { id?: string; messages: Message[]; regenerate?: boolean } = await request.json();
+  const { id, messages: requestMessages, regenerate, refreshTools, approval, planMode, planApproval }: {
+    id?: string;
+    messages: Message[];
+    regenerate?: boolean;
+    refreshTools?: boolean; // Skip the tool cache for this turn
+    approval?: { approvalId: string; decisions: ToolApprovalDecision[] };
+    planMode?: boolean; // Propose a plan for a complex request before running it
+    planApproval?: { planId: string; steps?: PlanStep[] }; // Runs a proposed plan, with the user's edits
+  } = await request.json();
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -33,19 +88,52 @@ export async function POST(request: NextRequest) {
 
   const userId = session.user.id as string;
 
+  // A client-chosen id may start a new chat, but never continue someone else's
+  if (id && (await getChatOwnership(id, userId)) === "foreign") {
+    return notFoundResponse();
+  }
+
   const user = await getUserById(userId);
   const userPlan = user?.plan || "Free";
   const limit = planLimits[userPlan];
+  const budgetLimits = planBudgets[userPlan] || planBudgets["Free"];
   const firstName = user?.firstName;
 
-  const { count, messageLimitResetAt } = await getUserDailyMessageCount(userId);
-  const now = new Date();
-
-  if (messageLimitResetAt && now < new Date(messageLimitResetAt) && count >= limit) {
-    return new Response("Message limit reached.", { status: 429 });
+  // Resuming after an approval, or running an approved plan, continues a message that was already counted
+  let pending: PendingApproval | null = null;
+  let pendingPlan: PendingPlan | null = null;
+  if (approval) {
+    if (!id) {
+      return new Response("Missing chat id", { status: 400 });
+    }
+    pending = await getPendingApproval(id);
+    if (!pending || pending.userId !== userId || pending.approvalId !== approval.approvalId) {
+      return new Response("No pending approval found", { status: 404 });
+    }
+    await deletePendingApproval(id);
+  } else if (planApproval) {
+    if (!id) {
+      return new Response("Missing chat id", { status: 400 });
+    }
+    pendingPlan = await getPendingPlan(id);
+    if (!pendingPlan || pendingPlan.userId !== userId || pendingPlan.planId !== planApproval.planId) {
+      return new Response("No pending plan found", { status: 404 });
+    }
+    await deletePendingPlan(id);
+  } else {
+    const { count, messageLimitResetAt } = await getUserDailyMessageCount(userId);
+    const now = new Date();
+
+    if (messageLimitResetAt && now < new Date(messageLimitResetAt) && count >= limit) {
+      return new Response("Message limit reached.", { status: 429 });
+    }
   }
 
   const chatId = id || generateUUID();
+  const messages: Message[] = pending ? pending.messages : pendingPlan ? pendingPlan.messages : requestMessages;
+  const approvedPlan = pendingPlan ? applyPlanEdits(pendingPlan.plan, planApproval?.steps) : null;
+  const alwaysAllow = await getUserToolApprovalAllowList(userId).catch(() => [] as string[]);
+  const redactionPolicy = await getUserRedactionPolicy(userId).catch(() => DEFAULT_REDACTION_POLICY);
   
   // Use the new function to get the correct model based on current plan
   const model = await getUserAIModel(userId);
@@ -54,356 +142,499 @@ export async function POST(request: NextRequest) {
   const geminiApiKey = process.env.GOOGLE_API_KEY || '';
   
   const agent = new AIAgent(geminiApiKey, userId, undefined, model, language || "en", firstName);
-  await agent.initializeTools(userId);
-  const lastMessage = messages[messages.length - 1];
+  await agent.initializeTools(userId, chatId);
 
-  const attachments = lastMessage.attachments || [];
+  // The turn runs to completion even if the client disconnects; its events can be replayed from Redis
+  const events = new ChatEventStream(chatId, generateUUID(), userId, {
+    userMessage: [...messages].reverse().find((msg) => msg.role === "user"),
+    seed: pending ? { content: pending.fullResponse, thoughts: pending.thoughts } : undefined,
+  });
+  await events.open();
 
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          let conversationHistory: any[];
-          let responseStream;
-          
-          if (
-            attachments.length > 0 &&
-            attachments[0].contentType &&
-            (attachments[0].contentType.startsWith("image/") || attachments[0].contentType === "application/pdf")
-          ) {
-            const fileAttachment = attachments[0];
-            try {
-              const response = await fetch(fileAttachment.url);
-              const arrayBuffer = await response.arrayBuffer();
-              const base64Data = Buffer.from(arrayBuffer).toString('base64');
-
-              const userParts = [
-                { text: lastMessage.content },
-                {
-                  inlineData: {
-                    mimeType: fileAttachment.contentType,
-                    data: base64Data,
-                  },
-                },
-              ];
+  // Saves the chat with the turn's assistant message; new messages count towards the daily limit
+  const saveTurn = async (assistantMessage: Message) => {
+    const finalMessages: Message[] = [...messages, assistantMessage];
 
-              if (fileAttachment.contentType.startsWith("image/")) {
-                userParts.reverse();
-              }
+    if (session.user && session.user.id) {
+      // Increment message count only when not regenerating or continuing an approved action or plan
+      if (!regenerate && !pending && !pendingPlan) {
+        await incrementUserDailyMessageCount(userId);
+      }
 
-              conversationHistory = [{ role: "user", parts: userParts }];
-            } catch (err) {
-              controller.enqueue(
-                `data: ${JSON.stringify({ type: "error", content: "Failed to process file attachment." })}\n\n`
-              );
-              controller.close();
-              return;
-            }
-          } else {
-            conversationHistory = messages.map((msg) => ({
-              role: msg.role === "assistant" ? "model" : msg.role,
-              parts: [{ text: msg.content }],
-            }));
+      // Save to Redis instead of PostgreSQL
+      try {
+        await saveChatToRedis({
+          id: chatId,
+          createdAt: new Date().toISOString(),
+          userId: session.user.id,
+          messages: finalMessages,
+        });
+        // console.log('✅ Chat saved to Redis:', chatId);
+      } catch (error) {
+        console.error('❌ Error saving chat to Redis:', error);
+      }
+
+      // Revalidate only the specific chat page to update message history
+      revalidatePath(`/chat/${chatId}`);
+    }
+  };
+
+  const runTurn = async () => {
+    try {
+      events.emit({ type: "stream-start", turnId: events.turnId });
+
+      // Plan mode: a complex request gets a plan to review first, and the turn ends until the user approves it
+      if (planMode && !pending && !pendingPlan) {
+        const userMessage = [...messages].reverse().find((msg) => msg.role === "user");
+        const plan = userMessage?.content
+          ? await agent.createPlan(userMessage.content).catch((error) => {
+              console.error("Failed to create a plan:", error);
+              return null;
+            })
+          : null;
+        if (plan) {
+          await savePendingPlan({ planId: plan.id, chatId, userId, createdAt: new Date().toISOString(), messages, plan });
+          events.emit({ type: "plan", content: plan });
+          events.emit({ type: "response", content: PLAN_PROPOSAL_MESSAGE });
+          await saveTurn({
+            id: generateUUID(),
+            role: "assistant",
+            content: PLAN_PROPOSAL_MESSAGE,
+            timestamp: Date.now(),
+            plan,
+          });
+          await events.close("completed");
+          return;
+        }
+      }
+
+      let conversationHistory: any[];
+      let responseStream;
+      // Attachments on every turn become file parts; large files go through the Gemini Files API
+      const attachmentResolver = new AttachmentResolver({
+        userId,
+        geminiApiKey,
+        useFilesApi: agent.getProviderName() === "gemini",
+      });
+      
+      if (pending) {
+        // Attachment data was saved as references to keep the pending entry small
+        conversationHistory = await attachmentResolver.restoreContents(pending.conversationHistory);
+      } else {
+        const buildParts = (message: Message) => attachmentResolver.buildMessageParts(message);
+
+        if (isCompactionEnabled()) {
+          // Long chats send a rolling summary in place of their older turns
+          const compacted = await buildCompactedHistory(chatId, messages, (prompt) => agent.generateText(prompt), buildParts);
+          conversationHistory = compacted.contents;
+        } else {
+          conversationHistory = await messagesToContents(messages, buildParts);
+        }
+      }
+
+      // Inject per-user custom instruction as a system-style priming message
+      if (!pending) {
+        try {
+          const customInstruction = await getUserCustomInstruction(userId);
+          if (customInstruction && customInstruction.trim().length > 0) {
+            conversationHistory.unshift({ role: "user", parts: [{ text: `(User Preference) ${customInstruction.trim()}` }] });
           }
+        } catch {}
+      }
+
+      // The approved plan goes with the user's request
+      if (approvedPlan && approvedPlan.steps.length > 0) {
+        const planPart = { text: buildPlanExecutionPrompt(approvedPlan) };
+        const lastTurn = conversationHistory[conversationHistory.length - 1];
+        if (lastTurn?.role === "user") {
+          lastTurn.parts = [...(lastTurn.parts || []), planPart];
+        } else {
+          conversationHistory.push({ role: "user", parts: [planPart] });
+        }
+      }
+
+      let fullResponse = pending?.fullResponse || "";
+      let thoughts = pending?.thoughts || "";
+      let finalToolCalls: any[] = pending?.finalToolCalls || [];
+      let lastAssistantAttachments: any[] | undefined;
+      let pausedForApproval = false;
+      // Tool-result turns added during this request, so earlier ones can be elided as new rounds arrive
+      const toolResponseTurns: Array<{ content: any; refs: string[] }> = [];
+      let lastPendingApproval: ToolApprovalRequest | undefined;
+      const budget = new AgentBudget(budgetLimits, pending?.budgetUsage);
+      // Logging, argument checks, secret scrubbing and tool output rendering all run as middlewares
+      const toolMiddleware = createToolMiddlewarePipeline((name) => agent.getToolsMap().get(name)?.getDefinition());
+      // Sensitive values in tool results become placeholders; the chat's vault fills them back in for tool calls
+      const redactionVault = await loadRedactionVault(chatId);
+      const credentials = await loadUserCredentials(userId).catch(() => ({ apiKeys: {}, oauthTokens: {} }));
+      const redactor = new Redactor(redactionPolicy, redactionVault, [
+        ...Object.values(credentials.apiKeys),
+        ...Object.values(credentials.oauthTokens),
+      ]);
+      toolMiddleware.use(createRedactionMiddleware(redactor));
+      // Third-party content is tagged and quarantined; after reading it, outbound actions need confirmation
+      const taint = new TaintTracker(pending?.taintedBy);
+      toolMiddleware.use(createProvenanceMiddleware(taint));
+      const middlewareContext: ToolMiddlewareContext = {
+        chatId,
+        userId,
+        emit: (event) => events.emit(event),
+        respond: (text, mode = "append") => {
+          events.emit({ type: "response", content: text });
+          if (mode === "append") fullResponse += text;
+          if (mode === "replace") fullResponse = text;
+        },
+      };
+      // Delegated tasks pass placeholders to their own tool calls and get redacted results back; nothing they do
+      // is rendered to the user, so they get these middlewares rather than the whole pipeline. They share this
+      // turn's taint, and as they cannot ask for confirmation, their outbound actions are refused once it is set.
+      agent.setSubAgentToolHandling({
+        middleware: new ToolMiddlewarePipeline()
+          .use(createOutboundGuardMiddleware(taint))
+          .use(createProvenanceMiddleware(taint))
+          .use(createRedactionMiddleware(redactor))
+          .use(createSecretScrubbingMiddleware()),
+        context: middlewareContext,
+        redact: (value) => redactor.redact(value),
+      });
+
+      // A paused tool round is replayed first, with the user's decisions applied
+      let resumedRound: { toolCalls: ToolCall[]; textResponse: string; rejectedIds: Set<string> } | null = null;
+      if (pending && approval) {
+        const { toolCalls, rejectedIds } = applyApprovalDecisions(
+          pending.toolCalls,
+          pending.pendingToolCallIds,
+          approval.decisions || []
+        );
+        resumedRound = { toolCalls, textResponse: pending.textResponse, rejectedIds };
+      }
 
-          // Inject per-user custom instruction as a system-style priming message
-          try {
-            const customInstruction = await getUserCustomInstruction(userId);
-            if (customInstruction && customInstruction.trim().length > 0) {
-              conversationHistory.unshift({ role: "user", parts: [{ text: `(User Preference) ${customInstruction.trim()}` }] });
+      // Sub-agent runs started this turn, by delegation id; the latest progress of each is saved with the message
+      const delegations = new Map<string, Delegation>();
+      // Research jobs started this turn, by job id; saved with their reports so they can be exported later
+      const researchJobs = new Map<string, ResearchJob>();
+      // Sources returned by search and page-reading tools this turn, with the ids the model cites them by
+      const citationTracker = new CitationTracker(pending?.citations);
+      // Step progress of an approved plan, including one carried over from a turn paused for approval
+      const activePlan = approvedPlan?.steps.length ? approvedPlan : pending?.plan;
+      const planTracker = activePlan
+        ? new PlanTracker(activePlan, (plan) => events.emit({ type: "plan", content: plan }))
+        : null;
+      planTracker?.start();
+      let stopped = false;
+      // Text streamed by the current model call that is not part of fullResponse yet
+      let unsavedText = "";
+      try {
+        while (true) {
+          events.signal.throwIfAborted();
+
+          let currentTextResponse = "";
+          let currentToolCalls: any[] = [];
+          let hasToolCalls = false;
+          let usage: LLMUsage | undefined;
+          let toolCallsWithIds: ToolCall[] = [];
+          let rejectedIds = new Set<string>();
+
+          if (resumedRound) {
+            currentTextResponse = resumedRound.textResponse;
+            toolCallsWithIds = resumedRound.toolCalls;
+            currentToolCalls = toolCallsWithIds.map(({ name, args }) => ({ name, args }));
+            rejectedIds = resumedRound.rejectedIds;
+            hasToolCalls = true;
+            resumedRound = null;
+          } else {
+            const responseStream = await agent.generateContentStream(conversationHistory, { signal: events.signal });
+            const toolSelection = agent.getLastToolSelection();
+            if (toolSelection?.enabled) {
+              // Debug aid: which tools the model could see this round
+              events.emit({ type: "tool-exposure", tools: toolSelection.tools, routed: toolSelection.routed, omitted: toolSelection.omitted });
             }
-          } catch {}
-
-          let fullResponse = "";
-          let thoughts = "";
-          let finalToolCalls: any[] = [];
-          let lastAssistantAttachments: any[] | undefined;
-
-          while (true) {
-            const responseStream = await agent.generateContentStream(conversationHistory);
-            let currentTextResponse = "";
-            let currentToolCalls: any[] = [];
-            let hasToolCalls = false;
-
-            for await (const chunk of responseStream) {
-              if (chunk.candidates?.[0]?.content?.parts) {
-                for (const part of chunk.candidates[0].content.parts) {
-                  if (part.text) {
-                    if (part.thought) {
-                      thoughts += part.text;
-                      controller.enqueue(
-                        `data: ${JSON.stringify({ type: "thought", content: part.text })}\n\n`
-                      );
-                    } else {
-                      currentTextResponse += part.text;
-                      controller.enqueue(
-                        `data: ${JSON.stringify({ type: "response", content: part.text })}\n\n`
-                      );
-                    }
-                  }
-                }
+
+            for await (const rawChunk of responseStream) {
+              const chunk = toolMiddleware.onModelChunk(rawChunk);
+              if (chunk.usage) {
+                usage = chunk.usage;
+              }
+              if (chunk.thought) {
+                thoughts += chunk.thought;
+                events.emit({ type: "thought", content: chunk.thought });
+              }
+              if (chunk.text) {
+                currentTextResponse += chunk.text;
+                unsavedText += chunk.text;
+                events.emit({ type: "response", content: chunk.text });
               }
-              if (chunk.functionCalls?.length > 0) {
+              if (chunk.functionCalls && chunk.functionCalls.length > 0) {
                 hasToolCalls = true;
                 currentToolCalls.push(...chunk.functionCalls);
               }
             }
 
             fullResponse += (fullResponse ? " " : "") + currentTextResponse;
+            unsavedText = "";
+            budget.recordUsage(usage);
 
-            if (hasToolCalls) {
-              const toolResults = [];
-              const assistantAttachments = [];
-              let shouldContinueToAgent = true;
-              
-              const toolCallsWithIds = currentToolCalls.map(tc => ({
-                ...tc,
-                id: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-              }));
-              
-              finalToolCalls.push(...toolCallsWithIds);
-              
-              for (const toolCall of toolCallsWithIds) {
-                const toolName = toolCall.functionName || toolCall.name;
-                
-                // Send tool execution start event
-                controller.enqueue(
-                  `data: ${JSON.stringify({ type: "tool-start", toolName })}\n\n`
-                );
-
-                // Handle generate_image tool call directly
-                if (toolName === 'generate_image') {
-                  shouldContinueToAgent = false;
-                  const result = await agent.executeToolCall(toolCall);
-                  
-                  if (result.result.success && result.result.results) {
-                    const imageToolResult = result.result;
-                    for (const imageResult of imageToolResult.results) {
-                      let dataUrl = imageResult.imageDataUrl;
-                      let outputFormat = imageToolResult.settings?.outputFormat || 'png';
-                      let mimeType = `image/${outputFormat}`;
-                      if (!dataUrl && imageResult.imageBase64) {
-                        dataUrl = `data:${mimeType};base64,${imageResult.imageBase64}`;
-                      }
-                      if (dataUrl) {
-                        const attachment = {
-                          url: dataUrl,
-                          name: `generated-image-${Date.now()}.${outputFormat}`,
-                          contentType: mimeType,
-                        };
-                        
-                        // Stream the image data directly to the client for immediate display
-                        controller.enqueue(
-                          `data: ${JSON.stringify({ type: "image_generation_result", content: attachment })}\n\n`
-                        );
-
-                        // Also add to assistantAttachments to save in history
-                        assistantAttachments.push(attachment);
-                      }
-                    }
-                    
-                    const successMessage = `I've generated ${imageToolResult.results.length} image(s) for you.`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: successMessage })}\n\n`
-                    );
-                    fullResponse = successMessage;
-                  } else {
-                    const errorMessage = `I encountered an error generating the image: ${result.result.error || 'Unknown error'}`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: errorMessage })}\n\n`
-                    );
-                    fullResponse = errorMessage;
-                  }
-                }
-                
-                else if (toolName === 'fire_web_scrape') {
-                  const result = await agent.executeToolCall(toolCall);
-                  const payload = result.result || {};
-                  
-                  if (payload && payload.success) {
-                    // Stream the raw result with a special type for direct display
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "fire_web_scrape_result", content: payload })}\n\n`
-                    );
-                    // Provide a simple confirmation message
-                    const successMessage = `I have successfully scraped the content from the URL.`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: successMessage })}\n\n`
-                    );
-                    fullResponse += successMessage;
-                    
-                    // Add the scraped content to tool results so it gets passed back to the model
-                    toolResults.push({
-                      toolCallId: toolCall.id,
-                      result: payload,
-                      error: undefined
-                    });
-                  } else {
-                    const errorMessage = `I encountered an error scraping the content: ${payload.error || 'Unknown error'}`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: errorMessage })}\n\n`
-                    );
-                    fullResponse += errorMessage;
-                    
-                    // Add the error to tool results so the model knows what happened
-                    toolResults.push({
-                      toolCallId: toolCall.id,
-                      result: { error: payload.error || 'Unknown error', success: false },
-                      error: payload.error || 'Unknown error'
-                    });
-                  }
-                }
-                
-                else if (toolName === 'pdf_generator') {
-                  shouldContinueToAgent = false; // Don't send result back to the model
-                  const result = await agent.executeToolCall(toolCall);
-                  const payload = result.result || {};
-
-                  if (payload && payload.success) {
-                    // The markdown renderer expects the full payload to render the PDF viewer.
-                    const markdownBlock = `\n\n\`\`\`pdf\n${JSON.stringify(payload)}\n\`\`\`\n\n`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: markdownBlock })}\n\n`
-                    );
-                    
-                    // The final message should be simple, not the giant markdown block.
-                    const successMessage = `I have generated the PDF document: "${payload.config?.title || 'Untitled'}". You can view it and download it above.`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: successMessage })}\n\n`
-                    );
-                    fullResponse = successMessage;
-                  } else {
-                    const errorMessage = `I encountered an error generating the PDF: ${payload.error || 'Unknown error'}`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: errorMessage })}\n\n`
-                    );
-                    fullResponse = errorMessage;
-                  }
-                }
-                
-                else if (toolName === 'get_weather' || toolName === 'get_stock_data' || toolName === 'get_map_data') {
-                  const result = await agent.executeToolCall(toolCall);
-                  const payload = result.result || {};
-                  let fenceLang;
-                  if (toolName === 'get_weather') {
-                    fenceLang = 'weather';
-                  } else if (toolName === 'get_stock_data') {
-                    fenceLang = 'stock';
-                  } else if (toolName === 'get_map_data') {
-                    fenceLang = 'map';
-                  }
-                  
-                  if (payload && payload.success) {
-                    const markdownBlock = `\n\n\`\`\`${fenceLang}\n${JSON.stringify(payload)}\n\`\`\`\n\n`;
-                    controller.enqueue(
-                      `data: ${JSON.stringify({ type: "response", content: markdownBlock })}\n\n`
-                    );
-                    fullResponse += markdownBlock;
-                  }
-
-                  toolResults.push({
-                    toolCallId: toolCall.id,
-                    result: payload,
-                    error: undefined
-                  });
-                }
+            const exceededReason = hasToolCalls ? budget.checkBeforeToolRound(currentToolCalls.length) : null;
+            if (exceededReason) {
+              // Stop calling tools and ask the model to wrap up with what it has so far
+              const budgetMessage = budget.describe(exceededReason);
+              events.emit({ type: "budget-exceeded", reason: exceededReason, content: budgetMessage, usage: budget.getUsage(), limits: budget.getLimits() });
 
-                else {
-                  const result = await agent.executeToolCall(toolCall);
-                  toolResults.push(result);
+              if (currentTextResponse) {
+                conversationHistory.push({ role: "model", parts: [{ text: currentTextResponse }] });
+              }
+              conversationHistory.push({ role: "user", parts: [{ text: budget.getSummaryPrompt(exceededReason) }] });
+
+              const summaryStream = await agent.generateContentStream(conversationHistory, { disableTools: true, signal: events.signal });
+              let summaryText = "";
+              for await (const rawChunk of summaryStream) {
+                const chunk = toolMiddleware.onModelChunk(rawChunk);
+                if (chunk.text) {
+                  summaryText += chunk.text;
+                  unsavedText += chunk.text;
+                  events.emit({ type: "response", content: chunk.text });
                 }
               }
+              fullResponse += (fullResponse ? "\n\n" : "") + summaryText;
+              unsavedText = "";
+              break;
+            }
 
-              if (assistantAttachments.length > 0) {
-                lastAssistantAttachments = assistantAttachments;
-              }
+            toolCallsWithIds = assignToolCallIds(currentToolCalls);
+
+            // High-risk calls, and outbound actions after untrusted content was read, pause the turn until the
+            // user approves, edits or rejects them
+            const callsNeedingApproval = toolCallsWithIds.filter(
+              (toolCall) =>
+                requiresApproval(toolCall.name, agent.getToolRiskLevel(toolCall), alwaysAllow) ||
+                taint.requiresConfirmation(toolCall)
+            );
+            if (callsNeedingApproval.length > 0) {
+              const approvalRequest: ToolApprovalRequest = {
+                approvalId: generateUUID(),
+                toolCalls: callsNeedingApproval.map((toolCall) => ({
+                  id: toolCall.id,
+                  name: toolCall.name,
+                  args: toolCall.args,
+                  riskLevel: agent.getToolRiskLevel(toolCall),
+                  integration: getIntegrationForTool(toolCall.name),
+                  reason: taint.requiresConfirmation(toolCall) ? taint.describe() : undefined,
+                })),
+              };
+              await savePendingApproval({
+                approvalId: approvalRequest.approvalId,
+                chatId,
+                userId,
+                createdAt: new Date().toISOString(),
+                messages,
+                conversationHistory: attachmentResolver.toStorableContents(conversationHistory),
+                toolCalls: toolCallsWithIds,
+                pendingToolCallIds: callsNeedingApproval.map((toolCall) => toolCall.id),
+                textResponse: currentTextResponse,
+                fullResponse,
+                thoughts,
+                finalToolCalls,
+                plan: planTracker?.getPlan(),
+                citations: citationTracker.getAll(),
+                taintedBy: taint.getSources(),
+                budgetUsage: budget.getUsage(),
+              });
+              events.emit({ type: "approval-required", content: approvalRequest });
+              pausedForApproval = true;
+              lastPendingApproval = approvalRequest;
+              break;
+            }
+          }
 
-              if (shouldContinueToAgent && toolResults.length > 0) {
-                const modelParts = [];
-                if (currentTextResponse) {
-                  modelParts.push({ text: currentTextResponse });
-                }
-                currentToolCalls.forEach(toolCall => {
-                  modelParts.push({ functionCall: toolCall });
-                });
-                
-                conversationHistory.push({
-                  role: "model",
-                  parts: modelParts,
+          if (hasToolCalls) {
+            finalToolCalls.push(...toolCallsWithIds);
+            budget.recordToolRound(toolCallsWithIds.length);
+
+            // Run every call from this turn concurrently; results come back in call order
+            const executedResults = await executeToolCalls(
+              toolCallsWithIds,
+              async (toolCall, signal) => {
+                if (rejectedIds.has(toolCall.id)) return buildRejectedResult(toolCall);
+                const checked = await toolMiddleware.beforeToolCall(toolCall, middlewareContext);
+                if (checked.result) return checked.result;
+                return agent.executeToolCall(checked.toolCall, signal, {
+                  refreshCache: refreshTools,
+                  onProgress:
+                    toolCall.name === DELEGATE_TASK_NAME
+                      ? (delegation: Delegation) => {
+                          delegations.set(delegation.id, delegation);
+                          events.emit({ type: "delegation", content: delegation });
+                        }
+                      : toolCall.name === DEEP_RESEARCH_NAME
+                      ? (job: ResearchJob) => {
+                          researchJobs.set(job.id, job);
+                          events.emit({ type: "research", content: job });
+                        }
+                      : undefined,
                 });
+              },
+              {
+                signal: events.signal,
+                timeoutOverrides: {
+                  [DELEGATE_TASK_NAME]: DELEGATE_TASK_TIMEOUT_MS,
+                  [DEEP_RESEARCH_NAME]: DEEP_RESEARCH_TIMEOUT_MS,
+                },
+                onStart: (toolCall) => {
+                  // Send tool execution start event
+                  events.emit({ type: "tool-start", toolName: toolCall.name });
+                  planTracker?.recordToolStart(toolCall);
+                },
+                onComplete: (toolCall, result) => planTracker?.recordToolResult(toolCall, result),
+              }
+            );
 
-                conversationHistory.push({
-                  role: "user",
-                  parts: toolResults.map(tr => ({
-                    functionResponse: {
-                      name: toolCallsWithIds.find(tc => tc.id === tr.toolCallId)?.name,
-                      response: tr.result,
-                    },
-                  })),
-                });
-              } else {
-                break; 
+            executedResults.forEach((result, index) => {
+              if (result?.cachedAt) {
+                events.emit({ type: "tool-cached", toolName: toolCallsWithIds[index].name, cachedAt: result.cachedAt });
               }
-            } else {
-              break; 
+            });
+
+            // Oversized results are stored as chat artifacts; the model gets a summary it can page through with read_artifact.
+            // Results are redacted first, so what is stored holds placeholders rather than the values.
+            const modelResults = await Promise.all(
+              toolCallsWithIds.map((toolCall, index) => {
+                const result = redactor.redact(executedResults[index]?.result);
+                return UNSHAPED_TOOLS.has(toolCall.name)
+                  ? result
+                  : shapeToolResult(chatId, toolCall, citationTracker.annotate(toolCall.name, result));
+              })
+            );
+            if (toolCallsWithIds.some((toolCall) => CITATION_TOOLS.has(toolCall.name))) {
+              events.emit({ type: "citations", content: citationTracker.getAll() });
             }
-          }
 
-          const finalMessages: Message[] = [
-            ...messages,
-            {
-              id: generateUUID(),
-              role: "assistant",
-              content: fullResponse,
-              thoughts: thoughts,
-              timestamp: Date.now(),
-              toolCalls: finalToolCalls.length > 0 ? finalToolCalls : undefined,
-              attachments: lastAssistantAttachments,
-            },
-          ];
-
-          if (session.user && session.user.id) {
-            // Increment message count only when not regenerating
-            if (!regenerate) {
-              await incrementUserDailyMessageCount(userId);
+            // Middlewares decide what each result shows the user and what goes back to the model, in call order
+            const outcomes: ToolCallOutcome[] = [];
+            for (const [index, toolCall] of toolCallsWithIds.entries()) {
+              outcomes.push(
+                await toolMiddleware.afterToolCall(toolCall, executedResults[index], modelResults[index], middlewareContext)
+              );
             }
-
-            // Save to Redis instead of PostgreSQL
-            try {
-              await saveChatToRedis({
-                id: chatId,
+            const toolResults = outcomes.flatMap((outcome) => (outcome.toolResult ? [outcome.toolResult] : []));
+            const assistantAttachments = outcomes.flatMap((outcome) => outcome.attachments);
+            const shouldContinueToAgent = !outcomes.some((outcome) => outcome.endTurn);
+
+            // Keep results retrievable by ref once they are elided from the history. Only what the model got, after
+            // redaction, is stored; calls kept out of the conversation have no ref to retrieve.
+            const storedResults: Record<string, StoredToolResult> = {};
+            toolCallsWithIds.forEach((toolCall, index) => {
+              if (toolCall.name === 'generate_image') return; // Image data is already saved as an attachment
+              const toolResult = outcomes[index].toolResult;
+              if (!toolResult) return;
+              storedResults[toolCall.id] = {
+                name: toolCall.name,
+                args: toolCall.args,
+                result: toolResult.result,
                 createdAt: new Date().toISOString(),
-                userId: session.user.id,
-                messages: finalMessages,
-              });
-              // console.log('✅ Chat saved to Redis:', chatId);
-            } catch (error) {
-              console.error('❌ Error saving chat to Redis:', error);
+              };
+            });
+            await saveToolResults(chatId, storedResults).catch((error) =>
+              console.error("Failed to store tool results:", error)
+            );
+
+            if (assistantAttachments.length > 0) {
+              lastAssistantAttachments = assistantAttachments;
             }
 
-            // Revalidate only the specific chat page to update message history
-            revalidatePath(`/chat/${chatId}`);
-          }
+            if (shouldContinueToAgent && toolResults.length > 0) {
+              const modelParts = [];
+              if (currentTextResponse) {
+                modelParts.push({ text: currentTextResponse });
+              }
+              currentToolCalls.forEach(toolCall => {
+                modelParts.push({ functionCall: toolCall });
+              });
+              
+              conversationHistory.push({
+                role: "model",
+                parts: modelParts,
+              });
+
+              const toolResponseTurn = {
+                role: "user",
+                parts: toolResults.map(tr => ({
+                  functionResponse: {
+                    name: toolCallsWithIds.find(tc => tc.id === tr.toolCallId)?.name,
+                    response: tr.result,
+                  },
+                })),
+              };
+              conversationHistory.push(toolResponseTurn);
 
-          controller.close();
-        } catch (error) {
-          // Handle any errors that occur during streaming
-          console.error('Error in streaming:', error);
-          controller.error(error);
+              // Only the latest round's results stay in full; older ones become previews with a ref
+              toolResponseTurns.forEach(({ content, refs }) => elideToolResponses(content, refs));
+              toolResponseTurns.push({ content: toolResponseTurn, refs: toolResults.map(tr => tr.toolCallId) });
+            } else {
+              break; 
+            }
+          } else {
+            break; 
+          }
         }
-      },
-      cancel() {
-        // Handle cancellation
-        console.log('Stream cancelled by client');
+      } catch (error) {
+        // Stopping aborts the model stream or the running tools; whatever was produced so far is saved
+        if (!events.signal.aborted) throw error;
+        stopped = true;
+        fullResponse += (fullResponse && unsavedText ? " " : "") + unsavedText;
+      }
+      stopped = stopped || events.signal.aborted;
+      if (stopped) {
+        events.emit({ type: "stopped" });
       }
-    });
 
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
+      await saveRedactionVault(chatId, redactionVault).catch((error) =>
+        console.error("Failed to save redaction vault:", error)
+      );
+
+      // Only the sources the response cites are saved; a paused turn keeps them all for when it resumes
+      const citations = pausedForApproval ? citationTracker.getAll() : citationTracker.getCited(fullResponse);
+      await saveTurn({
+        id: generateUUID(),
+        role: "assistant",
+        content: fullResponse,
+        thoughts: thoughts,
+        timestamp: Date.now(),
+        toolCalls: finalToolCalls.length > 0 ? finalToolCalls : undefined,
+        attachments: lastAssistantAttachments,
+        pendingApproval: pausedForApproval ? lastPendingApproval : undefined,
+        stopped: stopped || undefined,
+        delegations: delegations.size > 0 ? Array.from(delegations.values()) : undefined,
+        research: researchJobs.size > 0 ? Array.from(researchJobs.values()) : undefined,
+        // A turn paused for approval keeps its plan running
+        plan: planTracker ? (pausedForApproval ? planTracker.getPlan() : planTracker.finish(stopped)) : undefined,
+        citations: citations.length > 0 ? citations : undefined,
+      });
+
+      await events.close(stopped ? "stopped" : "completed");
+    } catch (error) {
+      console.error('Error in streaming:', error);
+      events.emit({ type: "error", content: "Something went wrong while generating the response. Please try again." });
+      await events.close("failed");
+    }
+  };
+
+  let unsubscribe = () => {};
+  const stream = new ReadableStream<string>({
+    start(controller) {
+      unsubscribe = events.subscribe({
+        onEvent: (event) => controller.enqueue(formatSseEvent(event)),
+        onClose: () => controller.close(),
+      });
+    },
+    cancel() {
+      // Only this listener goes away; the turn keeps running and is saved when it finishes
+      unsubscribe();
     },
   });
+
+  unstable_after(runTurn());
+
+  return new Response(stream, { headers: SSE_HEADERS });
 }
 
 export async function DELETE(request: NextRequest) {
@@ -417,6 +648,9 @@ export async function DELETE(request: NextRequest) {
     return new Response("Missing chat id", { status: 400 });
   }
   try {
+    if (!(await isChatOwner(id, session.user.id))) {
+      return notFoundResponse();
+    }
     await deleteChatFromRedis(id, session.user.id);
     return new Response(null, { status: 204 });
   } catch (error) {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@/app/(auth)/auth";
+import { createReplayStream, getChatStreamState, SSE_HEADERS } from "@/lib/chat-stream";
+import { getChatOwnership, notFoundResponse } from "@/lib/ownership";
+
+// Reconnects to a chat turn's event stream. With a turn id the events after lastEventId are replayed;
+// without one (a page reload) it describes the chat's running turn, if any, so the client can show and replay it.
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("id");
+  const turnId = searchParams.get("turnId");
+  const lastEventId = parseInt(searchParams.get("lastEventId") || request.headers.get("Last-Event-ID") || "0", 10) || 0;
+
+  if (!chatId) {
+    return new Response("Missing chat id", { status: 400 });
+  }
+
+  try {
+    if ((await getChatOwnership(chatId, session.user.id)) === "foreign") {
+      return notFoundResponse();
+    }
+    const state = await getChatStreamState(chatId);
+    if (!state) {
+      return new Response(null, { status: 204 });
+    }
+
+    if (!turnId) {
+      // A finished turn is already part of the saved chat
+      if (state.status !== "running") {
+        return new Response(null, { status: 204 });
+      }
+      return NextResponse.json(
+        { turnId: state.turnId, userMessage: state.userMessage, seed: state.seed },
+        { headers: { "Cache-Control": "no-cache" } }
+      );
+    }
+
+    return new Response(createReplayStream(chatId, turnId, lastEventId), { headers: SSE_HEADERS });
+  } catch (error) {
+    console.error("Failed to resume chat stream:", error);
+    return new Response("Failed to resume chat stream", { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@/app/(auth)/auth";
+import { getChatStreamState, requestChatStreamStop } from "@/lib/chat-stream";
+import { isChatOwner, notFoundResponse } from "@/lib/ownership";
+
+// Stops a running chat turn, wherever it runs. The turn aborts its model call and tools, then saves
+// the partial response marked as stopped.
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { id, turnId }: { id?: string; turnId?: string } = await request.json().catch(() => ({}));
+  if (!id) {
+    return new Response("Missing chat id", { status: 400 });
+  }
+
+  try {
+    if (!(await isChatOwner(id, session.user.id))) {
+      return notFoundResponse();
+    }
+    const state = await getChatStreamState(id);
+    if (!state) {
+      return notFoundResponse();
+    }
+    // Without a turn id the chat's current turn is stopped
+    const target = turnId || state.turnId;
+    if (target === state.turnId && state.status !== "running") {
+      return NextResponse.json({ stopped: false, status: state.status });
+    }
+
+    await requestChatStreamStop(id, target);
+    return NextResponse.json({ stopped: true });
+  } catch (error) {
+    console.error("Failed to stop chat stream:", error);
+    return new Response("Failed to stop chat stream", { status: 500 });
+  }
+}
@@ -1,46 +1,13 @@
 import { put } from "@vercel/blob";
 import { NextResponse } from "next/server";
-import { z } from "zod";
 
 import { auth } from "@/app/(auth)/auth";
-
-const FileSchema = z.object({
-  file: z
-    .instanceof(File)
-    .refine((file) => file.size <= 10 * 1024 * 1024, {
-      message: "File size should be less than 10MB",
-    })
-    .refine(
-      (file) =>
-        [
-          // Images
-          "image/jpeg",
-          "image/png",
-          "image/webp",
-          "image/gif",
-          "image/bmp",
-          "image/tiff",
-          // PDF
-          "application/pdf",
-          // Audio formats supported by Gemini
-          "audio/wav",
-          "audio/wave",
-          "audio/x-wav",
-          "audio/mp3",
-          "audio/mpeg",
-          "audio/mp4",
-          "audio/aac",
-          "audio/aiff",
-          "audio/x-aiff",
-          "audio/ogg",
-          "audio/flac",
-          "audio/x-flac",
-        ].includes(file.type),
-      {
-        message: "File type should be JPEG, PNG, WebP, PDF, or supported audio formats (WAV, MP3, AAC, AIFF, OGG, FLAC)",
-      },
-    ),
-});
+import {
+  detectAttachmentFormat,
+  getAttachmentSizeError,
+  getCanonicalContentType,
+  unsupportedAttachmentMessage,
+} from "@/lib/attachment-formats";
 
 export async function POST(request: Request) {
   const session = await auth();
@@ -61,14 +28,14 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
     }
 
-    const validatedFile = FileSchema.safeParse({ file });
-
-    if (!validatedFile.success) {
-      const errorMessage = validatedFile.error.errors
-        .map((error) => error.message)
-        .join(", ");
-
-      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    // Each format has its own size limit
+    const format = detectAttachmentFormat(file.type, file.name);
+    if (!format) {
+      return NextResponse.json({ error: unsupportedAttachmentMessage }, { status: 400 });
+    }
+    const sizeError = getAttachmentSizeError(format, file.size);
+    if (sizeError) {
+      return NextResponse.json({ error: sizeError }, { status: 400 });
     }
 
     const filename = file.name;
@@ -77,6 +44,7 @@ export async function POST(request: Request) {
     try {
       const data = await put(`${filename}`, fileBuffer, {
         access: "public",
+        contentType: getCanonicalContentType(format, file.type),
       });
 
       return NextResponse.json(data);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
+import { isChatOwner, notFoundResponse } from "@/lib/ownership";
 import { getChatMessages } from "@/lib/redis-queries";
 
 export async function GET(request: NextRequest) {
@@ -19,6 +20,9 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    if (!(await isChatOwner(chatId, session.user.id))) {
+      return notFoundResponse();
+    }
     const { messages } = await getChatMessages(chatId, page, limit);
     return NextResponse.json({ messages });
   } catch (error) {
@@ -1,5 +1,6 @@
 import { auth } from "@/app/(auth)/auth";
-import { getReservationById, updateReservation } from "@/db/queries";
+import { updateReservation } from "@/db/queries";
+import { getOwnedReservation, notFoundResponse } from "@/lib/ownership";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -16,10 +17,10 @@ export async function GET(request: Request) {
   }
 
   try {
-    const reservation = await getReservationById({ id });
+    const reservation = await getOwnedReservation(id, session.user.id as string);
 
-    if (reservation.userId !== session.user.id) {
-      return new Response("Unauthorized!", { status: 401 });
+    if (!reservation) {
+      return notFoundResponse();
     }
 
     return Response.json(reservation);
@@ -45,14 +46,10 @@ export async function PATCH(request: Request) {
   }
 
   try {
-    const reservation = await getReservationById({ id });
+    const reservation = await getOwnedReservation(id, session.user.id as string);
 
     if (!reservation) {
-      return new Response("Reservation not found!", { status: 404 });
-    }
-
-    if (reservation.userId !== session.user.id) {
-      return new Response("Unauthorized!", { status: 401 });
+      return notFoundResponse();
     }
 
     if (reservation.hasCompletedPayment) {
@@ -5,7 +5,8 @@ import { Message } from "@/ai/types";
 import { auth } from "@/app/(auth)/auth";
 import { Chat as PreviewChat } from "@/components/custom/chat";
 import { getUserById } from "@/db/queries";
-import { getChatWithMessages, getUserChats, getUserDailyMessageCount } from "@/lib/redis-queries";
+import { getChatOwnership } from "@/lib/ownership";
+import { getChatWithMessages, getUserDailyMessageCount } from "@/lib/redis-queries";
 
 const planLimits: { [key: string]: number } = {
   "Free": 5,
@@ -29,11 +30,13 @@ export default async function Page({ params }: { params: any }) {
     userId
   );
 
-  // Check if this chat belongs to the user
-  const userChats = await getUserChats(userId);
-  const chatExists = userChats.some(chat => chat.id === id);
-  
-  if (!chatExists) {
+  // Someone else's chat looks exactly like one that does not exist
+  const ownership = await getChatOwnership(id, userId);
+  if (ownership === "foreign") {
+    return notFound();
+  }
+
+  if (ownership === "unclaimed") {
     // If chat doesn't exist, render empty chat UI
     return (
       <PreviewChat
@@ -57,6 +60,12 @@ export default async function Page({ params }: { params: any }) {
     timestamp: msg.timestamp,
     attachments: msg.attachments || [],
     toolCalls: msg.toolCalls || [],
+    pendingApproval: msg.pendingApproval,
+    stopped: msg.stopped,
+    delegations: msg.delegations,
+    plan: msg.plan,
+    research: msg.research,
+    citations: msg.citations,
   })) : [];
 
   return (
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
 import { saveApiKey, deleteApiKey, listApiKeys } from "@/db/queries";
+import { invalidateUserCredentials } from "@/lib/user-credentials";
 
 export async function GET() {
   const session = await auth();
@@ -22,6 +23,7 @@ export async function POST(request: NextRequest) {
     return new Response("Missing service or key", { status: 400 });
   }
   await saveApiKey({ userId: session.user.id, service, rawKey: key });
+  await invalidateUserCredentials(session.user.id);
   return new Response(null, { status: 204 });
 }
 
@@ -35,5 +37,6 @@ export async function DELETE(request: NextRequest) {
     return new Response("Missing service", { status: 400 });
   }
   await deleteApiKey({ userId: session.user.id, service });
+  await invalidateUserCredentials(session.user.id);
   return new Response(null, { status: 204 });
 } 
\ No newline at end of file
@@ -1,12 +1,14 @@
 "use client";
 
-import { ArrowLeft, Eye, EyeOff, Key, Plug, Shield, User, Plus, Trash, Sun, Moon, Monitor, Check } from "lucide-react";
+import { ArrowLeft, Eye, EyeOff, Key, Plug, Shield, User, Plus, Trash, Sun, Moon, Monitor, Check, Brain, Pencil } from "lucide-react";
 import Image from "next/image";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useTheme } from "next-themes";
 import { useState, useEffect, useMemo } from "react";
 import { toast } from "sonner";
 
+import { DEFAULT_REDACTION_POLICY, RedactionCategory, redactionCategories, RedactionPolicy } from "@/ai/redaction-policy";
+import { approvalIntegrations } from "@/ai/tool-approval";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,6 +24,22 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+
+const memoryCategories = [
+  { value: "fact", label: "Fact" },
+  { value: "preference", label: "Preference" },
+  { value: "person", label: "Person" },
+  { value: "project", label: "Project" },
+];
+
+type MemoryItem = {
+  id: string;
+  category: string;
+  content: string;
+  sourceChatId?: string | null;
+  updatedAt: string;
+};
 
 const apiTools = [
   { name: "Airtable", keyName: "airtableApiKey", placeholder: "key...", icon: "/logo/airtable.svg" },
@@ -85,7 +103,7 @@ const oauthProviders = [
 export default function AccountPage() {
   const router = useRouter();
   const searchParams = useSearchParams();   
-  const [activeSection, setActiveSection] = useState<"profile" | "security" | "integrations" | "api-keys" | "appearance" | "customize">("profile");
+  const [activeSection, setActiveSection] = useState<"profile" | "security" | "integrations" | "api-keys" | "appearance" | "customize" | "memory">("profile");
   // Appearance
   const { theme, setTheme, resolvedTheme } = useTheme();
   const [language, setLanguage] = useState("");
@@ -131,6 +149,130 @@ export default function AccountPage() {
     }
   };
 
+  // Integrations whose high-risk actions run without asking first
+  const [approvalAllowList, setApprovalAllowList] = useState<string[]>([]);
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/account/tool-approvals");
+        if (res.ok) {
+          const data = await res.json();
+          setApprovalAllowList(Array.isArray(data.allowList) ? data.allowList : []);
+        }
+      } catch {}
+    })();
+  }, []);
+
+  const handleApprovalToggle = async (integrationId: string, alwaysAllow: boolean) => {
+    const previous = approvalAllowList;
+    const next = alwaysAllow
+      ? Array.from(new Set([...previous, integrationId]))
+      : previous.filter((id) => id !== integrationId);
+    setApprovalAllowList(next);
+    try {
+      const res = await fetch("/api/account/tool-approvals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ allowList: next }),
+      });
+      if (!res.ok) throw new Error("Failed to save");
+      toast.success("Approval preference saved.");
+    } catch {
+      setApprovalAllowList(previous);
+      toast.error("Failed to save approval preference.");
+    }
+  };
+
+  // Sensitive values hidden from the model in tool results
+  const [redactionPolicy, setRedactionPolicy] = useState<RedactionPolicy>(DEFAULT_REDACTION_POLICY);
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/account/redaction");
+        if (res.ok) {
+          const data = await res.json();
+          if (data.policy) setRedactionPolicy(data.policy);
+        }
+      } catch {}
+    })();
+  }, []);
+
+  const saveRedactionPolicy = async (next: RedactionPolicy) => {
+    const previous = redactionPolicy;
+    setRedactionPolicy(next);
+    try {
+      const res = await fetch("/api/account/redaction", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ policy: next }),
+      });
+      if (!res.ok) throw new Error("Failed to save");
+      toast.success("Privacy preference saved.");
+    } catch {
+      setRedactionPolicy(previous);
+      toast.error("Failed to save privacy preference.");
+    }
+  };
+
+  const handleRedactionCategoryToggle = (categoryId: RedactionCategory, hidden: boolean) => {
+    const categories = hidden
+      ? Array.from(new Set([...redactionPolicy.categories, categoryId]))
+      : redactionPolicy.categories.filter((id) => id !== categoryId);
+    saveRedactionPolicy({ ...redactionPolicy, categories });
+  };
+
+  // Long-term memory the agent keeps about the user
+  const [memories, setMemories] = useState<MemoryItem[]>([]);
+  const [memoriesLoading, setMemoriesLoading] = useState(true);
+  const [editingMemory, setEditingMemory] = useState<{ id: string; content: string; category: string } | null>(null);
+  const [showForgetAllDialog, setShowForgetAllDialog] = useState(false);
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/account/memories");
+        if (res.ok) {
+          const data = await res.json();
+          setMemories(Array.isArray(data.memories) ? data.memories : []);
+        }
+      } catch {} finally {
+        setMemoriesLoading(false);
+      }
+    })();
+  }, []);
+
+  const saveMemoryEdit = async () => {
+    if (!editingMemory || !editingMemory.content.trim()) return;
+    try {
+      const res = await fetch("/api/account/memories", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(editingMemory),
+      });
+      if (!res.ok) throw new Error("Failed to save");
+      const data = await res.json();
+      setMemories((prev) => [data.memory, ...prev.filter((memory) => memory.id !== data.memory.id)]);
+      setEditingMemory(null);
+      toast.success("Memory updated.");
+    } catch {
+      toast.error("Failed to update memory.");
+    }
+  };
+
+  const deleteMemories = async (body: { ids?: string[]; all?: boolean }) => {
+    try {
+      const res = await fetch("/api/account/memories", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error("Failed to delete");
+      setMemories((prev) => (body.all ? [] : prev.filter((memory) => !body.ids?.includes(memory.id))));
+      toast.success(body.all ? "All memories deleted." : "Memory deleted.");
+    } catch {
+      toast.error("Failed to delete memory.");
+    }
+  };
+
   // Customize (prompt/tone)
   const [customInstruction, setCustomInstruction] = useState("");
   useEffect(() => {
@@ -521,6 +663,7 @@ export default function AccountPage() {
               { id: "api-keys", label: "API Keys", Icon: Key },
               { id: "appearance", label: "Appearance", Icon: Sun },
               { id: "customize", label: "Customize", Icon: Monitor },
+              { id: "memory", label: "Memory", Icon: Brain },
             ].map(({ id, label, Icon }) => (
               <button
                 key={id}
@@ -694,6 +837,73 @@ export default function AccountPage() {
                 {/* Add more as needed */}
               </ul>
             </div>
+            <Separator className="my-6" />
+            <h3 className="font-semibold mb-2 text-foreground">Action Approvals</h3>
+            <p className="text-sm text-foreground/70 mb-4">
+              Jotium asks before running high-risk actions. Turn on &quot;Always allow&quot; to let an integration run them without asking.
+            </p>
+            <div className="space-y-2">
+              {approvalIntegrations.map((integration) => (
+                <div
+                  key={integration.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded bg-background border border-border"
+                >
+                  <div className="flex flex-col">
+                    <Label htmlFor={`approval-${integration.id}`} className="text-foreground">
+                      {integration.label}
+                    </Label>
+                    <span className="text-xs text-muted-foreground">{integration.description}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Always allow</span>
+                    <Switch
+                      id={`approval-${integration.id}`}
+                      checked={approvalAllowList.includes(integration.id)}
+                      onCheckedChange={(checked) => handleApprovalToggle(integration.id, checked)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Separator className="my-6" />
+            <h3 className="font-semibold mb-2 text-foreground">Sensitive Data</h3>
+            <p className="text-sm text-foreground/70 mb-4">
+              Jotium replaces sensitive values in what your integrations return with placeholders before the AI model sees them, and fills them back in only when they are passed to another action.
+            </p>
+            <div className="flex items-center justify-between gap-3 p-3 rounded bg-background border border-border mb-2">
+              <Label htmlFor="redaction-enabled" className="text-foreground">
+                Hide sensitive values from the model
+              </Label>
+              <Switch
+                id="redaction-enabled"
+                checked={redactionPolicy.enabled}
+                onCheckedChange={(checked) => saveRedactionPolicy({ ...redactionPolicy, enabled: checked })}
+              />
+            </div>
+            <div className="space-y-2">
+              {redactionCategories.map((category) => (
+                <div
+                  key={category.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded bg-background border border-border"
+                >
+                  <div className="flex flex-col">
+                    <Label htmlFor={`redaction-${category.id}`} className="text-foreground">
+                      {category.label}
+                    </Label>
+                    <span className="text-xs text-muted-foreground">{category.description}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Hide</span>
+                    <Switch
+                      id={`redaction-${category.id}`}
+                      checked={redactionPolicy.categories.includes(category.id)}
+                      disabled={!redactionPolicy.enabled}
+                      onCheckedChange={(checked) => handleRedactionCategoryToggle(category.id, checked)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
             </>
           )}
 
@@ -801,6 +1011,105 @@ export default function AccountPage() {
             </>
           )}
 
+          {activeSection === "memory" && (
+            <>
+              <h2 className="text-xl font-semibold mb-2 text-foreground">Memory</h2>
+              <p className="text-sm text-foreground/70 mb-4">
+                What Jotium remembers about you across chats. Relevant memories are used to personalize answers. You can also ask Jotium in a chat to remember or forget something.
+              </p>
+              {memoriesLoading ? (
+                <div className="text-sm text-muted-foreground">Loading...</div>
+              ) : memories.length === 0 ? (
+                <div className="text-sm text-muted-foreground">Jotium doesn&apos;t remember anything about you yet.</div>
+              ) : (
+                <div className="space-y-2">
+                  {memories.map((memory) => (
+                    <div
+                      key={memory.id}
+                      className="flex flex-col gap-2 p-3 rounded bg-background border border-border"
+                    >
+                      {editingMemory?.id === memory.id ? (
+                        <>
+                          <textarea
+                            className="w-full min-h-[70px] rounded-md border border-border bg-background p-2 text-sm"
+                            value={editingMemory.content}
+                            maxLength={1000}
+                            onChange={(e) => setEditingMemory({ ...editingMemory, content: e.target.value })}
+                          />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              className="h-8 rounded-md border border-border bg-background px-2 text-xs"
+                              value={editingMemory.category}
+                              onChange={(e) => setEditingMemory({ ...editingMemory, category: e.target.value })}
+                            >
+                              {memoryCategories.map((category) => (
+                                <option key={category.value} value={category.value}>{category.label}</option>
+                              ))}
+                            </select>
+                            <Button size="sm" onClick={saveMemoryEdit}>Save</Button>
+                            <Button size="sm" variant="outline" onClick={() => setEditingMemory(null)}>Cancel</Button>
+                          </div>
+                        </>
+                      ) : (
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="flex flex-col gap-1">
+                            <span className="text-sm text-foreground">{memory.content}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {memoryCategories.find((category) => category.value === memory.category)?.label || memory.category}
+                              {" · "}
+                              {new Date(memory.updatedAt).toLocaleDateString()}
+                              {memory.sourceChatId && (
+                                <>
+                                  {" · "}
+                                  <a href={`/chat/${memory.sourceChatId}`} className="underline">From chat</a>
+                                </>
+                              )}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-1 shrink-0">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              aria-label="Edit memory"
+                              onClick={() => setEditingMemory({ id: memory.id, content: memory.content, category: memory.category })}
+                            >
+                              <Pencil className="size-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              aria-label="Delete memory"
+                              onClick={() => deleteMemories({ ids: [memory.id] })}
+                            >
+                              <Trash className="size-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  <Button variant="destructive" size="sm" className="mt-2" onClick={() => setShowForgetAllDialog(true)}>
+                    Delete all memories
+                  </Button>
+                </div>
+              )}
+              <AlertDialog open={showForgetAllDialog} onOpenChange={setShowForgetAllDialog}>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete all memories?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Jotium will forget everything it has remembered about you. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => deleteMemories({ all: true })}>Delete all</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+
           {activeSection === "api-keys" && (
             <>
             <h2 className="text-xl font-semibold mb-4 text-foreground">API Keys</h2>
@@ -3,6 +3,7 @@ import { format } from "date-fns";
 import React, { useEffect, useState, useRef, useMemo } from "react";
 import { BarChart, Bar, XAxis, YAxis, Tooltip as BarChartTooltip, ResponsiveContainer, LineChart, Line, AreaChart, Area, PieChart, Pie, Cell, Legend } from "recharts";
 
+import AdminAuditLog from "@/components/admin/AdminAuditLog";
 import { MoreHorizontalIcon } from "@/components/custom/icons";
 import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
@@ -547,6 +548,9 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
+        {/* Audit Log Section */}
+        <AdminAuditLog />
+
         {/* Bulk Actions Bar */}
         {anySelected && (
           <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 flex items-center gap-4 z-50 min-w-80">
@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+
+import { normalizeMemoryContent } from "@/ai/user-memory";
+import { auth } from "@/app/(auth)/auth";
+import { deleteUserMemories, getUserMemories, updateUserMemory, userMemoryCategories } from "@/db/queries";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const memories = await getUserMemories(session.user.id);
+  return Response.json({ memories });
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const { id, content, category } = await request.json();
+  const normalized = typeof content === "string" ? normalizeMemoryContent(content) : "";
+  if (typeof id !== "string" || !normalized) {
+    return new Response("Missing memory id or content", { status: 400 });
+  }
+  const memory = await updateUserMemory({
+    id,
+    userId: session.user.id,
+    content: normalized,
+    category: userMemoryCategories.includes(category) ? category : undefined,
+  });
+  if (!memory) return new Response("Not found", { status: 404 });
+  return Response.json({ memory });
+}
+
+// Deletes the given memory ids, or everything when `all` is set
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const { ids, all } = await request.json();
+  const targetIds: string[] = all
+    ? (await getUserMemories(session.user.id)).map((memory) => memory.id)
+    : Array.isArray(ids) ? ids.filter((id: unknown) => typeof id === "string") : [];
+  const deleted = await deleteUserMemories({ userId: session.user.id, ids: targetIds });
+  return Response.json({ deleted });
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+
+import { normalizeRedactionPolicy } from "@/ai/redaction-policy";
+import { auth } from "@/app/(auth)/auth";
+import { getUserRedactionPolicy, setUserRedactionPolicy } from "@/db/queries";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const policy = await getUserRedactionPolicy(session.user.id);
+  return Response.json({ policy });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const { policy } = await request.json();
+  await setUserRedactionPolicy({ userId: session.user.id, policy: normalizeRedactionPolicy(policy) });
+  return new Response(null, { status: 204 });
+}
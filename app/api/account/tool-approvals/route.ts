@@ -0,0 +1,22 @@
+import { NextRequest } from "next/server";
+
+import { approvalIntegrations } from "@/ai/tool-approval";
+import { auth } from "@/app/(auth)/auth";
+import { getUserToolApprovalAllowList, setUserToolApprovalAllowList } from "@/db/queries";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const allowList = await getUserToolApprovalAllowList(session.user.id);
+  return Response.json({ allowList });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) return new Response("Unauthorized", { status: 401 });
+  const { allowList } = await request.json();
+  const knownIds: string[] = approvalIntegrations.map((i) => i.id);
+  const filtered = Array.isArray(allowList) ? allowList.filter((id: unknown) => typeof id === "string" && knownIds.includes(id)) : [];
+  await setUserToolApprovalAllowList({ userId: session.user.id, allowList: filtered });
+  return new Response(null, { status: 204 });
+}
@@ -4,8 +4,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
 import Stripe from 'stripe';
 
-import { auth } from '@/app/(auth)/auth';
 import { user } from '@/db/schema';
+import { requireAdmin } from '@/lib/admin-auth';
 
 const client = postgres(`${process.env.POSTGRES_URL!}?sslmode=require`);
 const db = drizzle(client);
@@ -13,10 +13,8 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: '2025-06
 
 export async function GET(req: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const guard = await requireAdmin(req);
+    if (guard.response) return guard.response;
 
     // Total users
     const totalUsersResult = await db.select({ count: sql`count(*)::int` }).from(user);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { AdminAuditLogFilters, getAdminAuditLog } from '@/db/queries';
+import { AdminAuditLog } from '@/db/schema';
+import { recordAdminAction, requireAdmin } from '@/lib/admin-auth';
+
+const MAX_EXPORT_ROWS = 5000;
+const CSV_COLUMNS: Array<keyof AdminAuditLog> = [
+  'createdAt', 'actorEmail', 'actorId', 'action', 'targetType', 'targetId', 'targetLabel', 'diff', 'ip',
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Cells starting with a formula character are prefixed so spreadsheets do not evaluate them
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// GET /api/admin/audit?actor=&action=&target=&from=&to=&page=&pageSize=
+// With format=csv the matching entries are downloaded instead, up to MAX_EXPORT_ROWS
+export async function GET(req: NextRequest) {
+  try {
+    const guard = await requireAdmin(req);
+    if (guard.response) return guard.response;
+
+    const { searchParams } = new URL(req.url);
+    const filters: AdminAuditLogFilters = {
+      actor: searchParams.get('actor')?.trim() || undefined,
+      action: searchParams.get('action')?.trim() || undefined,
+      target: searchParams.get('target')?.trim() || undefined,
+      from: parseDate(searchParams.get('from')),
+      to: parseDate(searchParams.get('to'), true),
+    };
+
+    if (searchParams.get('format') === 'csv') {
+      const { entries } = await getAdminAuditLog({ filters, limit: MAX_EXPORT_ROWS });
+      await recordAdminAction(guard.admin, { action: 'audit.export', targetLabel: `${entries.length} entries` });
+      const rows = [CSV_COLUMNS.join(','), ...entries.map((entry) => CSV_COLUMNS.map((column) => csvCell(entry[column])).join(','))];
+      return new NextResponse(rows.join('\r\n'), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="admin-audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const pageSize = Math.max(1, Math.min(100, parseInt(searchParams.get('pageSize') || '25', 10)));
+    const { entries, total } = await getAdminAuditLog({ filters, limit: pageSize, offset: (page - 1) * pageSize });
+
+    return NextResponse.json({
+      entries,
+      total,
+      page,
+      pageSize,
+      totalPages: total > 0 ? Math.ceil(total / pageSize) : 1,
+    });
+  } catch (error) {
+    console.error('Admin audit log API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,23 +3,16 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
 
-import { auth } from '@/app/(auth)/auth';
-import { isUserAdminById } from '@/db/queries';
 import { user } from '@/db/schema';
+import { diffFields, recordAdminAction, requireAdmin } from '@/lib/admin-auth';
 
 const client = postgres(`${process.env.POSTGRES_URL!}?sslmode=require`);
 const db = drizzle(client);
 
 export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    const isAdmin = await isUserAdminById(session.user.id);
-    if (!isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
+    const guard = await requireAdmin(req);
+    if (guard.response) return guard.response;
     const id = params.id;
     const body = await req.json();
     const { name, plan, isAdmin: newIsAdmin } = body;
@@ -28,13 +21,25 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
     }
     const [firstName, ...lastNameArr] = name.split(' ');
     const lastName = lastNameArr.join(' ') || '';
+    const [before] = await db.select().from(user).where(eq(user.id, id));
+    if (!before) {
+      return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+    }
+    const changes = { firstName, lastName, plan, isAdmin: !!newIsAdmin };
     const updateResult = await db.update(user)
-      .set({ firstName, lastName, plan, isAdmin: !!newIsAdmin })
+      .set(changes)
       .where(eq(user.id, id))
       .returning();
     if (!updateResult.length) {
       return NextResponse.json({ error: 'User not found.' }, { status: 404 });
     }
+    await recordAdminAction(guard.admin, {
+      action: 'user.update',
+      targetType: 'user',
+      targetId: id,
+      targetLabel: before.email,
+      diff: diffFields(before, changes, ['firstName', 'lastName', 'plan', 'isAdmin']),
+    });
     return NextResponse.json({ user: updateResult[0] });
   } catch (error) {
     console.error('Admin user edit API error:', error);
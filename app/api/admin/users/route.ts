@@ -3,24 +3,16 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
 
-import { auth } from '@/app/(auth)/auth';
-import { isUserAdminById } from '@/db/queries';
 import { user } from '@/db/schema';
+import { requireAdmin } from '@/lib/admin-auth';
 
 const client = postgres(`${process.env.POSTGRES_URL!}?sslmode=require`);
 const db = drizzle(client);
 
 export async function GET(req: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    // Admin check
-    const isAdmin = await isUserAdminById(session.user.id);
-    if (!isAdmin) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
+    const guard = await requireAdmin(req);
+    if (guard.response) return guard.response;
 
     const { searchParams } = new URL(req.url);
     const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
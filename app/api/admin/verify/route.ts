@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAdminVerified, recordAdminAction, requireAdmin, setAdminVerificationCookie, verifyAdminAccessCode } from '@/lib/admin-auth';
+
+// Whether this browser has already entered the admin access code
+export async function GET(req: NextRequest) {
+  try {
+    const guard = await requireAdmin(req, { allowUnverified: true });
+    if (guard.response) return guard.response;
+    return NextResponse.json({ verified: await isAdminVerified(req, guard.admin.id) });
+  } catch (error) {
+    console.error('Admin verification status API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const guard = await requireAdmin(req, { allowUnverified: true });
+    if (guard.response) return guard.response;
+    const { admin } = guard;
+
+    const { code } = await req.json().catch(() => ({}));
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json({ error: 'Code is required.' }, { status: 400 });
+    }
+
+    const { status, token } = await verifyAdminAccessCode(admin.id, code);
+    if (status === 'not_configured') {
+      return NextResponse.json({ error: 'Admin access code is not configured.' }, { status: 503 });
+    }
+    if (status === 'too_many_attempts') {
+      return NextResponse.json({ error: 'Too many attempts. Try again later.' }, { status: 429 });
+    }
+    if (status === 'incorrect' || !token) {
+      await recordAdminAction(admin, { action: 'admin.verify_failed' });
+      return NextResponse.json({ error: 'Incorrect code. Try again.' }, { status: 401 });
+    }
+
+    await recordAdminAction(admin, { action: 'admin.verify' });
+    const response = NextResponse.json({ verified: true });
+    setAdminVerificationCookie(response, token);
+    return response;
+  } catch (error) {
+    console.error('Admin verification API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
+import { isChatOwner, notFoundResponse } from "@/lib/ownership";
 import { getChatMessages } from "@/lib/redis-queries";
 
 export async function GET(
@@ -14,6 +15,9 @@ export async function GET(
     }
 
     const { id } = params;
+    if (!(await isChatOwner(id, session.user.id))) {
+      return notFoundResponse();
+    }
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "25");
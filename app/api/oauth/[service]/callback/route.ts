@@ -5,6 +5,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
 import { saveOAuthConnection } from "@/db/queries";
+import { invalidateUserCredentials } from "@/lib/user-credentials";
 
 export async function GET(
   request: NextRequest,
@@ -402,6 +403,7 @@ export async function GET(
       externalUserId,
       externalUserName,
     });
+    await invalidateUserCredentials(session.user.id);
 
     console.log(`Permanent OAuth connection saved for ${service} with ${refreshToken ? 'refresh token' : 'no refresh token'}`);
 
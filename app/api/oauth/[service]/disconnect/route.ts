@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
 import { deleteOAuthConnection } from "@/db/queries";
+import { invalidateUserCredentials } from "@/lib/user-credentials";
 
 export async function GET(
   request: NextRequest,
@@ -17,6 +18,7 @@ export async function GET(
 
   try {
     await deleteOAuthConnection({ userId: session.user.id, service });
+    await invalidateUserCredentials(session.user.id);
 
     // Optionally, revoke token with the OAuth provider
     // This would involve another API call to the provider's revocation endpoint
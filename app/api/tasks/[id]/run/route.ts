@@ -1,10 +1,8 @@
-import { eq } from "drizzle-orm";
 import {NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
 import { getUserById, getUserLanguage } from "@/db/queries";
-import { task, Task } from "@/db/schema";
-import { db } from "@/lib/db";
+import { getOwnedTask, notFoundResponse } from "@/lib/ownership";
 import { getUserDailyMessageCount, incrementUserDailyMessageCount } from "@/lib/redis-queries";
 import { executeTask } from "@/lib/runTask";
 import { getUserAIModel } from "@/lib/user-model";
@@ -45,10 +43,9 @@ export async function POST(request: NextRequest) {
   }
 
   // Fetch the task and ensure it belongs to the user
-  const tasks = await db.select().from(task).where(eq(task.id, taskId));
-  const targetTask = tasks[0] as Task | undefined;
-  if (!targetTask || targetTask.userId !== userId) {
-    return new NextResponse("Task not found or access denied", { status: 404 });
+  const targetTask = await getOwnedTask(taskId, userId);
+  if (!targetTask) {
+    return notFoundResponse();
   }
 
   // Execute the task using shared logic
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { auth } from "@/app/(auth)/auth";
-import { getUserById } from "@/db/queries";
+import { getOwnedTask, notFoundResponse } from "@/lib/ownership";
 import { getUserChats } from "@/lib/redis-queries";
 
 /**
@@ -26,9 +26,8 @@ export async function GET(request: NextRequest) {
   }
 
   // Verify the task belongs to the user
-  const user = await getUserById(userId);
-  if (!user) {
-    return new NextResponse("User not found", { status: 404 });
+  if (!(await getOwnedTask(taskId, userId))) {
+    return notFoundResponse();
   }
 
   // Fetch all chats for the user and filter those that belong to this task
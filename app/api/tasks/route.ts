@@ -5,6 +5,7 @@ import {NextRequest, NextResponse } from "next/server";
 import { auth } from "@/app/(auth)/auth";
 import { task, Task } from "@/db/schema";
 import { db } from "@/lib/db";
+import { getOwnedTask, notFoundResponse } from "@/lib/ownership";
 import scheduler from "@/lib/taskScheduler";
 import { generateUUID } from "@/lib/utils";
 
@@ -106,6 +107,10 @@ export async function PUT(request: NextRequest) {
     timezone?: string;
   } = await request.json();
 
+  if (!id || !(await getOwnedTask(id, session.user.id))) {
+    return notFoundResponse();
+  }
+
   const updates: Partial<Omit<Task, "id" | "userId" | "createdAt" | "updatedAt">> = {
     ...(name && { name }),
     ...(description && { description }),
@@ -142,6 +147,10 @@ export async function DELETE(request: NextRequest) {
     return new NextResponse("Missing task id", { status: 400 });
   }
 
+  if (!(await getOwnedTask(id, session.user.id))) {
+    return notFoundResponse();
+  }
+
   // Remove from scheduler
   await scheduler.removeTask(id);
   
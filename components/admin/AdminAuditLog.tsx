@@ -0,0 +1,203 @@
+"use client";
+import { format } from "date-fns";
+import React, { useEffect, useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const AUDIT_ACTIONS = [
+  { value: "user.update", label: "User updated" },
+  { value: "user.delete", label: "User deleted" },
+  { value: "user.bulk_delete", label: "User bulk-deleted" },
+  { value: "admin.verify", label: "Admin code accepted" },
+  { value: "admin.verify_failed", label: "Admin code rejected" },
+  { value: "audit.export", label: "Audit log exported" },
+];
+
+const PAGE_SIZE = 25;
+
+function formatDiff(diff: Record<string, { from: unknown; to: unknown }> | null): string {
+  if (!diff) return "-";
+  const changes = Object.entries(diff).map(([field, { from, to }]) => `${field}: ${String(from)} → ${String(to)}`);
+  return changes.length > 0 ? changes.join(", ") : "-";
+}
+
+// Who did what through the admin API, with filters and a CSV export of the filtered entries
+export default function AdminAuditLog() {
+  const [entries, setEntries] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState("all");
+  const [target, setTarget] = useState("");
+  const [from, setFrom] = useState<Date | null>(null);
+  const [to, setTo] = useState<Date | null>(null);
+
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (actor) params.append("actor", actor);
+    if (action !== "all") params.append("action", action);
+    if (target) params.append("target", target);
+    if (from) params.append("from", format(from, "yyyy-MM-dd"));
+    if (to) params.append("to", format(to, "yyyy-MM-dd"));
+    return params;
+  }, [actor, action, target, from, to]);
+
+  useEffect(() => {
+    setLoading(true);
+    const params = new URLSearchParams(filterParams);
+    params.append("page", String(page));
+    params.append("pageSize", String(PAGE_SIZE));
+    fetch(`/api/admin/audit?${params.toString()}`)
+      .then((res) => res.json())
+      .then((data) => {
+        setEntries(data.entries || []);
+        setTotal(data.total || 0);
+      })
+      .finally(() => setLoading(false));
+  }, [filterParams, page]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const exportParams = new URLSearchParams(filterParams);
+  exportParams.append("format", "csv");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <CardTitle>Audit Log</CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/audit?${exportParams.toString()}`} download>
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            <Input
+              placeholder="Actor email..."
+              value={actor}
+              onChange={e => { setActor(e.target.value); setPage(1); }}
+            />
+            <Select value={action} onValueChange={v => { setAction(v); setPage(1); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {AUDIT_ACTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Target id or email..."
+              value={target}
+              onChange={e => { setTarget(e.target.value); setPage(1); }}
+            />
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="justify-start text-left">
+                  {from ? format(from, 'MMM dd, yyyy') : 'From date'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="p-0">
+                <Calendar
+                  mode="single"
+                  selected={from ?? undefined}
+                  onSelect={date => { setFrom(date ?? null); setPage(1); }}
+                  className="border-none"
+                />
+              </PopoverContent>
+            </Popover>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="justify-start text-left">
+                  {to ? format(to, 'MMM dd, yyyy') : 'To date'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="p-0">
+                <Calendar
+                  mode="single"
+                  selected={to ?? undefined}
+                  onSelect={date => { setTo(date ?? null); setPage(1); }}
+                  className="border-none"
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          {(from || to) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="self-start"
+              onClick={() => { setFrom(null); setTo(null); setPage(1); }}
+            >
+              Clear date filters
+            </Button>
+          )}
+        </div>
+
+        <div className="border rounded-lg overflow-hidden">
+          <div style={{ maxHeight: 500, overflow: 'auto' }}>
+            <Table className="min-w-full">
+              <TableHeader className="bg-gray-50 dark:bg-gray-800 sticky top-0 z-10">
+                <TableRow>
+                  <TableHead className="font-semibold text-left min-w-[160px]">Time</TableHead>
+                  <TableHead className="font-semibold text-left min-w-[200px]">Actor</TableHead>
+                  <TableHead className="font-semibold text-left min-w-[140px]">Action</TableHead>
+                  <TableHead className="font-semibold text-left min-w-[200px]">Target</TableHead>
+                  <TableHead className="font-semibold text-left min-w-[220px] hidden md:table-cell">Changes</TableHead>
+                  <TableHead className="font-semibold text-left min-w-[120px] hidden lg:table-cell">IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                    <TableCell className="text-gray-600">{format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell className="font-medium">{entry.actorEmail}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        entry.action.includes('delete') || entry.action.endsWith('_failed')
+                          ? 'bg-destructive/10 text-destructive dark:bg-destructive/20'
+                          : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                      }`}>
+                        {entry.action}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-gray-600">{entry.targetLabel || entry.targetId || "-"}</TableCell>
+                    <TableCell className="hidden md:table-cell text-gray-600 text-xs">{formatDiff(entry.diff)}</TableCell>
+                    <TableCell className="hidden lg:table-cell text-gray-600 text-xs">{entry.ip || "-"}</TableCell>
+                  </TableRow>
+                ))}
+                {!loading && entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-8">No audit entries match these filters.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center justify-center gap-4">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(p => Math.max(1, p - 1))}>
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(p => Math.min(totalPages, p + 1))}>
+            Next
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,47 @@
 "use client";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 
 import AdminDashboard from "@/app/admin/dashboard";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 
+// The code is checked on the server, which then lets this browser use the admin API
 export default function AdminOTPGate() {
   const [otp, setOtp] = useState("");
   const [error, setError] = useState("");
+  const [checking, setChecking] = useState(true);
   const [unlocked, setUnlocked] = useState(false);
 
-  const handleChange = (value: string) => {
+  useEffect(() => {
+    fetch("/api/admin/verify")
+      .then((res) => (res.ok ? res.json() : { verified: false }))
+      .then((data) => setUnlocked(!!data.verified))
+      .catch(() => setUnlocked(false))
+      .finally(() => setChecking(false));
+  }, []);
+
+  const handleChange = async (value: string) => {
     setOtp(value);
     setError("");
     if (value.length === 4) {
-      if (value === "2902") {
-        setUnlocked(true);
-      } else {
-        setError("Incorrect code. Try again.");
+      setChecking(true);
+      try {
+        const res = await fetch("/api/admin/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code: value }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (res.ok && data.verified) {
+          setUnlocked(true);
+        } else {
+          setError(data.error || "Incorrect code. Try again.");
+          setOtp("");
+        }
+      } catch {
+        setError("Could not check the code. Try again.");
+        setOtp("");
+      } finally {
+        setChecking(false);
       }
     }
   };
@@ -25,7 +50,7 @@ export default function AdminOTPGate() {
   return (
     <div className="flex flex-col items-center justify-center min-h-screen gap-4">
       <div className="text-lg font-semibold">Enter 4-digit admin code</div>
-      <InputOTP maxLength={4} value={otp} onChange={handleChange} autoFocus>
+      <InputOTP maxLength={4} value={otp} onChange={handleChange} disabled={checking} autoFocus>
         <InputOTPGroup>
           <InputOTPSlot index={0} />
           <InputOTPSlot index={1} />
@@ -36,4 +61,4 @@ export default function AdminOTPGate() {
       {error && <div className="text-destructive text-sm mt-2">{error}</div>}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -6,7 +6,7 @@ import { useRouter } from "next/navigation";
 import { useEffect, useRef, useState, useCallback } from "react";
 import { toast } from "sonner";
 
-import { Message } from "@/ai/types";
+import { Message, PlanStep, ToolApprovalDecision } from "@/ai/types";
 import { Message as PreviewMessage } from "@/components/custom/message";
 import { generateUUID } from "@/lib/utils";
 
@@ -16,6 +16,44 @@ import { ScrollToBottom } from "./scroll-to-bottom";
 import { useScrollToBottom } from "./use-scroll-to-bottom";
 
 const MESSAGES_PER_PAGE = 25; // Define how many messages to fetch per page
+const MAX_STREAM_RECONNECTS = 5;
+
+// Parses a server-sent event stream, calling onEvent with each event's id and JSON data
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (eventId: number | undefined, data: any) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let eventId: number | undefined;
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("id: ")) eventId = parseInt(line.substring(4), 10) || undefined;
+      else if (line.startsWith("data: ")) dataLines.push(line.substring(6));
+    }
+    if (dataLines.length === 0) return;
+    const jsonStr = dataLines.join("\n");
+    try {
+      onEvent(eventId, JSON.parse(jsonStr));
+    } catch (error) {
+      console.error("Error parsing stream data:", error, jsonStr);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    // Events can be split across chunks, so only complete ones are handled
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() || "";
+    blocks.forEach(dispatch);
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
 
 export function Chat({
   id,
@@ -46,6 +84,8 @@ export function Chat({
   const [executingTools, setExecutingTools] = useState<string[]>([]); // New state for executing tools (array)
   const [messageToolsMap, setMessageToolsMap] = useState<{[messageId: string]: string[]}>({});  // Track tools per message
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  const [planMode, setPlanMode] = useState(false); // Complex requests get a plan to review before they run
+  const activeTurnIdRef = useRef<string | null>(null); // Server-side turn being streamed, so stop can end it
   const router = useRouter(); // Initialize useRouter
 
   useEffect(() => {
@@ -113,6 +153,186 @@ export function Chat({
     return () => container.removeEventListener("scroll", handleScroll);
   }, [hasMoreMessages, loadingMore, loadMoreMessages, messagesContainerRef]);
 
+  // Reads a chat turn's event stream into the given assistant message, updating it as events arrive. If the
+  // connection drops before the turn ends, it reconnects and replays the events after the last one received.
+  const readAssistantStream = async (
+    body: ReadableStream<Uint8Array>,
+    assistantMessage: Message,
+    signal?: AbortSignal,
+    resumeFrom?: { turnId: string; lastEventId: number }
+  ) => {
+    const startTime = Date.now() - (assistantMessage.duration || 0);
+    let pendingAttachments: any[] = [];
+    let turnId = resumeFrom?.turnId;
+    if (turnId) activeTurnIdRef.current = turnId;
+    let lastEventId = resumeFrom?.lastEventId || 0;
+    let ended = false;
+    let reconnects = 0;
+
+    const handleEvent = (eventId: number | undefined, data: any) => {
+      if (eventId) lastEventId = eventId;
+      reconnects = 0;
+      if (data.type === "stream-start") {
+        turnId = data.turnId;
+        activeTurnIdRef.current = data.turnId;
+        return;
+      }
+      if (data.type === "stream-end") {
+        ended = true;
+        return;
+      }
+      if (data.type === "stopped") {
+        assistantMessage.stopped = true;
+      }
+      if (data.type === "thought") {
+        assistantMessage.thoughts = (assistantMessage.thoughts || "") + data.content;
+      } else if (data.type === "response") {
+        assistantMessage.content += data.content;
+      } else if (data.type === "error") {
+        setError(data.content);
+      } else if (data.type === "budget-exceeded") {
+        toast.info(data.content);
+      } else if (data.type === "approval-required") {
+        assistantMessage.pendingApproval = data.content;
+      } else if (data.type === "plan") {
+        assistantMessage.plan = data.content;
+      } else if (data.type === "delegation") {
+        const delegations = assistantMessage.delegations || [];
+        const index = delegations.findIndex((d) => d.id === data.content.id);
+        assistantMessage.delegations =
+          index === -1 ? [...delegations, data.content] : delegations.map((d, i) => (i === index ? data.content : d));
+      } else if (data.type === "research") {
+        const research = assistantMessage.research || [];
+        const index = research.findIndex((job) => job.id === data.content.id);
+        assistantMessage.research =
+          index === -1 ? [...research, data.content] : research.map((job, i) => (i === index ? data.content : job));
+      } else if (data.type === "citations") {
+        assistantMessage.citations = data.content;
+      } else if (data.type === "tool-cached") {
+        assistantMessage.cachedTools = { ...assistantMessage.cachedTools, [data.toolName]: data.cachedAt };
+      } else if (data.type === "tool-start") {
+        setExecutingTools(prev => [...prev, data.toolName]); // Add tool to executing array
+        // Also store tools for this specific message
+        setMessageToolsMap(prev => ({
+          ...prev,
+          [assistantMessage.id]: [...(prev[assistantMessage.id] || []), data.toolName]
+        }));
+      } else if (data.type === "image_generation_result") {
+        // Ensure attachments array exists
+        if (!assistantMessage.attachments) {
+          assistantMessage.attachments = [];
+        }
+        // Add the new image attachment as it streams in
+        assistantMessage.attachments.push(data.content);
+      }
+      if (data.attachments && Array.isArray(data.attachments)) {
+        pendingAttachments = data.attachments;
+        assistantMessage.attachments = pendingAttachments;
+      }
+      assistantMessage.duration = Date.now() - startTime;
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === assistantMessage.id ? { ...assistantMessage } : msg
+        )
+      );
+    };
+
+    let stream: ReadableStream<Uint8Array> | null = body;
+    while (stream) {
+      try {
+        await readEventStream(stream, handleEvent);
+      } catch (err) {
+        if (!signal?.aborted) console.error("Chat stream interrupted:", err);
+      }
+      stream = null;
+      if (ended || signal?.aborted || !turnId) break;
+
+      // The turn keeps running on the server; pick up from the last event received
+      while (!stream && reconnects < MAX_STREAM_RECONNECTS && !signal?.aborted) {
+        reconnects++;
+        await new Promise((resolve) => setTimeout(resolve, 1000 * reconnects));
+        try {
+          const response = await fetch(
+            `/api/chat/stream?id=${id}&turnId=${turnId}&lastEventId=${lastEventId}`,
+            { signal }
+          );
+          if (response.status === 204 || response.status === 404) break;
+          if (response.ok && response.body) stream = response.body;
+        } catch (err) {
+          if (!signal?.aborted) console.error("Failed to reconnect to chat stream:", err);
+        }
+      }
+    }
+
+    if (!ended && turnId && !signal?.aborted) {
+      setError("Lost the connection to this response. Reload the page to see it once it finishes.");
+    }
+    if (!ended && signal?.aborted) {
+      // Stopped by the user; the server saves the partial response with the same marker
+      assistantMessage.stopped = true;
+    }
+    if (activeTurnIdRef.current === turnId) activeTurnIdRef.current = null;
+
+    assistantMessage.duration = Date.now() - startTime;
+    if (pendingAttachments.length > 0) {
+      assistantMessage.attachments = pendingAttachments;
+    }
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === assistantMessage.id ? { ...assistantMessage } : msg
+      )
+    );
+    setExecutingTools([]); // Reset executing tools after response
+  };
+
+  // The resume effect runs once per chat, so it reads the latest stream handler through a ref
+  const readAssistantStreamRef = useRef(readAssistantStream);
+  readAssistantStreamRef.current = readAssistantStream;
+
+  // A turn still running on the server (e.g. after a reload) is shown and streamed to the end
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const resumeActiveTurn = async () => {
+      const stateResponse = await fetch(`/api/chat/stream?id=${id}`, { signal: controller.signal });
+      if (stateResponse.status !== 200) return;
+      const { turnId, userMessage, seed } = await stateResponse.json();
+
+      const response = await fetch(`/api/chat/stream?id=${id}&turnId=${turnId}&lastEventId=0`, {
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) return;
+
+      const assistantMessage: Message = {
+        id: generateUUID(),
+        role: "assistant",
+        content: seed?.content || "",
+        thoughts: seed?.thoughts || "",
+        timestamp: Date.now(),
+        attachments: [],
+      };
+      // The chat is saved when the turn ends, so the message that started it may not be on the page yet
+      setMessages((prev) => {
+        if (!userMessage) return [...prev, assistantMessage];
+        const index = prev.findIndex((msg) => msg.id === userMessage.id);
+        const base = index === -1 ? prev : prev.slice(0, index);
+        return [...base, userMessage, assistantMessage];
+      });
+      setIsLoading(true);
+      setAbortController(controller);
+
+      await readAssistantStreamRef.current(response.body, assistantMessage, controller.signal, { turnId, lastEventId: 0 });
+      setIsLoading(false);
+      setAbortController(null);
+      router.refresh();
+    };
+
+    resumeActiveTurn().catch((err) => {
+      if (!controller.signal.aborted) console.error("Failed to resume chat stream:", err);
+    });
+    return () => controller.abort();
+  }, [id, router]);
+
   const handleSubmit = async (e?: { preventDefault?: () => void }) => {
     if (e && typeof e.preventDefault === "function") {
       e.preventDefault();
@@ -145,7 +365,7 @@ export function Chat({
     const response = await fetch("/api/chat", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ id, messages: [...messages, userMessage] }),
+      body: JSON.stringify({ id, messages: [...messages, userMessage], planMode }),
       signal: controller.signal,
     });
 
@@ -173,8 +393,6 @@ export function Chat({
     }
 
     if (response.body) {
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
       let assistantMessage: Message = {
         id: generateUUID(),
         role: "assistant",
@@ -190,77 +408,7 @@ export function Chat({
         forceScrollToBottom();
       });
 
-      const startTime = Date.now();
-      let pendingAttachments: any[] = [];
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split("\n\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const jsonStr = line.substring(6);
-            if (jsonStr.trim().startsWith("{") && jsonStr.trim().endsWith("}")) {
-              try {
-                const data = JSON.parse(jsonStr);
-                if (data.type === "thought") {
-                  assistantMessage.thoughts += data.content;
-                } else if (data.type === "response") {
-                  assistantMessage.content += data.content;
-                } else if (data.type === "error") {
-                  setError(data.content);
-                } else if (data.type === "tool-start") {
-                  setExecutingTools(prev => [...prev, data.toolName]); // Add tool to executing array
-                  // Also store tools for this specific message
-                  setMessageToolsMap(prev => ({
-                    ...prev,
-                    [assistantMessage.id]: [...(prev[assistantMessage.id] || []), data.toolName]
-                  }));
-                } else if (data.type === "image_generation_result") {
-                  // Ensure attachments array exists
-                  if (!assistantMessage.attachments) {
-                    assistantMessage.attachments = [];
-                  }
-                  // Add the new image attachment as it streams in
-                  assistantMessage.attachments.push(data.content);
-                  // Force immediate update to ensure image appears
-                  setMessages((prev) =>
-                    prev.map((msg) =>
-                      msg.id === assistantMessage.id ? { ...assistantMessage } : msg
-                    )
-                  );
-                }
-                if (data.attachments && Array.isArray(data.attachments)) {
-                  pendingAttachments = data.attachments;
-                  assistantMessage.attachments = pendingAttachments;
-                }
-                assistantMessage.duration = Date.now() - startTime;
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessage.id ? { ...assistantMessage } : msg
-                  )
-                );
-              } catch (error) {
-                console.error("Error parsing stream data:", error, jsonStr);
-              }
-            }
-          }
-        }
-      }
-      
-      assistantMessage.duration = Date.now() - startTime;
-      if (pendingAttachments.length > 0) {
-        assistantMessage.attachments = pendingAttachments;
-      }
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === assistantMessage.id ? { ...assistantMessage } : msg
-        )
-      );
-      setExecutingTools([]); // Reset executing tools after response
+      await readAssistantStream(response.body, assistantMessage, controller.signal);
       
       // Final scroll to bottom when message is complete
       requestAnimationFrame(() => {
@@ -272,6 +420,160 @@ export function Chat({
     setIsLoading(false);
   };
 
+  // Sends the user's approve/edit/reject decisions and streams the rest of the paused turn
+  const handleApprovalDecision = async (messageId: string, decisions: ToolApprovalDecision[]) => {
+    const target = messages.find((msg) => msg.id === messageId);
+    if (!target?.pendingApproval) return;
+
+    const approvalId = target.pendingApproval.approvalId;
+    const assistantMessage: Message = { ...target, pendingApproval: undefined };
+    setMessages((prev) => prev.map((msg) => (msg.id === messageId ? assistantMessage : msg)));
+    setIsLoading(true);
+    setError(null);
+
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    try {
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, approval: { approvalId, decisions } }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error("Failed to submit approval");
+      }
+
+      await readAssistantStream(response.body, assistantMessage, controller.signal);
+      router.refresh();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        toast.error("Failed to continue after your approval. It may have expired.");
+      }
+    } finally {
+      setIsLoading(false);
+      setAbortController(null);
+    }
+  };
+
+  // Runs a proposed plan with the user's edits; the proposal message is replaced by the run
+  const handlePlanApproval = async (messageId: string, steps: PlanStep[]) => {
+    const target = messages.find((msg) => msg.id === messageId);
+    if (!target?.plan || target.plan.status !== "proposed") return;
+
+    const planId = target.plan.id;
+    const assistantMessage: Message = {
+      ...target,
+      content: "",
+      thoughts: "",
+      duration: 0,
+      plan: { ...target.plan, status: "running", steps },
+    };
+    setMessages((prev) => prev.map((msg) => (msg.id === messageId ? assistantMessage : msg)));
+    setIsLoading(true);
+    setError(null);
+
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    try {
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, planApproval: { planId, steps } }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error("Failed to start the plan");
+      }
+
+      await readAssistantStream(response.body, assistantMessage, controller.signal);
+      router.refresh();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        toast.error("Failed to start the plan. It may have expired.");
+        setMessages((prev) => prev.map((msg) => (msg.id === messageId ? target : msg)));
+      }
+    } finally {
+      setIsLoading(false);
+      setAbortController(null);
+    }
+  };
+
+  // Re-runs the turn after the last of the given messages, which replace the conversation shown
+  const regenerateResponse = async (baseMessages: Message[], options: { refreshTools?: boolean } = {}) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setExecutingTools([]);
+      // Create new AbortController for regeneration
+      const controller = new AbortController();
+      setAbortController(controller);
+
+      // Update UI to reflect trimmed history
+      setMessages(baseMessages);
+
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, messages: baseMessages, regenerate: true, refreshTools: options.refreshTools }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        if (response.status === 0 && controller.signal.aborted) {
+          // Request was aborted by user
+          setMessages((prev) => prev.slice(0, prev.length - 1));
+        } else {
+          throw new Error("Failed to regenerate response");
+        }
+        setIsLoading(false);
+        setAbortController(null);
+        return;
+      }
+
+      if (response.body) {
+        let assistantMessage: Message = {
+          id: generateUUID(),
+          role: "assistant",
+          content: "",
+          thoughts: "",
+          timestamp: Date.now(),
+          attachments: [],
+        };
+        setMessages((prev) => [...prev, assistantMessage]);
+
+        await readAssistantStream(response.body, assistantMessage, controller.signal);
+        setAbortController(null);
+
+        // Scroll to bottom after regeneration
+        requestAnimationFrame(() => {
+          forceScrollToBottom();
+        });
+
+        router.refresh(); // Refresh server components to update message count
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to regenerate response");
+    } finally {
+      setIsLoading(false);
+      setAbortController(null);
+    }
+  };
+
+  // Answers the assistant message again with fresh tool results instead of cached ones
+  const refreshToolResults = (messageIndex: number) => {
+    const userIndex = messages.slice(0, messageIndex).map((m) => m.role).lastIndexOf("user");
+    if (userIndex === -1 || isLoading) return;
+    regenerateResponse(messages.slice(0, userIndex + 1), { refreshTools: true });
+  };
+
   return (
     <>
       <div className="flex flex-col h-dvh bg-gradient-to-br from-background via-background to-muted/20">
@@ -335,130 +637,30 @@ export function Chat({
                     }
                     onEditMessage={
                       message.role === "user" && typeof message.content === "string"
-                        ? async (newContent: string) => {
-                            try {
-                              setIsLoading(true);
-                              setError(null);
-                              setExecutingTools([]);
-                              // Create new AbortController for regeneration
-                              const controller = new AbortController();
-                              setAbortController(controller);
-                              
-                              // Trim conversation to the edited message (inclusive)
-                              const baseMessages = messages
+                        ? (newContent: string) =>
+                            // Trim conversation to the edited message (inclusive)
+                            regenerateResponse(
+                              messages
                                 .slice(0, index + 1)
-                                .map((m, i) => (i === index ? { ...m, content: newContent } : m));
-
-                              // Update UI to reflect trimmed history
-                              setMessages(baseMessages);
-
-                              const response = await fetch("/api/chat", {
-                                method: "POST",
-                                headers: { "Content-Type": "application/json" },
-                                body: JSON.stringify({ id, messages: baseMessages, regenerate: true }),
-                                signal: controller.signal,
-                              });
-
-                              if (!response.ok) {
-                                if (response.status === 0 && controller.signal.aborted) {
-                                  // Request was aborted by user
-                                  setMessages((prev) => prev.slice(0, prev.length - 1));
-                                } else {
-                                  throw new Error("Failed to regenerate response");
-                                }
-                                setIsLoading(false);
-                                setAbortController(null);
-                                return;
-                              }
-
-                              if (response.body) {
-                                const reader = response.body.getReader();
-                                const decoder = new TextDecoder();
-                                let assistantMessage: Message = {
-                                  id: generateUUID(),
-                                  role: "assistant",
-                                  content: "",
-                                  thoughts: "",
-                                  timestamp: Date.now(),
-                                  attachments: [],
-                                };
-                                setMessages((prev) => [...prev, assistantMessage]);
-
-                                const startTime = Date.now();
-                                let pendingAttachments: any[] = [];
-
-                                while (true) {
-                                  const { done, value } = await reader.read();
-                                  if (done) break;
-
-                                  const chunk = decoder.decode(value, { stream: true });
-                                  const lines = chunk.split("\n\n");
-
-                                  for (const line of lines) {
-                                    if (line.startsWith("data: ")) {
-                                      const jsonStr = line.substring(6);
-                                      if (jsonStr.trim().startsWith("{") && jsonStr.trim().endsWith("}")) {
-                                        try {
-                                          const data = JSON.parse(jsonStr);
-                                          if (data.type === "thought") {
-                                            assistantMessage.thoughts += data.content;
-                                          } else if (data.type === "response") {
-                                            assistantMessage.content += data.content;
-                                          } else if (data.type === "error") {
-                                            setError(data.content);
-                                          } else if (data.type === "tool-start") {
-                                            setExecutingTools(prev => [...prev, data.toolName]);
-                                            setMessageToolsMap(prev => ({
-                                              ...prev,
-                                              [assistantMessage.id]: [...(prev[assistantMessage.id] || []), data.toolName]
-                                            }));
-                                          } else if (data.type === "image_generation_result") {
-                                            // Ensure attachments array exists
-                                            if (!assistantMessage.attachments) {
-                                              assistantMessage.attachments = [];
-                                            }
-                                            // Add the new image attachment as it streams in
-                                            assistantMessage.attachments.push(data.content);
-                                          }
-                                          if (data.attachments && Array.isArray(data.attachments)) {
-                                            pendingAttachments = data.attachments;
-                                            assistantMessage.attachments = pendingAttachments;
-                                          }
-                                          assistantMessage.duration = Date.now() - startTime;
-                                          setMessages((prev) => prev.map((msg) => msg.id === assistantMessage.id ? { ...assistantMessage } : msg));
-                                        } catch (error) {
-                                          console.error("Error parsing stream data:", error, jsonStr);
-                                        }
-                                      }
-                                    }
-                                  }
-                                }
-
-                                assistantMessage.duration = Date.now() - startTime;
-                                if (pendingAttachments.length > 0) {
-                                  assistantMessage.attachments = pendingAttachments;
-                                }
-                                setMessages((prev) => prev.map((msg) => msg.id === assistantMessage.id ? { ...assistantMessage } : msg));
-                                setExecutingTools([]);
-                                setAbortController(null);
-                                
-                                // Scroll to bottom after regeneration
-                                requestAnimationFrame(() => {
-                                  forceScrollToBottom();
-                                });
-                                
-                                router.refresh(); // Refresh server components to update message count
-                              }
-                            } catch (err) {
-                              console.error(err);
-                              toast.error("Failed to regenerate response");
-                            } finally {
-                              setIsLoading(false);
-                              setAbortController(null);
-                            }
-                          }
+                                .map((m, i) => (i === index ? { ...m, content: newContent } : m))
+                            )
                         : undefined
                     }
+                    pendingApproval={message.pendingApproval}
+                    stopped={message.stopped}
+                    cachedTools={message.cachedTools}
+                    delegations={message.delegations}
+                    plan={message.plan}
+                    research={message.research}
+                    citations={message.citations}
+                    onPlanApprove={
+                      // Only the latest proposal can still run; sending another message moves past it
+                      index === messages.length - 1 ? (steps) => handlePlanApproval(message.id, steps) : undefined
+                    }
+                    onRefreshTools={
+                      message.role === "assistant" && message.cachedTools ? () => refreshToolResults(index) : undefined
+                    }
+                    onApprovalDecision={(decisions) => handleApprovalDecision(message.id, decisions)}
                     onUseAsInput={(text: string) => {
                       setInput(prev => {
                         const base = prev ?? "";
@@ -495,6 +697,15 @@ export function Chat({
           handleSubmit={handleSubmit}
           isLoading={isLoading}
           stop={() => {
+            const turnId = activeTurnIdRef.current;
+            if (turnId) {
+              // Aborting the fetch only disconnects; the server has to be told to stop the turn
+              fetch("/api/chat/stream/stop", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id, turnId }),
+              }).catch((err) => console.error("Failed to stop the response:", err));
+            }
             if (abortController) {
               abortController.abort();
               setAbortController(null);
@@ -509,6 +720,8 @@ export function Chat({
           messageCount={messageCount}
           messageLimit={messageLimit}
           messageLimitResetAt={messageLimitResetAt}
+          planMode={planMode}
+          onPlanModeChange={setPlanMode}
         />
         
         {/* Scroll to bottom button - appears when user scrolls up */}
@@ -0,0 +1,132 @@
+//components/custom/citations.tsx
+// Inline [^id] citations in assistant responses: numbered references with a hover preview of the source,
+// and a footnote list under the response. Ids the model cited without a matching tool source are flagged.
+'use client';
+
+import React from "react";
+
+import { Citation } from "@/ai/types";
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../ui/tooltip";
+
+const CITATION_REFERENCE = /\[\^(\d+)\]/g;
+
+// Ids cited in the text, in the order they first appear; footnotes are numbered in this order
+export function findCitationIds(text: string): number[] {
+  const ids = new Set<number>();
+  for (const match of text.matchAll(CITATION_REFERENCE)) {
+    ids.add(Number(match[1]));
+  }
+  return Array.from(ids);
+}
+
+// Remark plugin: turns [^id] in text into <sup data-citation="id"> elements. remark-gfm leaves these as plain
+// text because the model never writes footnote definitions.
+export function remarkCitations() {
+  const visit = (node: any) => {
+    if (!Array.isArray(node.children) || node.type === "link" || node.type === "linkReference") return;
+    node.children = node.children.flatMap((child: any) => {
+      if (child.type !== "text") {
+        visit(child);
+        return [child];
+      }
+      const parts: any[] = [];
+      let lastIndex = 0;
+      for (const match of child.value.matchAll(CITATION_REFERENCE)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) parts.push({ type: "text", value: child.value.slice(lastIndex, index) });
+        parts.push({
+          type: "citationReference",
+          data: { hName: "sup", hProperties: { dataCitation: match[1] } },
+          children: [{ type: "text", value: match[1] }],
+        });
+        lastIndex = index + match[0].length;
+      }
+      if (parts.length === 0) return [child];
+      if (lastIndex < child.value.length) parts.push({ type: "text", value: child.value.slice(lastIndex) });
+      return parts;
+    });
+  };
+  return (tree: any) => visit(tree);
+}
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+export const CitationRef = ({ number, citation }: { number: number; citation?: Citation }) => {
+  if (!citation) {
+    return (
+      <sup className="text-xs">
+        <TooltipProvider delayDuration={100}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className="cursor-help rounded px-0.5 text-red-600 dark:text-red-400 bg-red-500/10 no-underline">
+                [{number}?]
+              </span>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-64 text-xs">
+              No matching source: this citation does not refer to anything a tool returned.
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </sup>
+    );
+  }
+
+  return (
+    <sup className="text-xs">
+      <TooltipProvider delayDuration={100}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <a
+              href={citation.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="rounded px-0.5 text-zinc-600 dark:text-zinc-400 bg-zinc-500/10 no-underline hover:text-zinc-900 dark:hover:text-zinc-100"
+            >
+              [{number}]
+            </a>
+          </TooltipTrigger>
+          <TooltipContent className="flex max-w-72 flex-col gap-1 text-xs">
+            <span className="font-medium break-words">{citation.title}</span>
+            <span className="text-muted-foreground">{domainOf(citation.url)}</span>
+            {citation.snippet && <span className="line-clamp-4 text-muted-foreground">{citation.snippet}</span>}
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </sup>
+  );
+};
+
+export const CitationFootnotes = ({ ids, citations }: { ids: number[]; citations: Citation[] }) => {
+  if (ids.length === 0) return null;
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+
+  return (
+    <ol className="not-prose mt-3 flex flex-col gap-1 border-t pt-2 text-xs text-muted-foreground">
+      {ids.map((id, index) => {
+        const citation = byId.get(id);
+        return (
+          <li key={id} className="flex items-baseline gap-2 min-w-0">
+            <span className="shrink-0">{index + 1}.</span>
+            {citation ? (
+              <>
+                <a href={citation.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                  {citation.title}
+                </a>
+                <span className="shrink-0 text-[10px]">{domainOf(citation.url)}</span>
+              </>
+            ) : (
+              <span className="text-red-600 dark:text-red-400">No matching source for this citation</span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,99 @@
+//components/custom/delegation-timeline.tsx
+// Shows sub-agent runs started with delegate_task as collapsible nested timelines
+'use client';
+
+import { AnimatePresence, motion } from "framer-motion";
+import { CheckCircle2, ChevronDown, Loader2, XCircle } from "lucide-react";
+import React, { useState } from "react";
+
+import { Delegation, DelegationStatus, DelegationStep } from "@/ai/types";
+
+import { Markdown } from "./markdown";
+
+const statusLabels: Record<DelegationStatus, string> = {
+  running: "Working",
+  completed: "Done",
+  budget_exceeded: "Stopped at its limit",
+  failed: "Failed",
+  stopped: "Stopped",
+};
+
+const StepIcon = ({ step }: { step: DelegationStep }) => {
+  if (step.kind === "text") {
+    return <span className="mt-1.5 size-1.5 shrink-0 rounded-full bg-muted-foreground/50" />;
+  }
+  if (step.status === "running") return <Loader2 className="size-3 shrink-0 mt-0.5 animate-spin" />;
+  if (step.status === "failed") return <XCircle className="size-3 shrink-0 mt-0.5 text-red-500" />;
+  return <CheckCircle2 className="size-3 shrink-0 mt-0.5 text-green-600" />;
+};
+
+const DelegationItem = ({ delegation }: { delegation: Delegation }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const toolSteps = delegation.steps.filter((step) => step.kind === "tool").length;
+
+  return (
+    <div className="border rounded-md text-xs bg-muted/20">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-2 py-1.5 text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        {delegation.status === "running" ? (
+          <Loader2 className="size-3 shrink-0 animate-spin" />
+        ) : (
+          <span className="shrink-0 text-muted-foreground">{statusLabels[delegation.status]}</span>
+        )}
+        <span className="truncate flex-1 font-medium">{delegation.task}</span>
+        <span className="shrink-0 text-muted-foreground">
+          {toolSteps} {toolSteps === 1 ? "step" : "steps"}
+        </span>
+        <ChevronDown className={`size-3 shrink-0 transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.div
+            key="timeline"
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2, ease: "easeInOut" }}
+            style={{ overflow: "hidden" }}
+          >
+            <ol className="ml-3 mb-2 pl-3 pr-2 border-l flex flex-col gap-1.5 text-muted-foreground">
+              {delegation.steps.map((step, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <StepIcon step={step} />
+                  {step.kind === "tool" ? (
+                    <span className="min-w-0">
+                      <span className="text-foreground/80">{step.toolName}</span>
+                      {step.content && <span className="block text-red-500/80 break-words">{step.content}</span>}
+                    </span>
+                  ) : (
+                    <span className="min-w-0 whitespace-pre-wrap break-words">{step.content}</span>
+                  )}
+                </li>
+              ))}
+              {delegation.output && delegation.status !== "running" && (
+                <li className="pt-1 text-foreground/90">
+                  <Markdown showTypewriter={false}>{delegation.output}</Markdown>
+                </li>
+              )}
+            </ol>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export function DelegationTimeline({ delegations }: { delegations: Delegation[] }) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      {delegations.map((delegation) => (
+        <DelegationItem key={delegation.id} delegation={delegation} />
+      ))}
+    </div>
+  );
+}
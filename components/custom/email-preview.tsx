@@ -0,0 +1,40 @@
+//components/custom/email-preview.tsx
+// Shows the HTML of an email as its recipient would see it. The markup renders inside a sandboxed iframe with
+// no scripts, no same-origin access and a content policy that only loads https images, so nothing in it can
+// reach the chat page.
+"use client";
+
+import React, { useMemo } from "react";
+
+const EMAIL_CSP = "default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; font-src https:";
+
+export function buildEmailDocument(html: string): string {
+  return [
+    "<!DOCTYPE html><html><head>",
+    `<meta http-equiv="Content-Security-Policy" content="${EMAIL_CSP}">`,
+    '<meta charset="utf-8"><base target="_blank">',
+    "<style>body{margin:0;padding:16px;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;font-size:14px;color:#18181b;background:#fff;word-wrap:break-word}img{max-width:100%;height:auto}</style>",
+    "</head><body>",
+    html,
+    "</body></html>",
+  ].join("");
+}
+
+export const EmailPreview = ({ html, subject }: { html: string; subject?: string }) => {
+  const document = useMemo(() => buildEmailDocument(html), [html]);
+  return (
+    <figure className="my-3 sm:my-4 w-full rounded-lg border border-zinc-200 dark:border-zinc-700 overflow-hidden">
+      <figcaption className="flex items-center justify-between gap-2 px-3 py-2 text-xs font-medium text-zinc-600 dark:text-zinc-400 bg-zinc-50 dark:bg-zinc-900 border-b border-zinc-200 dark:border-zinc-700">
+        <span className="truncate">{subject ? `Email preview: ${subject}` : "Email preview"}</span>
+        <span className="shrink-0 text-[10px] uppercase tracking-wide">Sandboxed</span>
+      </figcaption>
+      <iframe
+        title={subject ? `Email preview: ${subject}` : "Email preview"}
+        sandbox=""
+        referrerPolicy="no-referrer"
+        srcDoc={document}
+        className="block w-full h-80 sm:h-96 bg-white resize-y"
+      />
+    </figure>
+  );
+};
@@ -0,0 +1,182 @@
+//components/custom/html-sanitizer.ts
+// Rehype plugin that cleans the HTML in chat messages. The model may write HTML, and so may whoever wrote a page
+// or email it read, so after rehype-raw parses it only allowlisted tags, attributes and inline styles are kept.
+// Links are opened in a new tab without an opener, and images must pass an URL policy that keeps them off local
+// hosts and caps how much data their paths and query strings can carry to the host they load from.
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet", "form", "textarea", "select",
+  "option", "button", "noscript", "template", "link", "meta", "base", "title", "head", "svg", "math", "canvas",
+  "audio", "source", "track", "portal",
+]);
+
+// Any other tag is unwrapped: its content stays, the tag itself goes
+const ALLOWED_TAGS = new Set([
+  "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "div", "span", "section", "article", "header", "footer",
+  "strong", "b", "em", "i", "u", "s", "del", "ins", "mark", "small", "sub", "sup", "abbr", "cite", "q",
+  "code", "pre", "kbd", "samp", "var", "blockquote", "ul", "ol", "li", "dl", "dt", "dd",
+  "table", "caption", "colgroup", "col", "thead", "tbody", "tfoot", "tr", "th", "td",
+  "a", "img", "video", "figure", "figcaption", "details", "summary", "input",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set([
+  "className", "id", "style", "title", "dir", "lang", "ariaLabel", "ariaHidden", "ariaDescribedBy",
+  // Citation references and remark-gfm footnotes
+  "dataCitation", "dataFootnotes", "dataFootnoteRef", "dataFootnoteBackref",
+]);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href"],
+  img: ["src", "alt", "width", "height"],
+  video: ["src", "poster", "controls", "width", "height"],
+  td: ["align", "colSpan", "rowSpan"],
+  th: ["align", "colSpan", "rowSpan", "scope"],
+  col: ["span"],
+  ol: ["start", "reversed"],
+  li: ["value"],
+  details: ["open"],
+  input: ["type", "checked", "disabled"],
+};
+
+// Classes that markdown plugins rely on; arbitrary utility classes could restyle the page around the message
+const ALLOWED_CLASSES = [/^language-[\w+-]+$/, /^math-(inline|display)$/, /^(contains-task-list|task-list-item|footnotes|sr-only|data-footnote-backref)$/];
+
+// Inline styles may format text, but never position, hide or overlay it, or load anything
+const ALLOWED_STYLES = new Set([
+  "color", "background-color", "font-weight", "font-style", "font-size", "font-family", "text-decoration",
+  "text-align", "line-height", "letter-spacing", "white-space", "vertical-align", "list-style-type",
+  "margin", "margin-top", "margin-right", "margin-bottom", "margin-left",
+  "padding", "padding-top", "padding-right", "padding-bottom", "padding-left",
+  "border", "border-top", "border-right", "border-bottom", "border-left", "border-color", "border-style",
+  "border-width", "border-radius", "border-collapse", "width", "max-width", "min-width",
+]);
+const UNSAFE_STYLE_VALUE = /url\s*\(|expression\s*\(|javascript:|@import|[<>\\]|\/\*/i;
+
+// Ids from message HTML must not clobber the page's own elements or globals
+const ID_PREFIX = "user-content-";
+
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"];
+const MAX_IMAGE_PATH_LENGTH = 200;
+const MAX_IMAGE_QUERY_LENGTH = 256;
+const DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp);base64,[A-Za-z0-9+/=\s]+$/i;
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value.trim());
+  } catch {
+    return null;
+  }
+}
+
+function isLocalHost(hostname: string): boolean {
+  return (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname.endsWith(".local") ||
+    hostname.endsWith(".internal") ||
+    /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) ||
+    hostname.startsWith("[")
+  );
+}
+
+export function isSafeLinkUrl(href: string): boolean {
+  const trimmed = href.trim();
+  if (trimmed.startsWith("#") || (trimmed.startsWith("/") && !trimmed.startsWith("//"))) return true;
+  const url = parseUrl(trimmed);
+  return !!url && LINK_PROTOCOLS.includes(url.protocol);
+}
+
+// Images load as soon as a message renders, without a click, so their URLs are held to a stricter policy:
+// https only, no local or IP hosts, and no long paths or query strings that could carry data out
+export function isSafeImageUrl(src: string): boolean {
+  const trimmed = src.trim();
+  if (trimmed.startsWith("data:")) return DATA_IMAGE.test(trimmed);
+  if (trimmed.startsWith("/") && !trimmed.startsWith("//")) return true;
+  const url = parseUrl(trimmed);
+  if (!url || url.protocol !== "https:" || url.username || url.password) return false;
+  if (isLocalHost(url.hostname)) return false;
+  return url.pathname.length <= MAX_IMAGE_PATH_LENGTH && url.search.length <= MAX_IMAGE_QUERY_LENGTH;
+}
+
+export function sanitizeStyle(style: string): string {
+  return style
+    .split(";")
+    .map((declaration) => {
+      const separator = declaration.indexOf(":");
+      if (separator === -1) return null;
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      if (!ALLOWED_STYLES.has(property) || !value || UNSAFE_STYLE_VALUE.test(value)) return null;
+      return `${property}: ${value.replace(/\s*!important\s*$/i, "")}`;
+    })
+    .filter(Boolean)
+    .join("; ");
+}
+
+function sanitizeProperties(tagName: string, properties: Record<string, any>): Record<string, any> | null {
+  const allowed = TAG_ATTRIBUTES[tagName] || [];
+  const clean: Record<string, any> = {};
+  for (const [name, value] of Object.entries(properties || {})) {
+    if (!GLOBAL_ATTRIBUTES.has(name) && !allowed.includes(name)) continue;
+    if (name === "className") {
+      const classes = (Array.isArray(value) ? value : String(value).split(/\s+/)).filter((className: string) =>
+        ALLOWED_CLASSES.some((pattern) => pattern.test(String(className)))
+      );
+      if (classes.length > 0) clean.className = classes;
+    } else if (name === "id") {
+      const id = String(value);
+      clean.id = id.startsWith(ID_PREFIX) ? id : `${ID_PREFIX}${id}`;
+    } else if (name === "style") {
+      const style = sanitizeStyle(String(value));
+      if (style) clean.style = style;
+    } else {
+      clean[name] = value;
+    }
+  }
+
+  if (tagName === "a") {
+    if (typeof clean.href !== "string" || !isSafeLinkUrl(clean.href)) {
+      delete clean.href;
+    } else if (!clean.href.trim().startsWith("#")) {
+      clean.target = "_blank";
+      clean.rel = ["noopener", "noreferrer", "nofollow"];
+    }
+  }
+  if (tagName === "img" && (typeof clean.src !== "string" || !isSafeImageUrl(clean.src))) return null;
+  if (tagName === "video") {
+    if (typeof clean.src !== "string" || !isSafeImageUrl(clean.src)) return null;
+    if (typeof clean.poster === "string" && !isSafeImageUrl(clean.poster)) delete clean.poster;
+  }
+  // remark-gfm task list checkboxes are the only inputs kept
+  if (tagName === "input") {
+    if (clean.type !== "checkbox") return null;
+    clean.disabled = true;
+  }
+  return clean;
+}
+
+function blockedImage(node: any): any {
+  const alt = node.properties?.alt ? String(node.properties.alt) : "";
+  return { type: "text", value: alt ? `[image blocked: ${alt}]` : "[image blocked]" };
+}
+
+function sanitizeChildren(children: any[]): any[] {
+  return children.flatMap((child) => {
+    if (child.type === "text") return [child];
+    if (child.type !== "element") return []; // Comments, doctypes and unparsed raw HTML
+    const tagName = String(child.tagName).toLowerCase();
+    if (DROPPED_TAGS.has(tagName)) return [];
+    if (!ALLOWED_TAGS.has(tagName)) return sanitizeChildren(child.children || []);
+    const properties = sanitizeProperties(tagName, child.properties);
+    if (!properties) return tagName === "img" || tagName === "video" ? [blockedImage(child)] : [];
+    return [{ ...child, tagName, properties, children: sanitizeChildren(child.children || []) }];
+  });
+}
+
+// Runs after rehype-raw and before rehype-katex, so the math markup KaTeX produces is not stripped
+export function rehypeSanitizeHtml() {
+  return (tree: any) => {
+    tree.children = sanitizeChildren(tree.children || []);
+  };
+}
@@ -9,6 +9,7 @@ import {
   PopoverContent,
 } from "@/components/ui/popover";
 
+import { EmailPreview } from './email-preview';
 import {
   CollapsibleCodeBlock,
   isInlineLink,
@@ -212,6 +213,11 @@ export const createMarkdownComponents = (isSmallScreen: boolean, showTypewriter:
       }
     };
     
+    // Email HTML is never rendered inline; ```email blocks open in a sandboxed preview
+    if (!inline && match && match[1].toLowerCase() === "email") {
+      return <EmailPreview html={codeContent} />;
+    }
+
     // Try scrape rendering first
     const scrape = tryRenderScrape();
     if (!inline && match && scrape) {
@@ -1,5 +1,5 @@
 //components/custom/markdown.tsx
-import React, { memo, useEffect, useRef, useState } from "react";
+import React, { memo, useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import "katex/dist/katex.min.css";
 import rehypeKatex from "rehype-katex";
@@ -8,13 +8,19 @@ import remarkEmoji from "remark-emoji";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
 
+import { Citation } from "@/ai/types";
+
+import { CitationFootnotes, CitationRef, findCitationIds, remarkCitations } from "./citations";
+import { rehypeSanitizeHtml } from "./html-sanitizer";
 import { createMarkdownComponents } from './markdown-renderers';
 
 // Custom KaTeX settings for tight layout
 const katexOptions = {
   throwOnError: false,
   strict: false,
-  trust: true,
+  // \href and \url may only link to web and mail addresses; \htmlStyle, \includegraphics and the like are refused
+  trust: ({ command, protocol }: { command: string; protocol?: string }) =>
+    (command === "\\href" || command === "\\url") && ["http", "https", "mailto"].includes(protocol || ""),
   maxSize: 500,
   maxExpand: 1000,
   // Tight spacing for math elements
@@ -26,7 +32,15 @@ const katexOptions = {
   }
 };
 
-const NonMemoizedMarkdown = ({ children, showTypewriter = true }: { children: string; showTypewriter?: boolean }) => {
+const NonMemoizedMarkdown = ({
+  children,
+  showTypewriter = true,
+  citations,
+}: {
+  children: string;
+  showTypewriter?: boolean;
+  citations?: Citation[]; // Set for assistant responses, whose [^id] references become numbered footnotes
+}) => {
   const [displayed, setDisplayed] = useState<string>("");
   const displayedRef = useRef<string>("");
   const [isSmallScreen, setIsSmallScreen] = useState<boolean>(false);
@@ -83,21 +97,43 @@ const NonMemoizedMarkdown = ({ children, showTypewriter = true }: { children: st
   }, [children, showTypewriter]);
 
   const components = createMarkdownComponents(isSmallScreen, showTypewriter);
+  const citedIds = useMemo(() => (citations ? findCitationIds(children ?? "") : []), [children, citations]);
+  const citationComponents = citations
+    ? {
+        ...components,
+        sup: (props: any) => {
+          const id = Number(props["data-citation"]);
+          if (!props["data-citation"] || !Number.isFinite(id)) return components.sup(props);
+          return (
+            <CitationRef
+              number={citedIds.indexOf(id) + 1 || citedIds.length + 1}
+              citation={citations.find((citation) => citation.id === id)}
+            />
+          );
+        },
+      }
+    : components;
 
   return (
     <div className="prose prose-zinc dark:prose-invert max-w-none w-full [&>*:first-child]:!mt-0 [&>*:last-child]:!mb-0">
       <ReactMarkdown
-        remarkPlugins={[remarkGfm, remarkMath, [remarkEmoji, { accessible: true }]]}
-        rehypePlugins={[[rehypeKatex, katexOptions], rehypeRaw]}
-        components={components}
+        remarkPlugins={[
+          remarkGfm,
+          remarkMath,
+          [remarkEmoji, { accessible: true }],
+          ...(citations ? [remarkCitations] : []),
+        ]}
+        rehypePlugins={[rehypeRaw, rehypeSanitizeHtml, [rehypeKatex, katexOptions]]}
+        components={citationComponents}
       >
         {showTypewriter ? displayed : children}
       </ReactMarkdown>
+      {citations && <CitationFootnotes ids={citedIds} citations={citations} />}
     </div>
   );
 };
 
 export const Markdown = memo(
   NonMemoizedMarkdown,
-  (prevProps, nextProps) => prevProps.children === nextProps.children,
+  (prevProps, nextProps) => prevProps.children === nextProps.children && prevProps.citations === nextProps.citations,
 );
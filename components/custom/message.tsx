@@ -5,11 +5,17 @@ import { Attachment, ToolInvocation } from "ai";
 import { motion } from "framer-motion";
 import { ReactNode, useEffect, useRef, useState } from "react";
 
+import { AgentPlan, Citation, Delegation, PlanStep, ResearchJob, ToolApprovalDecision, ToolApprovalRequest } from "@/ai/types";
+
+import { DelegationTimeline } from "./delegation-timeline";
 import { BotIcon, UserIcon } from "./icons";
 import { Markdown } from "./markdown";
 import { MessageActions } from "./message-actions";
 import { MessageImageDisplay } from "./message-image-display"; // New component for displaying images in messages
+import { PlanChecklist } from "./plan-checklist";
+import { ResearchJobs } from "./research-report";
 import { MessageReasoning } from "./thoughts";
+import { ToolApproval } from "./tool-approval";
 import { ToolExecution } from "./tool-execution"; // Import the new component
 import WeatherWidget from "./weather";
 import { AuthorizePayment } from "../flights/authorize-payment";
@@ -20,6 +26,9 @@ import { ListFlights } from "../flights/list-flights";
 import { SelectSeats } from "../flights/select-seats";
 import { VerifyPayment } from "../flights/verify-payment";
 
+// Assistant responses without sources still go through citation rendering, so invented references get flagged
+const noCitations: Citation[] = [];
+
 export const Message = ({
   chatId,
   role,
@@ -32,6 +41,16 @@ export const Message = ({
   isStreaming = false, // New prop to indicate if message is streaming
   onEditMessage,
   onUseAsInput,
+  pendingApproval,
+  onApprovalDecision,
+  stopped = false,
+  cachedTools,
+  onRefreshTools,
+  delegations,
+  plan,
+  onPlanApprove,
+  research,
+  citations,
 }: {
   chatId: string;
   role: string;
@@ -44,6 +63,16 @@ export const Message = ({
   isStreaming?: boolean; 
   onEditMessage?: (newContent: string) => void;
   onUseAsInput?: (content: string) => void;
+  pendingApproval?: ToolApprovalRequest;
+  onApprovalDecision?: (decisions: ToolApprovalDecision[]) => void;
+  stopped?: boolean;
+  cachedTools?: Record<string, string>;
+  onRefreshTools?: () => void;
+  delegations?: Delegation[];
+  plan?: AgentPlan;
+  onPlanApprove?: (steps: PlanStep[]) => void;
+  research?: ResearchJob[];
+  citations?: Citation[];
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [draftContent, setDraftContent] = useState(
@@ -130,12 +159,35 @@ export const Message = ({
                     toolName={toolName}
                     count={count}
                     isExecuting={isStreaming} // Pass streaming state to show different animation
+                    cachedAt={isStreaming ? undefined : cachedTools?.[toolName]}
+                    onRefresh={onRefreshTools}
                   />
                 ))}
               </div>
             </div>
           )}
 
+          {/* Plan-mode plan, editable until approved */}
+          {plan && role === "assistant" && (
+            <div className="mb-1 sm:mb-1.5 md:mb-1 w-full">
+              <PlanChecklist plan={plan} disabled={isStreaming} onApprove={onPlanApprove} />
+            </div>
+          )}
+
+          {/* Sub-agent runs from delegate_task */}
+          {delegations && delegations.length > 0 && role === "assistant" && (
+            <div className="mb-1 sm:mb-1.5 md:mb-1">
+              <DelegationTimeline delegations={delegations} />
+            </div>
+          )}
+
+          {/* Deep research jobs and their reports */}
+          {research && research.length > 0 && role === "assistant" && (
+            <div className="mb-1 sm:mb-1.5 md:mb-1 w-full">
+              <ResearchJobs jobs={research} />
+            </div>
+          )}
+
           {/* Thoughts/Reasoning - Mobile optimized */}
           {thoughts && (
             <div className="mb-1 sm:mb-1.5 md:mb-1">
@@ -232,7 +284,12 @@ export const Message = ({
                 [&_code]:max-w-full
                 [&_table]:w-full
               `}>
-                <Markdown showTypewriter={isStreaming && role === "assistant"}>{content}</Markdown>
+                <Markdown
+                  showTypewriter={isStreaming && role === "assistant"}
+                  citations={role === "assistant" ? citations || noCitations : undefined}
+                >
+                  {content}
+                </Markdown>
               </div>
               
               {/* Message Actions - Mobile optimized positioning */}
@@ -281,6 +338,25 @@ export const Message = ({
             </div>
           )}
 
+          {/* Marker for a response the user stopped */}
+          {stopped && role === "assistant" && !isStreaming && (
+            <div className="mt-1 text-xs italic text-muted-foreground">
+              Stopped by you before the response finished.
+            </div>
+          )}
+
+          {/* Pending approval for high-risk tool calls */}
+          {pendingApproval && role === "assistant" && onApprovalDecision && (
+            <div className="mt-1.5 w-full">
+              <ToolApproval
+                key={pendingApproval.approvalId}
+                request={pendingApproval}
+                disabled={isStreaming}
+                onSubmit={onApprovalDecision}
+              />
+            </div>
+          )}
+
           {/* Tool Invocations - Mobile optimized spacing */}
           {toolInvocations && (
             <div className="flex flex-col gap-2 sm:gap-2.5 md:gap-2 mt-1.5 sm:mt-1.5 md:mt-1 w-full">
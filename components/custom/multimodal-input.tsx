@@ -3,7 +3,7 @@
 
 import { Attachment, ChatRequestOptions, CreateMessage, Message } from "ai";
 import { motion, AnimatePresence } from "framer-motion";
-import { AudioLines, Mic, Square, X } from "lucide-react";
+import { AudioLines, ListChecks, Mic, Square, X } from "lucide-react";
 import React, {
   useRef,
   useEffect,
@@ -15,6 +15,8 @@ import React, {
 } from "react";
 import { toast } from "sonner";
 
+import { attachmentFormats, detectAttachmentFormat, getAttachmentSizeError, unsupportedAttachmentMessage } from "@/lib/attachment-formats";
+
 import { RecordingWaves, useAudio, AudioButtons } from "./audio";
 import { ArrowUpIcon, PaperclipIcon, StopIcon } from "./icons";
 import { MessageLimitBanner } from "./message-limit-banner";
@@ -86,6 +88,8 @@ export function MultimodalInput({
   messageCount,
   messageLimit,
   messageLimitResetAt,
+  planMode = false,
+  onPlanModeChange,
 }: {
   input: string;
   setInput: (value: string) => void;
@@ -107,6 +111,8 @@ export function MultimodalInput({
   messageCount: number;
   messageLimit: number;
   messageLimitResetAt: Date | null;
+  planMode?: boolean;
+  onPlanModeChange?: (planMode: boolean) => void;
 }) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isFocused, setIsFocused] = useState(false);
@@ -171,6 +177,14 @@ export function MultimodalInput({
   }, [attachments, handleSubmit, input, audioBlob]);
 
   const uploadFile = async (file: File) => {
+    // Same per-format checks as the upload route, so oversized files fail before uploading
+    const format = detectAttachmentFormat(file.type, file.name);
+    const validationError = format ? getAttachmentSizeError(format, file.size) : unsupportedAttachmentMessage;
+    if (validationError) {
+      toast.error(`${file.name}: ${validationError}`);
+      return;
+    }
+
     const formData = new FormData();
     formData.append("file", file);
 
@@ -312,11 +326,7 @@ export function MultimodalInput({
     setDragCounter(0);
 
     const files = Array.from(event.dataTransfer?.files || []);
-    const validFiles = files.filter(file => 
-      file.type.startsWith('image/') || 
-      file.type === 'application/pdf' ||
-      file.type.startsWith('audio/')
-    );
+    const validFiles = files.filter(file => detectAttachmentFormat(file.type, file.name));
 
     if (validFiles.length > 0) {
       setUploadQueue(validFiles.map((file) => file.name));
@@ -436,6 +446,7 @@ export function MultimodalInput({
             type="file"
             className="fixed -top-4 -left-4 size-0.5 opacity-0 pointer-events-none"
             ref={fileInputRef}
+            accept={attachmentFormats.flatMap((format) => [...format.mimeTypes, ...format.extensions.map((extension) => `.${extension}`)]).join(",")}
             multiple
             onChange={handleFileChange}
             tabIndex={-1}
@@ -542,6 +553,27 @@ export function MultimodalInput({
 
             {/* Action Buttons - Responsive positioning */}
             <div className="absolute bottom-2 sm:bottom-3 right-2 sm:right-3 flex items-center gap-1.5 sm:gap-2">
+              {onPlanModeChange && (
+                <Button
+                  className={`rounded-full p-1.5 sm:p-2 size-8 sm:size-10 border-border/50 transition-all duration-200 ${
+                    planMode
+                      ? "bg-primary/10 border-primary/40 text-primary hover:bg-primary/20"
+                      : "bg-background/50 hover:bg-muted/80 text-muted-foreground hover:text-foreground"
+                  }`}
+                  onClick={(event) => {
+                    event.preventDefault();
+                    onPlanModeChange(!planMode);
+                  }}
+                  variant="outline"
+                  disabled={isLoading}
+                  size="sm"
+                  title={planMode ? "Plan mode on: complex requests get a plan to review first" : "Plan mode off"}
+                  aria-pressed={planMode}
+                >
+                  <ListChecks size={14} className="sm:size-4" />
+                </Button>
+              )}
+
               <Button
                 className="rounded-full p-1.5 sm:p-2 size-8 sm:size-10 border-border/50 bg-background/50 hover:bg-muted/80 text-muted-foreground hover:text-foreground transition-all duration-200"
                 onClick={(event) => {
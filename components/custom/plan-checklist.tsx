@@ -0,0 +1,137 @@
+//components/custom/plan-checklist.tsx
+// Shows a plan-mode plan: editable while it waits for approval, then a checklist that follows the run
+'use client';
+
+import { motion } from "framer-motion";
+import { CheckCircle2, Circle, Loader2, MinusCircle, Plus, X, XCircle } from "lucide-react";
+import React, { useState } from "react";
+
+import { AgentPlan, PlanStatus, PlanStep } from "@/ai/types";
+import { generateUUID } from "@/lib/utils";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+
+const statusLabels: Record<PlanStatus, string> = {
+  proposed: "Waiting for your approval",
+  running: "In progress",
+  completed: "Done",
+  stopped: "Stopped",
+};
+
+const StepIcon = ({ step }: { step: PlanStep }) => {
+  if (step.status === "in_progress") return <Loader2 className="size-3.5 shrink-0 mt-0.5 animate-spin" />;
+  if (step.status === "done") return <CheckCircle2 className="size-3.5 shrink-0 mt-0.5 text-green-600" />;
+  if (step.status === "failed") return <XCircle className="size-3.5 shrink-0 mt-0.5 text-red-500" />;
+  if (step.status === "skipped") return <MinusCircle className="size-3.5 shrink-0 mt-0.5 text-muted-foreground" />;
+  return <Circle className="size-3.5 shrink-0 mt-0.5 text-muted-foreground" />;
+};
+
+const PlanEditor = ({
+  plan,
+  disabled,
+  onApprove,
+}: {
+  plan: AgentPlan;
+  disabled: boolean;
+  onApprove: (steps: PlanStep[]) => void;
+}) => {
+  const [steps, setSteps] = useState<PlanStep[]>(plan.steps);
+
+  const updateStep = (id: string, title: string) => {
+    setSteps((prev) => prev.map((step) => (step.id === id ? { ...step, title } : step)));
+  };
+
+  const addStep = () => {
+    setSteps((prev) => [...prev, { id: `step_${generateUUID()}`, title: "", tools: [], status: "pending" }]);
+  };
+
+  const filledSteps = steps.filter((step) => step.title.trim().length > 0);
+
+  return (
+    <>
+      <ol className="flex flex-col gap-1.5">
+        {steps.map((step, index) => (
+          <li key={step.id} className="flex items-center gap-2">
+            <span className="w-4 shrink-0 text-right text-muted-foreground">{index + 1}.</span>
+            <Input
+              className="h-8 text-xs sm:text-sm"
+              value={step.title}
+              placeholder="Describe this step"
+              disabled={disabled}
+              onChange={(e) => updateStep(step.id, e.target.value)}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="size-8 p-0 shrink-0"
+              disabled={disabled}
+              aria-label="Remove step"
+              onClick={() => setSteps((prev) => prev.filter((candidate) => candidate.id !== step.id))}
+            >
+              <X className="size-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex items-center justify-between gap-2">
+        <Button size="sm" variant="ghost" disabled={disabled} onClick={addStep}>
+          <Plus className="size-3.5 mr-1" />
+          Add step
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled || filledSteps.length === 0}
+          onClick={() => onApprove(filledSteps.map((step) => ({ ...step, title: step.title.trim() })))}
+        >
+          Approve & run
+        </Button>
+      </div>
+    </>
+  );
+};
+
+export function PlanChecklist({
+  plan,
+  disabled = false,
+  onApprove,
+}: {
+  plan: AgentPlan;
+  disabled?: boolean;
+  onApprove?: (steps: PlanStep[]) => void;
+}) {
+  const editable = plan.status === "proposed" && Boolean(onApprove);
+
+  return (
+    <motion.div
+      className="flex flex-col gap-2 border rounded-lg p-2.5 sm:p-3 bg-background/50 w-full text-xs sm:text-sm"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.2 }}
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-medium truncate flex-1">{plan.goal}</span>
+        <span className="shrink-0 text-[10px] sm:text-xs text-muted-foreground">{statusLabels[plan.status]}</span>
+      </div>
+
+      {editable && onApprove ? (
+        <PlanEditor key={plan.id} plan={plan} disabled={disabled} onApprove={onApprove} />
+      ) : (
+        <ol className="flex flex-col gap-1.5">
+          {plan.steps.map((step) => (
+            <li key={step.id} className="flex items-start gap-2">
+              <StepIcon step={step} />
+              <span
+                className={`min-w-0 break-words ${
+                  step.status === "done" || step.status === "skipped" ? "text-muted-foreground" : ""
+                } ${step.status === "skipped" ? "line-through" : ""}`}
+              >
+                {step.title}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,192 @@
+//components/custom/research-report.tsx
+// Shows deep_research jobs: live progress while they run, then the report with its sources and export buttons
+'use client';
+
+import { AnimatePresence, motion } from "framer-motion";
+import { ChevronDown, Download, Loader2 } from "lucide-react";
+import React, { useState } from "react";
+
+import { researchReportFileName, researchReportToMarkdown } from "@/ai/research-report";
+import { ResearchConfidence, ResearchJob, ResearchPhase, ResearchReport } from "@/ai/types";
+
+import { Markdown } from "./markdown";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+
+const phaseLabels: Record<ResearchPhase, string> = {
+  planning: "Planning sub-questions",
+  searching: "Searching",
+  reading: "Reading top pages",
+  analyzing: "Looking for gaps",
+  writing: "Writing the report",
+  done: "Done",
+};
+
+const confidenceStyles: Record<ResearchConfidence, string> = {
+  high: "border-green-600/40 text-green-700 dark:text-green-400",
+  medium: "border-amber-500/40 text-amber-700 dark:text-amber-400",
+  low: "border-red-500/40 text-red-700 dark:text-red-400",
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ReportView = ({ report }: { report: ResearchReport }) => {
+  const [showSources, setShowSources] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-3 px-2.5 pb-2.5">
+      {report.summary && <p className="text-muted-foreground">{report.summary}</p>}
+
+      {report.sections.map((section, index) => (
+        <div key={index} className="flex flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{section.heading}</span>
+            <Badge variant="outline" className={`text-[10px] ${confidenceStyles[section.confidence]}`}>
+              {section.confidence} confidence
+            </Badge>
+          </div>
+          <Markdown showTypewriter={false}>{section.content}</Markdown>
+        </div>
+      ))}
+
+      {report.openQuestions.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <span className="font-medium">Open questions</span>
+          <ul className="list-disc pl-5 text-muted-foreground">
+            {report.openQuestions.map((question, index) => (
+              <li key={index}>{question}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <button
+          type="button"
+          className="flex items-center gap-1 font-medium text-left"
+          onClick={() => setShowSources(!showSources)}
+          aria-expanded={showSources}
+        >
+          Sources ({report.sources.length})
+          <ChevronDown className={`size-3 transition-transform ${showSources ? "rotate-180" : ""}`} />
+        </button>
+        {showSources && (
+          <ol className="flex flex-col gap-1 text-muted-foreground">
+            {report.sources.map((source) => (
+              <li key={source.id} className="flex items-baseline gap-2 min-w-0">
+                <span className="shrink-0">{source.id}.</span>
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                  {source.title}
+                </a>
+                <span className="shrink-0 text-[10px]">
+                  {source.domain} · score {Math.round(source.score * 100)}
+                  {source.read ? " · read" : ""}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => downloadFile(researchReportToMarkdown(report), researchReportFileName(report, "md"), "text/markdown")}
+        >
+          <Download className="size-3.5 mr-1" />
+          Markdown
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            downloadFile(JSON.stringify(report, null, 2), researchReportFileName(report, "json"), "application/json")
+          }
+        >
+          <Download className="size-3.5 mr-1" />
+          JSON
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const ResearchJobItem = ({ job }: { job: ResearchJob }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const running = job.status === "running";
+
+  return (
+    <div className="border rounded-md text-xs sm:text-sm bg-muted/20">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-2.5 py-2 text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        {running && <Loader2 className="size-3.5 shrink-0 animate-spin" />}
+        <span className="truncate flex-1 font-medium">{job.report?.title || job.question}</span>
+        <span className="shrink-0 text-[10px] sm:text-xs text-muted-foreground">
+          {running
+            ? `${phaseLabels[job.phase]} · ${job.sourcesFound} sources`
+            : job.status === "completed"
+            ? `${job.report?.sources.length || 0} sources · ${job.searches} searches`
+            : job.status === "stopped"
+            ? "Stopped"
+            : "Failed"}
+        </span>
+        <ChevronDown className={`size-3 shrink-0 transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.div
+            key="research"
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2, ease: "easeInOut" }}
+            style={{ overflow: "hidden" }}
+          >
+            {job.report ? (
+              <ReportView report={job.report} />
+            ) : (
+              <div className="flex flex-col gap-1 px-2.5 pb-2.5 text-muted-foreground">
+                {job.error && <span className="text-red-500/80 break-words">{job.error}</span>}
+                {running && (
+                  <span>
+                    Round {Math.max(job.iteration, 1)} · {job.searches} searches · {job.pagesRead} pages read
+                  </span>
+                )}
+                {job.subQuestions.length > 0 && (
+                  <ul className="list-disc pl-5">
+                    {job.subQuestions.map((question, index) => (
+                      <li key={index}>{question}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export function ResearchJobs({ jobs }: { jobs: ResearchJob[] }) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      {jobs.map((job) => (
+        <ResearchJobItem key={job.id} job={job} />
+      ))}
+    </div>
+  );
+}
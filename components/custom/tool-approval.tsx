@@ -0,0 +1,156 @@
+//components/custom/tool-approval.tsx
+"use client";
+
+import { motion } from "framer-motion";
+import { useState } from "react";
+
+import { ToolApprovalDecision, ToolApprovalRequest } from "@/ai/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+import { EmailPreview } from "./email-preview";
+
+interface ToolApprovalProps {
+  request: ToolApprovalRequest;
+  disabled?: boolean;
+  onSubmit: (decisions: ToolApprovalDecision[]) => void;
+}
+
+type CallState = {
+  decision?: "approve" | "reject";
+  editing: boolean;
+  draftArgs: string;
+  parseError?: string;
+};
+
+const formatToolName = (name: string) => name.replace(/_/g, " ");
+
+export const ToolApproval = ({ request, disabled = false, onSubmit }: ToolApprovalProps) => {
+  const [states, setStates] = useState<Record<string, CallState>>(() =>
+    Object.fromEntries(
+      request.toolCalls.map((call) => [
+        call.id,
+        { editing: false, draftArgs: JSON.stringify(call.args ?? {}, null, 2) },
+      ])
+    )
+  );
+
+  const updateState = (id: string, patch: Partial<CallState>) => {
+    setStates((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const handleSaveEdit = (id: string) => {
+    try {
+      JSON.parse(states[id].draftArgs);
+      updateState(id, { editing: false, parseError: undefined, decision: "approve" });
+    } catch {
+      updateState(id, { parseError: "Arguments must be valid JSON." });
+    }
+  };
+
+  const allDecided = request.toolCalls.every((call) => states[call.id]?.decision && !states[call.id]?.editing);
+
+  const handleSubmit = () => {
+    const decisions: ToolApprovalDecision[] = request.toolCalls.map((call) => {
+      const state = states[call.id];
+      if (state.decision !== "approve") {
+        return { toolCallId: call.id, decision: "reject" };
+      }
+      const editedArgs = JSON.parse(state.draftArgs);
+      const changed = JSON.stringify(editedArgs) !== JSON.stringify(call.args ?? {});
+      return { toolCallId: call.id, decision: "approve", args: changed ? editedArgs : undefined };
+    });
+    onSubmit(decisions);
+  };
+
+  return (
+    <motion.div
+      className="flex flex-col gap-2 border rounded-lg p-2.5 sm:p-3 bg-background/50 w-full overflow-hidden"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.2 }}
+    >
+      <p className="text-xs sm:text-sm font-medium">
+        {request.toolCalls.length === 1
+          ? "This action needs your approval before it runs."
+          : `These ${request.toolCalls.length} actions need your approval before they run.`}
+      </p>
+
+      {request.toolCalls.map((call) => {
+        const state = states[call.id];
+        return (
+          <div key={call.id} className="flex flex-col gap-1.5 border rounded-md p-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs sm:text-sm font-medium capitalize">{formatToolName(call.name)}</span>
+              <Badge variant="outline" className="text-[10px] capitalize">{call.integration}</Badge>
+              <Badge variant="destructive" className="text-[10px]">{call.riskLevel} risk</Badge>
+              {state.decision && !state.editing && (
+                <span className="text-[10px] sm:text-xs text-muted-foreground ml-auto">
+                  {state.decision === "approve" ? "Approved" : "Rejected"}
+                </span>
+              )}
+            </div>
+            {call.reason && <p className="text-[10px] sm:text-xs text-amber-600">{call.reason}</p>}
+
+            {state.editing ? (
+              <>
+                <Textarea
+                  className="font-mono text-xs min-h-[120px]"
+                  value={state.draftArgs}
+                  onChange={(e) => updateState(call.id, { draftArgs: e.target.value })}
+                />
+                {state.parseError && <p className="text-xs text-red-600">{state.parseError}</p>}
+              </>
+            ) : (
+              <>
+                <pre className="text-xs text-muted-foreground overflow-auto max-h-48 max-w-full">
+                  {state.draftArgs}
+                </pre>
+                {call.args?.isHtml && typeof call.args.body === "string" && (
+                  <EmailPreview html={call.args.body} subject={call.args.subject} />
+                )}
+              </>
+            )}
+
+            <div className="flex items-center gap-2">
+              {state.editing ? (
+                <>
+                  <Button size="sm" variant="outline" disabled={disabled} onClick={() => handleSaveEdit(call.id)}>
+                    Save & approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={disabled}
+                    onClick={() => updateState(call.id, { editing: false, parseError: undefined })}
+                  >
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button size="sm" disabled={disabled} onClick={() => updateState(call.id, { decision: "approve" })}>
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={disabled} onClick={() => updateState(call.id, { editing: true })}>
+                    Edit
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={disabled} onClick={() => updateState(call.id, { decision: "reject" })}>
+                    Reject
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <Button size="sm" disabled={disabled || !allDecided} onClick={handleSubmit}>
+          Continue
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
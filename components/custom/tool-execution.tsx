@@ -1,14 +1,42 @@
 //components/custom/tool-execution.tsx
+import { differenceInMinutes } from "date-fns";
 import { motion } from "framer-motion";
 import Image from "next/image";
-import { VscTools } from "react-icons/vsc";
+import { VscRefresh, VscTools } from "react-icons/vsc";
 
 interface ToolExecutionProps {
   toolName: string;
   count: number;
   isExecuting?: boolean; // New prop to indicate if tool is currently executing
+  cachedAt?: string; // Set when the result was reused from the tool cache
+  onRefresh?: () => void; // Answers again with fresh tool results
 }
 
+const formatCachedAge = (cachedAt: string): string => {
+  const minutes = differenceInMinutes(new Date(), new Date(cachedAt));
+  if (minutes < 1) return "cached just now";
+  if (minutes < 60) return `cached ${minutes} min ago`;
+  return `cached ${Math.floor(minutes / 60)} h ago`;
+};
+
+// Shown next to a tool whose result came from the cache, with a way to fetch it again
+const CachedBadge = ({ cachedAt, onRefresh }: { cachedAt: string; onRefresh?: () => void }) => (
+  <span className="inline-flex items-center gap-1 shrink-0 text-muted-foreground font-normal">
+    · {formatCachedAge(cachedAt)}
+    {onRefresh && (
+      <button
+        type="button"
+        onClick={onRefresh}
+        className="inline-flex items-center hover:text-foreground"
+        title="Refresh with live results"
+        aria-label="Refresh with live results"
+      >
+        <VscRefresh className="size-2.5 sm:size-3" />
+      </button>
+    )}
+  </span>
+);
+
 // Tool name to logo mapping
 const getToolLogo = (toolName: string): { src: string; alt: string } | null => {
   const toolMap: Record<string, { src: string; alt: string }> = {
@@ -47,7 +75,7 @@ const getToolLogo = (toolName: string): { src: string; alt: string } | null => {
   return toolMap[toolName.toLowerCase()] || null;
 };
 
-export const ToolExecution = ({ toolName, count, isExecuting = false }: ToolExecutionProps) => {
+export const ToolExecution = ({ toolName, count, isExecuting = false, cachedAt, onRefresh }: ToolExecutionProps) => {
   const toolLogo = getToolLogo(toolName);
   
   return (
@@ -84,6 +112,7 @@ export const ToolExecution = ({ toolName, count, isExecuting = false }: ToolExec
               <>Used <span className="text-foreground/80">{toolLogo.alt}</span></>
             )}
           </span>
+          {cachedAt && <CachedBadge cachedAt={cachedAt} onRefresh={onRefresh} />}
         </>
       ) : (
         <>
@@ -103,6 +132,7 @@ export const ToolExecution = ({ toolName, count, isExecuting = false }: ToolExec
               <>Used <span className="text-foreground/80">{toolName}</span></>
             )}
           </span>
+          {cachedAt && <CachedBadge cachedAt={cachedAt} onRefresh={onRefresh} />}
         </>
       )}
     </motion.div>
@@ -2,14 +2,15 @@
 import "server-only";
 
 import { genSaltSync, hashSync, compareSync } from "bcrypt-ts";
-import { desc, eq, and, sql, gt } from "drizzle-orm";
+import { desc, eq, and, sql, gt, gte, lte, ilike, or, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 
+import { normalizeRedactionPolicy, RedactionPolicy } from "@/ai/redaction-policy";
 import { encryptApiKey, decryptApiKey, encryptOAuthToken, decryptOAuthToken } from "@/lib/encryption"; // Add encryptOAuthToken, decryptOAuthToken
 import crypto from 'crypto';
 
-import { user, chat, User, reservation, apiKey, ApiKey, notification, oauthConnection, OAuthConnection } from "./schema"; // Add oauthConnection, OAuthConnection
+import { user, chat, User, reservation, apiKey, ApiKey, notification, oauthConnection, OAuthConnection, userMemory, UserMemory, adminAuditLog, AdminAuditLog, AdminAuditDiff } from "./schema"; // Add oauthConnection, OAuthConnection
 
 // Optionally, if not using email/pass login, you can
 // use the Drizzle adapter for Auth.js / NextAuth
@@ -246,6 +247,68 @@ export async function getDecryptedApiKey({ userId, service }: { userId: string;
   return decrypted.value;
 }
 
+// Every decrypted API key and OAuth access token of a user, keyed by service
+export interface UserCredentials {
+  apiKeys: Record<string, string>;
+  oauthTokens: Record<string, string>;
+}
+
+// Load all of a user's ApiKey and OAuthConnection rows in a single query and decrypt them in parallel
+export async function getUserCredentials(userId: string): Promise<UserCredentials> {
+  try {
+    const rows = await db
+      .select({
+        kind: sql<string>`'api_key'`.as("kind"),
+        service: apiKey.service,
+        value: sql<string | null>`${apiKey.keyEncrypted}`.as("value"),
+      })
+      .from(apiKey)
+      .where(eq(apiKey.userId, userId))
+      .unionAll(
+        db
+          .select({
+            kind: sql<string>`'oauth'`.as("kind"),
+            service: oauthConnection.service,
+            value: sql<string | null>`${oauthConnection.accessToken}`.as("value"),
+          })
+          .from(oauthConnection)
+          .where(eq(oauthConnection.userId, userId))
+      );
+
+    const credentials: UserCredentials = { apiKeys: {}, oauthTokens: {} };
+    await Promise.all(
+      rows.map(async (row) => {
+        if (!row.value) return;
+        try {
+          if (row.kind === "api_key") {
+            const decrypted = await decryptApiKey(row.value);
+            credentials.apiKeys[row.service] = decrypted.value;
+            // Lazy migration: re-encrypt with the primary key, as getDecryptedApiKey does
+            if (decrypted.reEncrypt) {
+              await saveApiKey({ userId, service: row.service, rawKey: decrypted.value });
+            }
+          } else {
+            const decrypted = await decryptOAuthToken(row.value);
+            credentials.oauthTokens[row.service] = decrypted.value;
+            if (decrypted.reEncrypt) {
+              const newEncryptedToken = await encryptOAuthToken(decrypted.value);
+              await db.update(oauthConnection)
+                .set({ accessToken: newEncryptedToken })
+                .where(and(eq(oauthConnection.userId, userId), eq(oauthConnection.service, row.service)));
+            }
+          }
+        } catch (error) {
+          console.error(`Failed to decrypt ${row.kind} credential for service ${row.service}:`, error);
+        }
+      })
+    );
+    return credentials;
+  } catch (error) {
+    console.error("Failed to load user credentials:", error);
+    throw error;
+  }
+}
+
 // Delete a user's API key for a service
 export async function deleteApiKey({ userId, service }: { userId: string; service: string }) {
   return await db.delete(apiKey).where(and(eq(apiKey.userId, userId), eq(apiKey.service, service)));
@@ -452,6 +515,50 @@ export async function setUserLanguage({ userId, language }: { userId: string; la
   }
 }
 
+// Tool approval preferences ("always allow" per integration)
+export async function getUserToolApprovalAllowList(userId: string): Promise<string[]> {
+  try {
+    const [u] = await db.select({ toolApprovalAllowList: user.toolApprovalAllowList }).from(user).where(eq(user.id, userId));
+    return u?.toolApprovalAllowList || [];
+  } catch (error) {
+    console.error("Failed to get tool approval preferences:", error);
+    throw error;
+  }
+}
+
+export async function setUserToolApprovalAllowList({ userId, allowList }: { userId: string; allowList: string[] }): Promise<void> {
+  try {
+    await db.update(user)
+      .set({ toolApprovalAllowList: allowList })
+      .where(eq(user.id, userId));
+  } catch (error) {
+    console.error("Failed to set tool approval preferences:", error);
+    throw error;
+  }
+}
+
+// Redaction policy for tool results; users who never changed it get the default
+export async function getUserRedactionPolicy(userId: string): Promise<RedactionPolicy> {
+  try {
+    const [u] = await db.select({ redactionPolicy: user.redactionPolicy }).from(user).where(eq(user.id, userId));
+    return normalizeRedactionPolicy(u?.redactionPolicy);
+  } catch (error) {
+    console.error("Failed to get redaction policy:", error);
+    throw error;
+  }
+}
+
+export async function setUserRedactionPolicy({ userId, policy }: { userId: string; policy: RedactionPolicy }): Promise<void> {
+  try {
+    await db.update(user)
+      .set({ redactionPolicy: policy })
+      .where(eq(user.id, userId));
+  } catch (error) {
+    console.error("Failed to set redaction policy:", error);
+    throw error;
+  }
+}
+
 // Get a user by their ID
 export async function getUserById(userId: string): Promise<User | undefined> {
   try {
@@ -719,3 +826,149 @@ export async function resetPasswordWithToken({
     throw error;
   }
 }
+
+/* -------------------------------------------------------------------------- */
+/*                               User Memory                                  */
+/* -------------------------------------------------------------------------- */
+
+export const userMemoryCategories = ["fact", "preference", "person", "project"] as const;
+export type UserMemoryCategory = (typeof userMemoryCategories)[number];
+
+export async function getUserMemories(userId: string): Promise<UserMemory[]> {
+  try {
+    return await db.select().from(userMemory)
+      .where(eq(userMemory.userId, userId))
+      .orderBy(desc(userMemory.updatedAt));
+  } catch (error) {
+    console.error("Failed to get user memories:", error);
+    throw error;
+  }
+}
+
+export async function createUserMemory({
+  userId,
+  category,
+  content,
+  sourceChatId,
+}: {
+  userId: string;
+  category: UserMemoryCategory;
+  content: string;
+  sourceChatId?: string | null;
+}): Promise<UserMemory> {
+  try {
+    const [created] = await db.insert(userMemory)
+      .values({ userId, category, content, sourceChatId: sourceChatId || null })
+      .returning();
+    return created;
+  } catch (error) {
+    console.error("Failed to create user memory:", error);
+    throw error;
+  }
+}
+
+export async function updateUserMemory({
+  id,
+  userId,
+  category,
+  content,
+}: {
+  id: string;
+  userId: string;
+  category?: UserMemoryCategory;
+  content?: string;
+}): Promise<UserMemory | undefined> {
+  try {
+    const [updated] = await db.update(userMemory)
+      .set({
+        ...(category ? { category } : {}),
+        ...(content ? { content } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(userMemory.id, id), eq(userMemory.userId, userId)))
+      .returning();
+    return updated;
+  } catch (error) {
+    console.error("Failed to update user memory:", error);
+    throw error;
+  }
+}
+
+// Scoped to the owner so one user can never delete another user's memories
+export async function deleteUserMemories({ userId, ids }: { userId: string; ids: string[] }): Promise<number> {
+  if (ids.length === 0) return 0;
+  try {
+    const deleted = await db.delete(userMemory)
+      .where(and(eq(userMemory.userId, userId), inArray(userMemory.id, ids)))
+      .returning({ id: userMemory.id });
+    return deleted.length;
+  } catch (error) {
+    console.error("Failed to delete user memories:", error);
+    throw error;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Admin Audit Log                               */
+/* -------------------------------------------------------------------------- */
+
+export async function createAdminAuditLogEntry(entry: {
+  actorId: string;
+  actorEmail: string;
+  action: string;
+  targetType?: string;
+  targetId?: string;
+  targetLabel?: string;
+  diff?: AdminAuditDiff;
+  ip?: string | null;
+}): Promise<void> {
+  try {
+    await db.insert(adminAuditLog).values(entry);
+  } catch (error) {
+    console.error("Failed to write admin audit log entry:", error);
+    throw error;
+  }
+}
+
+export interface AdminAuditLogFilters {
+  actor?: string; // Part of the actor's email
+  action?: string;
+  target?: string; // Target id, or part of its label
+  from?: Date;
+  to?: Date;
+}
+
+// Newest first
+export async function getAdminAuditLog({
+  filters = {},
+  limit = 50,
+  offset = 0,
+}: {
+  filters?: AdminAuditLogFilters;
+  limit?: number;
+  offset?: number;
+}): Promise<{ entries: AdminAuditLog[]; total: number }> {
+  const conditions = [];
+  if (filters.actor) conditions.push(ilike(adminAuditLog.actorEmail, `%${filters.actor}%`));
+  if (filters.action) conditions.push(eq(adminAuditLog.action, filters.action));
+  if (filters.target) {
+    conditions.push(or(eq(adminAuditLog.targetId, filters.target), ilike(adminAuditLog.targetLabel, `%${filters.target}%`)));
+  }
+  if (filters.from) conditions.push(gte(adminAuditLog.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(adminAuditLog.createdAt, filters.to));
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  try {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(adminAuditLog).where(whereClause);
+    const entries = await db.select()
+      .from(adminAuditLog)
+      .where(whereClause)
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(limit)
+      .offset(offset);
+    return { entries, total: Number(count) || 0 };
+  } catch (error) {
+    console.error("Failed to get admin audit log:", error);
+    throw error;
+  }
+}
@@ -1,3 +1,4 @@
+import { RedactionPolicy } from "@/ai/redaction-policy";
 import { Message } from "@/ai/types";
 import { InferSelectModel } from "drizzle-orm";
 import {
@@ -32,6 +33,10 @@ export const user = pgTable("User", {
   // Per-user agent customization
   customInstruction: varchar("customInstruction", { length: 4000 }),
   language: varchar("language", { length: 20 }),
+  // Integrations whose high-risk tool actions run without asking first
+  toolApprovalAllowList: json("toolApprovalAllowList").$type<string[]>(),
+  // Which sensitive values are replaced with placeholders before tool results reach the model
+  redactionPolicy: json("redactionPolicy").$type<RedactionPolicy>(),
 });
 
 export type User = InferSelectModel<typeof user>;
@@ -126,3 +131,46 @@ export const task = pgTable("Task", {
 });
 
 export type Task = InferSelectModel<typeof task>;
+
+/* -------------------------------------------------------------------------- */
+/*                            User Memory Table                               */
+/* -------------------------------------------------------------------------- */
+
+// Long-term facts the agent keeps about a user across chats
+export const userMemory = pgTable("UserMemory", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  userId: uuid("userId")
+    .notNull()
+    .references(() => user.id),
+  category: varchar("category", { length: 20 }).notNull().default("fact"), // fact, preference, person, project
+  content: varchar("content", { length: 1000 }).notNull(),
+  sourceChatId: varchar("sourceChatId", { length: 64 }), // Chat the memory was learned in, if any
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+});
+
+export type UserMemory = InferSelectModel<typeof userMemory>;
+
+/* -------------------------------------------------------------------------- */
+/*                           Admin Audit Log Table                            */
+/* -------------------------------------------------------------------------- */
+
+// Changed fields of an audited record, e.g. { plan: { from: "Free", to: "Pro" } }
+export type AdminAuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+// Every action taken through the admin API. Actor and target are kept as plain values, not references,
+// so entries outlive the accounts they mention.
+export const adminAuditLog = pgTable("AdminAuditLog", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  actorId: uuid("actorId").notNull(),
+  actorEmail: varchar("actorEmail", { length: 64 }).notNull(),
+  action: varchar("action", { length: 64 }).notNull(), // e.g. user.update, user.delete, admin.verify
+  targetType: varchar("targetType", { length: 32 }), // e.g. user
+  targetId: varchar("targetId", { length: 64 }),
+  targetLabel: varchar("targetLabel", { length: 128 }), // e.g. the target user's email
+  diff: json("diff").$type<AdminAuditDiff>(),
+  ip: varchar("ip", { length: 64 }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+});
+
+export type AdminAuditLog = InferSelectModel<typeof adminAuditLog>;
@@ -0,0 +1,123 @@
+//lib/admin-auth.ts
+import "server-only";
+
+import crypto from "crypto";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@/app/(auth)/auth";
+import { createAdminAuditLogEntry, isUserAdminById } from "@/db/queries";
+import { AdminAuditDiff } from "@/db/schema";
+import redis, { redisKeys } from "@/lib/redis";
+
+// Admin API access takes an admin account and the admin access code entered in the AdminOTPGate.
+// A correct code is remembered for the browser that entered it through an httpOnly cookie whose
+// hash is kept in Redis, so it can be revoked and never outlives its TTL.
+
+export const ADMIN_VERIFICATION_COOKIE = "admin_verification";
+const VERIFICATION_TTL_SECONDS = 12 * 60 * 60;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_ATTEMPT_WINDOW_SECONDS = 15 * 60;
+
+export interface AdminActor {
+  id: string;
+  email: string;
+  ip: string | null;
+}
+
+export type AdminGuardResult =
+  | { admin: AdminActor; response?: undefined }
+  | { admin?: undefined; response: NextResponse };
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export function getClientIp(req: NextRequest): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  return forwarded?.split(",")[0].trim() || req.headers.get("x-real-ip") || null;
+}
+
+export async function isAdminVerified(req: NextRequest, userId: string): Promise<boolean> {
+  const token = req.cookies.get(ADMIN_VERIFICATION_COOKIE)?.value;
+  if (!token) return false;
+  const stored = await redis.get<string>(redisKeys.adminVerification(userId));
+  return !!stored && safeEqual(stored, hashToken(token));
+}
+
+// Guards every route under app/api/admin. Pass allowUnverified for the route that checks the access code itself.
+export async function requireAdmin(
+  req: NextRequest,
+  { allowUnverified = false }: { allowUnverified?: boolean } = {}
+): Promise<AdminGuardResult> {
+  const session = await auth();
+  if (!session?.user?.id || !session.user.email) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!(await isUserAdminById(session.user.id))) {
+    return { response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  if (!allowUnverified && !(await isAdminVerified(req, session.user.id))) {
+    return {
+      response: NextResponse.json({ error: "Admin verification required", verificationRequired: true }, { status: 403 }),
+    };
+  }
+  return { admin: { id: session.user.id, email: session.user.email, ip: getClientIp(req) } };
+}
+
+export type AccessCodeCheck = "verified" | "incorrect" | "too_many_attempts" | "not_configured";
+
+// On success the returned token goes into the verification cookie
+export async function verifyAdminAccessCode(
+  userId: string,
+  code: string
+): Promise<{ status: AccessCodeCheck; token?: string }> {
+  const expected = process.env.ADMIN_ACCESS_CODE;
+  if (!expected) return { status: "not_configured" };
+
+  const attemptsKey = redisKeys.adminVerificationAttempts(userId);
+  const attempts = await redis.incr(attemptsKey);
+  if (attempts === 1) await redis.expire(attemptsKey, CODE_ATTEMPT_WINDOW_SECONDS);
+  if (attempts > MAX_CODE_ATTEMPTS) return { status: "too_many_attempts" };
+  if (!safeEqual(code, expected)) return { status: "incorrect" };
+
+  await redis.del(attemptsKey);
+  const token = crypto.randomBytes(32).toString("hex");
+  await redis.set(redisKeys.adminVerification(userId), hashToken(token), { ex: VERIFICATION_TTL_SECONDS });
+  return { status: "verified", token };
+}
+
+export function setAdminVerificationCookie(response: NextResponse, token: string) {
+  response.cookies.set(ADMIN_VERIFICATION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: VERIFICATION_TTL_SECONDS,
+    path: "/",
+  });
+}
+
+// Fields whose values differ between two versions of a record
+export function diffFields<T extends Record<string, any>>(before: T, after: Partial<T>, fields: Array<keyof T>): AdminAuditDiff {
+  const diff: AdminAuditDiff = {};
+  for (const field of fields) {
+    if (field in after && before[field] !== after[field]) {
+      diff[field as string] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  }
+  return diff;
+}
+
+// A failed audit write is logged, but does not undo the action it describes
+export async function recordAdminAction(
+  admin: AdminActor,
+  entry: { action: string; targetType?: string; targetId?: string; targetLabel?: string; diff?: AdminAuditDiff }
+): Promise<void> {
+  await createAdminAuditLogEntry({ actorId: admin.id, actorEmail: admin.email, ip: admin.ip, ...entry }).catch(() => {});
+}
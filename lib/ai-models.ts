@@ -1,13 +1,21 @@
 // lib/ai-models.ts
+import { ModelSelection, parseModelSelection } from "@/ai/providers";
 
-export function getGeminiModelForPlan(plan: string): string {
-  switch (plan?.toLowerCase()) {
-    case "advanced":
-      return "gemini-2.5-pro";
-    case "pro":
-      return "gemini-2.5-flash";
-    case "free":
-    default:
-      return "gemini-2.0-flash";
-  }
-} 
+const planModels: Record<string, ModelSelection> = {
+  free: { provider: "gemini", model: "gemini-2.0-flash" },
+  pro: { provider: "gemini", model: "gemini-2.5-flash" },
+  advanced: { provider: "gemini", model: "gemini-2.5-pro" },
+};
+
+/**
+ * Provider and model for a plan.
+ * LLM_MODEL_FREE / LLM_MODEL_PRO / LLM_MODEL_ADVANCED override a single plan and
+ * LLM_MODEL_DEFAULT overrides all of them, e.g. "openai-compatible:llama3.1" to run locally.
+ */
+export function getModelForPlan(plan: string): ModelSelection {
+  const key = plan?.toLowerCase() in planModels ? plan.toLowerCase() : "free";
+  const override =
+    parseModelSelection(process.env[`LLM_MODEL_${key.toUpperCase()}`] || "") ||
+    parseModelSelection(process.env.LLM_MODEL_DEFAULT || "");
+  return override || planModels[key];
+}
@@ -0,0 +1,122 @@
+// Attachment formats the chat accepts, shared by the upload route, the chat input and the ingestion pipeline
+
+export type AttachmentKind = "image" | "pdf" | "audio" | "text" | "spreadsheet" | "document";
+
+export interface AttachmentFormat {
+  id: string;
+  kind: AttachmentKind;
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+export const attachmentFormats: AttachmentFormat[] = [
+  {
+    id: "image",
+    kind: "image",
+    label: "Images",
+    mimeTypes: ["image/jpeg", "image/png", "image/webp", "image/gif", "image/bmp", "image/tiff"],
+    extensions: ["jpg", "jpeg", "png", "webp", "gif", "bmp", "tif", "tiff"],
+    maxBytes: 10 * MB,
+  },
+  {
+    id: "pdf",
+    kind: "pdf",
+    label: "PDF documents",
+    mimeTypes: ["application/pdf"],
+    extensions: ["pdf"],
+    maxBytes: 20 * MB,
+  },
+  {
+    // Audio formats supported by Gemini
+    id: "audio",
+    kind: "audio",
+    label: "Audio files",
+    mimeTypes: [
+      "audio/wav",
+      "audio/wave",
+      "audio/x-wav",
+      "audio/mp3",
+      "audio/mpeg",
+      "audio/mp4",
+      "audio/aac",
+      "audio/aiff",
+      "audio/x-aiff",
+      "audio/ogg",
+      "audio/flac",
+      "audio/x-flac",
+      "audio/webm",
+    ],
+    extensions: ["wav", "mp3", "m4a", "aac", "aiff", "aif", "ogg", "flac", "weba"],
+    maxBytes: 20 * MB,
+  },
+  {
+    id: "text",
+    kind: "text",
+    label: "Text and Markdown files",
+    mimeTypes: ["text/plain", "text/markdown", "text/x-markdown"],
+    extensions: ["txt", "md", "markdown"],
+    maxBytes: 2 * MB,
+  },
+  {
+    id: "csv",
+    kind: "spreadsheet",
+    label: "CSV files",
+    mimeTypes: ["text/csv", "application/csv", "text/tab-separated-values"],
+    extensions: ["csv", "tsv"],
+    maxBytes: 5 * MB,
+  },
+  {
+    id: "xlsx",
+    kind: "spreadsheet",
+    label: "Excel spreadsheets",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+    extensions: ["xlsx"],
+    maxBytes: 10 * MB,
+  },
+  {
+    id: "docx",
+    kind: "document",
+    label: "Word documents",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: ["docx"],
+    maxBytes: 10 * MB,
+  },
+];
+
+function getExtension(fileName?: string): string {
+  const match = /\.([a-z0-9]+)$/i.exec(fileName || "");
+  return match ? match[1].toLowerCase() : "";
+}
+
+// Browsers report inconsistent types for CSV and Markdown (often empty or application/vnd.ms-excel),
+// so the extension decides when the type is unknown or generic
+export function detectAttachmentFormat(contentType?: string, fileName?: string): AttachmentFormat | undefined {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  const byType = attachmentFormats.find((format) => format.mimeTypes.includes(type));
+  if (byType) return byType;
+
+  const extension = getExtension(fileName);
+  return attachmentFormats.find((format) => format.extensions.includes(extension));
+}
+
+// The type stored with the upload, so later turns can recognize the file without its name
+export function getCanonicalContentType(format: AttachmentFormat, contentType?: string): string {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  return format.mimeTypes.includes(type) ? type : format.mimeTypes[0];
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes >= MB ? `${Math.round((bytes / MB) * 10) / 10}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+export function getAttachmentSizeError(format: AttachmentFormat, size: number): string | null {
+  if (size <= format.maxBytes) return null;
+  return `${format.label} must be smaller than ${formatBytes(format.maxBytes)} (this file is ${formatBytes(size)})`;
+}
+
+export const unsupportedAttachmentMessage =
+  "File type should be an image (JPEG, PNG, WebP, GIF), PDF, audio (WAV, MP3, AAC, AIFF, OGG, FLAC), text or Markdown, CSV, Excel (XLSX) or Word (DOCX)";
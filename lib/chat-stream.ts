@@ -0,0 +1,211 @@
+import redis, { redisKeys } from "./redis";
+
+// A chat turn is generated independently of the request that started it. Every event of the turn is appended
+// to a Redis stream, so a client that lost its connection or reloaded the page can replay what it missed.
+
+export type ChatStreamStatus = "running" | "completed" | "stopped" | "failed";
+
+export interface ChatStreamState {
+  chatId: string;
+  turnId: string;
+  userId: string;
+  status: ChatStreamStatus;
+  userMessage?: any; // Message that started the turn; the chat is only saved once the turn ends
+  seed?: { content: string; thoughts: string }; // Response already shown before this turn (approval continuations)
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface ChatStreamEvent {
+  id: number; // Sequential within the turn, sent as the SSE event id
+  data: any;
+}
+
+export interface ChatStreamListener {
+  onEvent: (event: ChatStreamEvent) => void;
+  onClose: () => void;
+}
+
+const STREAM_TTL_SECONDS = 60 * 60;
+const FLUSH_INTERVAL_MS = 100;
+const REPLAY_BATCH_SIZE = 500;
+const REPLAY_POLL_MS = 400;
+const REPLAY_MAX_MS = 10 * 60 * 1000;
+const STOP_POLL_MS = 1000;
+
+// Turns running in this process, so a stop request handled here takes effect without waiting for the poll
+const localTurns = new Map<string, AbortController>();
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+export function formatSseEvent(event: ChatStreamEvent): string {
+  return `id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+export async function getChatStreamState(chatId: string): Promise<ChatStreamState | null> {
+  return await redis.get<ChatStreamState>(redisKeys.chatActiveStream(chatId));
+}
+
+// Events reach local listeners right away and are written to Redis in small batches, in order.
+// The stream also owns the turn's abort signal, which fires when a stop is requested from any instance.
+export class ChatEventStream {
+  private state: ChatStreamState;
+  private abortController = new AbortController();
+  private stopPollTimer: ReturnType<typeof setInterval> | null = null;
+  private nextId = 1;
+  private buffer: ChatStreamEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private listeners = new Set<ChatStreamListener>();
+
+  constructor(
+    chatId: string,
+    turnId: string,
+    userId: string,
+    details: Pick<ChatStreamState, "userMessage" | "seed"> = {}
+  ) {
+    const now = new Date().toISOString();
+    this.state = { chatId, turnId, userId, status: "running", ...details, startedAt: now, updatedAt: now };
+  }
+
+  get turnId(): string {
+    return this.state.turnId;
+  }
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  // Marks the turn as the chat's active one, replacing any earlier turn
+  async open(): Promise<void> {
+    const { chatId, turnId } = this.state;
+    await redis.set(redisKeys.chatActiveStream(chatId), this.state, { ex: STREAM_TTL_SECONDS });
+
+    localTurns.set(`${chatId}:${turnId}`, this.abortController);
+    this.stopPollTimer = setInterval(async () => {
+      try {
+        if (await redis.exists(redisKeys.chatStreamStop(chatId, turnId))) this.abortController.abort();
+      } catch (error) {
+        console.error("Failed to check for a chat stream stop:", error);
+      }
+    }, STOP_POLL_MS);
+  }
+
+  emit(data: any): void {
+    const event: ChatStreamEvent = { id: this.nextId++, data };
+    this.listeners.forEach((listener) => listener.onEvent(event));
+    this.buffer.push(event);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  subscribe(listener: ChatStreamListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Waits for every event to be written before the status changes, so replays that see it have nothing left to miss
+  async close(status: Exclude<ChatStreamStatus, "running">): Promise<void> {
+    // Lets clients tell a finished turn from a dropped connection
+    this.emit({ type: "stream-end", status });
+    await this.flush();
+    if (this.stopPollTimer) clearInterval(this.stopPollTimer);
+    localTurns.delete(`${this.state.chatId}:${this.state.turnId}`);
+    this.state = { ...this.state, status, updatedAt: new Date().toISOString() };
+    try {
+      await redis.set(redisKeys.chatActiveStream(this.state.chatId), this.state, { ex: STREAM_TTL_SECONDS });
+    } catch (error) {
+      console.error("Failed to update chat stream state:", error);
+    }
+    this.listeners.forEach((listener) => listener.onClose());
+    this.listeners.clear();
+  }
+
+  private flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const events = this.buffer;
+    this.buffer = [];
+    if (events.length === 0) return this.writes;
+
+    const key = redisKeys.chatStream(this.state.chatId, this.state.turnId);
+    this.writes = this.writes
+      .then(async () => {
+        const pipeline = redis.pipeline();
+        for (const event of events) {
+          pipeline.xadd(key, `${event.id}-0`, { data: JSON.stringify(event.data) });
+        }
+        pipeline.expire(key, STREAM_TTL_SECONDS);
+        await pipeline.exec();
+      })
+      .catch((error) => console.error("Failed to write chat stream events:", error));
+    return this.writes;
+  }
+}
+
+export async function requestChatStreamStop(chatId: string, turnId: string): Promise<void> {
+  localTurns.get(`${chatId}:${turnId}`)?.abort();
+  await redis.set(redisKeys.chatStreamStop(chatId, turnId), 1, { ex: STREAM_TTL_SECONDS });
+}
+
+export async function readChatStreamEvents(chatId: string, turnId: string, afterId: number): Promise<ChatStreamEvent[]> {
+  const entries = await redis.xrange(redisKeys.chatStream(chatId, turnId), `${afterId + 1}-0`, "+", REPLAY_BATCH_SIZE);
+  return Object.entries(entries || {})
+    .map(([streamId, fields]) => ({
+      id: parseInt(streamId, 10),
+      // The client may hand back stored JSON already parsed
+      data: typeof fields.data === "string" ? JSON.parse(fields.data) : fields.data,
+    }))
+    .sort((a, b) => a.id - b.id);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Replays a turn's events after the given id, then follows new ones until the turn ends
+export function createReplayStream(chatId: string, turnId: string, afterId: number): ReadableStream<string> {
+  let cancelled = false;
+  let cursor = afterId;
+
+  return new ReadableStream<string>({
+    async start(controller) {
+      const deadline = Date.now() + REPLAY_MAX_MS;
+      let finished = false;
+      try {
+        while (!cancelled && Date.now() < deadline) {
+          const events = await readChatStreamEvents(chatId, turnId, cursor);
+          for (const event of events) {
+            if (cancelled) break;
+            controller.enqueue(formatSseEvent(event));
+            cursor = event.id;
+          }
+          if (events.length === REPLAY_BATCH_SIZE) continue;
+          if (finished) break;
+
+          const state = await getChatStreamState(chatId);
+          if (!state || state.turnId !== turnId || state.status !== "running") {
+            // One more read picks up events written just before the status changed
+            finished = true;
+            continue;
+          }
+          await sleep(REPLAY_POLL_MS);
+        }
+        if (!cancelled) controller.close();
+      } catch (error) {
+        console.error("Error replaying chat stream:", error);
+        if (!cancelled) controller.error(error);
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
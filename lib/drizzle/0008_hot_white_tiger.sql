@@ -0,0 +1 @@
+ALTER TABLE "User" ADD COLUMN "toolApprovalAllowList" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "User" ADD COLUMN "redactionPolicy" json;
\ No newline at end of file
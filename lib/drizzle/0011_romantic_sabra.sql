@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "AdminAuditLog" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actorId" uuid NOT NULL,
+	"actorEmail" varchar(64) NOT NULL,
+	"action" varchar(64) NOT NULL,
+	"targetType" varchar(32),
+	"targetId" varchar(64),
+	"targetLabel" varchar(128),
+	"diff" json,
+	"ip" varchar(64),
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
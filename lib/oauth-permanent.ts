@@ -8,6 +8,7 @@ import {
 } from "@/db/queries";
 
 import { getValidOAuthAccessToken as getRefreshedOAuthAccessToken } from "./oauth-refresh";
+import { invalidateUserCredentials } from "./user-credentials";
 
 /**
  * Ensures OAuth credentials are stored as permanent (never expiring)
@@ -43,6 +44,7 @@ export async function storePermanentOAuthConnection({
     externalUserId,
     externalUserName,
   });
+  await invalidateUserCredentials(userId);
   
   console.log(`Stored permanent OAuth connection for ${service} - user ${userId}`);
 }
@@ -70,6 +72,7 @@ export async function hasPermanentOAuthConnection(userId: string, service: strin
 export async function disconnectPermanentOAuth(userId: string, service: string): Promise<boolean> {
   try {
     await deleteOAuthConnection({ userId, service });
+    await invalidateUserCredentials(userId);
     console.log(`Disconnected permanent OAuth connection for ${service} - user ${userId}`);
     return true;
   } catch (error) {
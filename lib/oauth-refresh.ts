@@ -7,6 +7,7 @@ import {
   saveOAuthConnection,
   deleteOAuthConnection 
 } from "@/db/queries";
+import { invalidateUserCredentials } from "@/lib/user-credentials";
 
 interface RefreshTokenResponse {
   access_token: string;
@@ -214,6 +215,7 @@ export async function refreshOAuthToken(userId: string, service: string): Promis
       externalUserId: connection.externalUserId,
       externalUserName: connection.externalUserName || undefined,
     });
+    await invalidateUserCredentials(userId);
 
     console.log(`Updated OAuth connection for ${service} with refreshed tokens`);
     return newAccessToken;
@@ -0,0 +1,246 @@
+import { inflateRawSync } from "zlib";
+
+// Minimal readers for the document formats users attach to chats: CSV, XLSX and DOCX.
+// XLSX and DOCX are zip archives of XML parts, so only a small zip reader is needed.
+
+export type TableCell = string | number | boolean | null;
+
+export interface ParsedSheet {
+  name: string;
+  rows: TableCell[][];
+}
+
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024; // Guards against zip bombs
+
+function readZipEntries(buffer: Buffer, wanted: (name: string) => boolean): Map<string, Buffer> {
+  // The end-of-central-directory record sits in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a valid zip archive");
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error("Corrupt zip central directory");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+    if (uncompressedSize > MAX_ENTRY_BYTES) throw new Error(`${name} is too large to read`);
+
+    const localNameLength = buffer.readUInt16LE(localOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) entries.set(name, Buffer.from(data));
+    else if (method === 8) entries.set(name, inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES }));
+    else throw new Error(`Unsupported zip compression method ${method}`);
+  }
+  return entries;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower === "amp") return "&";
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "quot") return '"';
+    if (lower === "apos") return "'";
+    const code = lower.startsWith("#x") ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+// Concatenated <t> runs of an element (shared strings and inline strings may be split into rich-text runs)
+function collectText(xml: string): string {
+  let text = "";
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) text += decodeXmlEntities(match[1]);
+  return text;
+}
+
+/* ------------------------------------ DOCX ----------------------------------- */
+
+export function extractDocxText(buffer: Buffer): string {
+  const entries = readZipEntries(buffer, (name) => name === "word/document.xml");
+  const xml = entries.get("word/document.xml")?.toString("utf8");
+  if (!xml) throw new Error("The document has no body");
+
+  const paragraphs: string[] = [];
+  const paragraphPattern = /<w:p[ >][\s\S]*?<\/w:p>/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(xml))) {
+    const paragraph = match[0];
+    const isListItem = paragraph.includes("<w:numPr>");
+    const heading = /<w:pStyle w:val="Heading(\d)"/.exec(paragraph);
+    let text = "";
+    const runPattern = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\/>/g;
+    let run: RegExpExecArray | null;
+    while ((run = runPattern.exec(paragraph))) {
+      if (run[0] === "<w:tab/>") text += "\t";
+      else if (run[0] === "<w:br/>") text += "\n";
+      else text += decodeXmlEntities(run[1]);
+    }
+    if (!text.trim()) {
+      paragraphs.push("");
+      continue;
+    }
+    if (heading) text = `${"#".repeat(Math.min(Number(heading[1]) || 1, 6))} ${text}`;
+    else if (isListItem) text = `- ${text}`;
+    paragraphs.push(text);
+  }
+  return paragraphs.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/* ------------------------------------ XLSX ----------------------------------- */
+
+function columnIndex(cellRef: string): number {
+  const letters = /^[A-Z]+/.exec(cellRef)?.[0] || "A";
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+export function parseXlsx(buffer: Buffer, maxRows: number): ParsedSheet[] {
+  const entries = readZipEntries(
+    buffer,
+    (name) => name === "xl/workbook.xml" || name === "xl/_rels/workbook.xml.rels" || name === "xl/sharedStrings.xml" || name.startsWith("xl/worksheets/")
+  );
+
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get("xl/sharedStrings.xml")?.toString("utf8") || "";
+  const sharedPattern = /<si>([\s\S]*?)<\/si>/g;
+  let match: RegExpExecArray | null;
+  while ((match = sharedPattern.exec(sharedXml))) sharedStrings.push(collectText(match[1]));
+
+  const relationships = new Map<string, string>();
+  const relsXml = entries.get("xl/_rels/workbook.xml.rels")?.toString("utf8") || "";
+  const relPattern = /<Relationship\s[^>]*>/g;
+  while ((match = relPattern.exec(relsXml))) {
+    const id = getAttribute(match[0], "Id");
+    const target = getAttribute(match[0], "Target");
+    if (id && target) relationships.set(id, target.replace(/^\/?(xl\/)?/, "xl/"));
+  }
+
+  const sheets: ParsedSheet[] = [];
+  const workbookXml = entries.get("xl/workbook.xml")?.toString("utf8") || "";
+  const sheetPattern = /<sheet\s[^>]*>/g;
+  while ((match = sheetPattern.exec(workbookXml))) {
+    const name = getAttribute(match[0], "name") || `Sheet${sheets.length + 1}`;
+    const relId = getAttribute(match[0], "r:id");
+    const path = (relId && relationships.get(relId)) || `xl/worksheets/sheet${sheets.length + 1}.xml`;
+    const sheetXml = entries.get(path)?.toString("utf8");
+    if (!sheetXml) continue;
+    sheets.push({ name, rows: parseSheetRows(sheetXml, sharedStrings, maxRows) });
+  }
+  return sheets;
+}
+
+function parseSheetRows(xml: string, sharedStrings: string[], maxRows: number): TableCell[][] {
+  const rows: TableCell[][] = [];
+  const rowPattern = /<row[\s>][\s\S]*?<\/row>/g;
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowPattern.exec(xml)) && rows.length < maxRows) {
+    const row: TableCell[] = [];
+    const cellPattern = /<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let cell: RegExpExecArray | null;
+    while ((cell = cellPattern.exec(rowMatch[0]))) {
+      const attributes = ` ${cell[1]}`;
+      const body = cell[2] || "";
+      const ref = getAttribute(attributes, "r");
+      const type = getAttribute(attributes, "t");
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value: TableCell = null;
+      if (type === "s") value = raw !== undefined ? sharedStrings[Number(raw)] ?? "" : null;
+      else if (type === "inlineStr") value = collectText(body);
+      else if (type === "b") value = raw === "1";
+      else if (type === "str" || type === "e") value = raw !== undefined ? decodeXmlEntities(raw) : null;
+      else if (raw !== undefined) value = Number.isFinite(Number(raw)) ? Number(raw) : decodeXmlEntities(raw);
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push(null);
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/* ------------------------------------ CSV ------------------------------------ */
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [",", ";", "\t", "|"];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+// RFC 4180 parsing: quoted fields may contain delimiters, quotes ("") and newlines
+export function parseCsv(text: string, maxRows: number): TableCell[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: TableCell[][] = [];
+  let row: TableCell[] = [];
+  let field = "";
+  let quoted = false;
+
+  const pushField = () => {
+    const trimmed = field.trim();
+    row.push(trimmed === "" ? null : Number.isFinite(Number(trimmed)) && !/^0\d/.test(trimmed) ? Number(trimmed) : field);
+    field = "";
+  };
+
+  for (let i = 0; i < source.length && rows.length < maxRows; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      pushField();
+      rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (rows.length < maxRows && (field !== "" || row.length > 0)) {
+    pushField();
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== null));
+}
@@ -0,0 +1,41 @@
+import { and, eq } from "drizzle-orm";
+
+import { getReservationById } from "@/db/queries";
+import { task, Task } from "@/db/schema";
+import { getChatStreamState } from "@/lib/chat-stream";
+import { db } from "@/lib/db";
+import { getChatMeta } from "@/lib/redis-queries";
+
+// Chats, tasks and reservations are only visible to the user who owns them. Routes answer a request for
+// someone else's with the same 404 as for one that does not exist, so ids cannot be probed.
+
+export function notFoundResponse() {
+  return new Response("Not found", { status: 404 });
+}
+
+// "unclaimed" ids belong to nobody yet, so a new chat may be started with them
+export type ChatOwnership = "owned" | "unclaimed" | "foreign";
+
+export async function getChatOwnership(chatId: string, userId: string): Promise<ChatOwnership> {
+  // A chat is saved when its first turn finishes; until then the running turn's stream names the owner
+  const ownerId = (await getChatMeta(chatId))?.userId || (await getChatStreamState(chatId))?.userId;
+  if (!ownerId) return "unclaimed";
+  return ownerId === userId ? "owned" : "foreign";
+}
+
+export async function isChatOwner(chatId: string, userId: string): Promise<boolean> {
+  return (await getChatOwnership(chatId, userId)) === "owned";
+}
+
+export async function getOwnedTask(taskId: string, userId: string): Promise<Task | null> {
+  const [ownedTask] = await db
+    .select()
+    .from(task)
+    .where(and(eq(task.id, taskId), eq(task.userId, userId)));
+  return ownedTask ?? null;
+}
+
+export async function getOwnedReservation(id: string, userId: string) {
+  const reservation = await getReservationById({ id });
+  return reservation && reservation.userId === userId ? reservation : null;
+}
@@ -1,3 +1,6 @@
+import { AgentBudgetUsage } from '@/ai/agent-budget';
+import { AgentPlan, Citation } from '@/ai/types';
+
 import redis, { redisKeys, serialize, deserialize } from './redis';
 import { generateUUID } from './utils';
 
@@ -15,6 +18,12 @@ export interface ChatMessage {
   timestamp: number;
   attachments?: any[];
   toolCalls?: any[];
+  pendingApproval?: any;
+  stopped?: boolean;
+  delegations?: any[];
+  plan?: any;
+  research?: any[];
+  citations?: any[];
 }
 
 export interface Chat {
@@ -137,6 +146,12 @@ export async function saveChat(chat: {
       timestamp: msg.timestamp || Date.now(),
       attachments: msg.attachments || [],
       toolCalls: msg.toolCalls || [],
+      ...(msg.pendingApproval ? { pendingApproval: msg.pendingApproval } : {}),
+      ...(msg.stopped ? { stopped: true } : {}),
+      ...(msg.delegations?.length ? { delegations: msg.delegations } : {}),
+      ...(msg.plan ? { plan: msg.plan } : {}),
+      ...(msg.research?.length ? { research: msg.research } : {}),
+      ...(msg.citations?.length ? { citations: msg.citations } : {}),
     }));
     
     await saveChatMessages(chat.id, chatMessages);
@@ -161,11 +176,28 @@ export async function getChatMeta(chatId: string): Promise<ChatMeta | null> {
   };
 }
 
+// Large tool results stored for read_artifact
+async function deleteChatArtifacts(chatId: string) {
+  const artifactIds = await redis.smembers(redisKeys.chatArtifacts(chatId));
+  for (const artifactId of artifactIds) {
+    await redis.del(redisKeys.toolArtifact(chatId, artifactId), redisKeys.toolArtifactChunks(chatId, artifactId));
+  }
+  await redis.del(redisKeys.chatArtifacts(chatId));
+}
+
 // Delete a chat
 export async function deleteChat(chatId: string, userId: string) {
   await redis.zrem(redisKeys.userChats(userId), chatId);
   await redis.del(redisKeys.chatMeta(chatId));
   await redis.del(redisKeys.chatMessages(chatId));
+  await redis.del(redisKeys.chatSummary(chatId));
+  await redis.del(redisKeys.chatToolResults(chatId));
+  await redis.del(redisKeys.chatActiveStream(chatId));
+  await redis.del(redisKeys.chatRedactionVault(chatId));
+  // A paused turn holds the whole conversation and could otherwise be resumed into the deleted chat
+  await redis.del(redisKeys.chatPendingApproval(chatId));
+  await redis.del(redisKeys.chatPendingPlan(chatId));
+  await deleteChatArtifacts(chatId);
 }
 
 // Delete all chats for a user
@@ -175,6 +207,13 @@ export async function deleteAllUserChats(userId: string) {
   for (const id of chatIds) {
     await redis.del(redisKeys.chatMeta(id as string));
     await redis.del(redisKeys.chatMessages(id as string));
+    await redis.del(redisKeys.chatSummary(id as string));
+    await redis.del(redisKeys.chatToolResults(id as string));
+    await redis.del(redisKeys.chatActiveStream(id as string));
+    await redis.del(redisKeys.chatRedactionVault(id as string));
+    await redis.del(redisKeys.chatPendingApproval(id as string));
+    await redis.del(redisKeys.chatPendingPlan(id as string));
+    await deleteChatArtifacts(id as string);
   }
   await redis.del(redisKeys.userChats(userId));
 }
@@ -247,3 +286,95 @@ export async function incrementUserDailyMessageCount(userId: string): Promise<nu
   
   return count;
 }
+
+// Agent state saved while high-risk tool calls wait for the user's decision
+export interface PendingApproval {
+  approvalId: string;
+  chatId: string;
+  userId: string;
+  createdAt: string;
+  messages: any[]; // Conversation up to and including the user's message
+  conversationHistory: any[]; // Model contents before the paused tool round, with attachment data as references
+  toolCalls: any[]; // Every call of the paused round, with ids
+  pendingToolCallIds: string[];
+  textResponse: string; // Model text emitted alongside the paused calls
+  fullResponse: string;
+  thoughts: string;
+  finalToolCalls: any[];
+  plan?: AgentPlan; // Progress of an approved plan the paused turn is carrying out
+  citations?: Citation[]; // Sources already given citation ids in the paused turn
+  taintedBy?: string[]; // Untrusted sources the paused turn has already read
+  budgetUsage?: AgentBudgetUsage; // Budget the paused turn has already spent
+}
+
+const PENDING_APPROVAL_TTL_SECONDS = 60 * 60;
+
+export async function savePendingApproval(pending: PendingApproval) {
+  await redis.set(redisKeys.chatPendingApproval(pending.chatId), pending, { ex: PENDING_APPROVAL_TTL_SECONDS });
+}
+
+export async function getPendingApproval(chatId: string): Promise<PendingApproval | null> {
+  return await redis.get<PendingApproval>(redisKeys.chatPendingApproval(chatId));
+}
+
+export async function deletePendingApproval(chatId: string) {
+  await redis.del(redisKeys.chatPendingApproval(chatId));
+}
+
+// A plan-mode turn waiting for the user to approve or edit its plan
+export interface PendingPlan {
+  planId: string;
+  chatId: string;
+  userId: string;
+  createdAt: string;
+  messages: any[]; // Conversation up to and including the user's message
+  plan: AgentPlan;
+}
+
+export async function savePendingPlan(pending: PendingPlan) {
+  await redis.set(redisKeys.chatPendingPlan(pending.chatId), pending, { ex: PENDING_APPROVAL_TTL_SECONDS });
+}
+
+export async function getPendingPlan(chatId: string): Promise<PendingPlan | null> {
+  return await redis.get<PendingPlan>(redisKeys.chatPendingPlan(chatId));
+}
+
+export async function deletePendingPlan(chatId: string) {
+  await redis.del(redisKeys.chatPendingPlan(chatId));
+}
+
+// Rolling summary of the older part of a chat, sent to the model instead of the raw turns
+export interface ChatSummary {
+  summary: string;
+  coveredUntilMessageId: string; // Last message folded into the summary
+  coveredMessageCount: number;
+  updatedAt: string;
+}
+
+export async function getChatSummary(chatId: string): Promise<ChatSummary | null> {
+  return await redis.get<ChatSummary>(redisKeys.chatSummary(chatId));
+}
+
+export async function saveChatSummary(chatId: string, summary: ChatSummary) {
+  await redis.set(redisKeys.chatSummary(chatId), summary);
+}
+
+// Full tool results, keyed by tool call id, so elided results can be read back on demand
+export interface StoredToolResult {
+  name: string;
+  args: any;
+  result: any;
+  createdAt: string;
+}
+
+const TOOL_RESULTS_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export async function saveToolResults(chatId: string, results: Record<string, StoredToolResult>) {
+  if (Object.keys(results).length === 0) return;
+  await redis.hset(redisKeys.chatToolResults(chatId), results);
+  await redis.expire(redisKeys.chatToolResults(chatId), TOOL_RESULTS_TTL_SECONDS);
+}
+
+export async function getToolResult(chatId: string, ref: string): Promise<StoredToolResult | null> {
+  return await redis.hget<StoredToolResult>(redisKeys.chatToolResults(chatId), ref);
+}
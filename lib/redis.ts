@@ -13,6 +13,24 @@ export const redisKeys = {
   chatMeta: (chatId: string) => `chat:${chatId}:meta`,
   chatMessages: (chatId: string) => `chat:${chatId}:messages`,
   dailyMessages: (userId: string, date: string) => `user:${userId}:daily_messages:${date}`,
+  chatPendingApproval: (chatId: string) => `chat:${chatId}:pending_approval`,
+  chatPendingPlan: (chatId: string) => `chat:${chatId}:pending_plan`,
+  chatRedactionVault: (chatId: string) => `chat:${chatId}:redaction_vault`,
+  userCredentials: (userId: string) => `user:${userId}:credentials`,
+  adminVerification: (userId: string) => `admin:${userId}:verification`,
+  adminVerificationAttempts: (userId: string) => `admin:${userId}:verification_attempts`,
+  chatSummary: (chatId: string) => `chat:${chatId}:summary`,
+  chatToolResults: (chatId: string) => `chat:${chatId}:tool_results`,
+  geminiFile: (urlHash: string) => `gemini_file:${urlHash}`,
+  attachmentText: (userId: string, urlHash: string) => `user:${userId}:attachment_text:${urlHash}`,
+  dataset: (userId: string, datasetId: string) => `user:${userId}:dataset:${datasetId}`,
+  chatActiveStream: (chatId: string) => `chat:${chatId}:active_stream`,
+  chatStream: (chatId: string, turnId: string) => `chat:${chatId}:stream:${turnId}`,
+  chatStreamStop: (chatId: string, turnId: string) => `chat:${chatId}:stream:${turnId}:stop`,
+  chatArtifacts: (chatId: string) => `chat:${chatId}:artifacts`,
+  toolArtifact: (chatId: string, artifactId: string) => `chat:${chatId}:artifact:${artifactId}`,
+  toolArtifactChunks: (chatId: string, artifactId: string) => `chat:${chatId}:artifact:${artifactId}:chunks`,
+  toolCache: (toolName: string, scope: string, argsHash: string) => `tool_cache:${toolName}:${scope}:${argsHash}`,
 } as const;
 
 // Helper functions for consistent serialization
@@ -1,9 +1,19 @@
+import { createSecretScrubbingMiddleware, ToolMiddlewareContext, ToolMiddlewarePipeline } from "@/ai/custom-middleware";
 import { AIAgent } from "@/ai/jotium";
-import { getUserLanguage } from "@/db/queries";
+import { createOutboundGuardMiddleware, createProvenanceMiddleware, TaintTracker } from "@/ai/prompt-injection";
+import { createRedactionMiddleware, loadRedactionVault, Redactor, saveRedactionVault } from "@/ai/redaction";
+import { DEFAULT_REDACTION_POLICY } from "@/ai/redaction-policy";
+import { requiresApproval } from "@/ai/tool-approval";
+import { assignToolCallIds, executeToolCalls } from "@/ai/tool-executor";
+import { getUserLanguage, getUserRedactionPolicy, getUserToolApprovalAllowList } from "@/db/queries";
 import { saveChat } from "@/lib/redis-queries";
+import { loadUserCredentials } from "@/lib/user-credentials";
 import { getUserAIModel } from "@/lib/user-model";
 import { generateUUID } from "@/lib/utils";
 
+const APPROVAL_REQUIRED_ERROR =
+  "This action needs the user's approval, which a scheduled task cannot ask for. Do not retry it; say in your response what should be done so the user can run it from a chat.";
+
 /**
  * Executes a single user-defined task.
  * Returns the synthetic chat ID where the result was stored.
@@ -19,6 +29,8 @@ export async function executeTask(task: {
   date?: string | Date | null;
 }) {
   const { id: taskId, userId } = task;
+  // The run is saved as a synthetic chat, which also keys its redaction vault
+  const syntheticChatId = `task-${taskId}-${Date.now()}`;
 
   // Build the prompt for the AI agent
   const prompt = `
@@ -37,6 +49,30 @@ ${task.date ? `Date: ${task.date}` : ""}
   const language = await getUserLanguage(userId);
   const agent = new AIAgent(geminiApiKey, userId, undefined, model, language || "en");
   await agent.initializeTools(userId);
+  const alwaysAllow = await getUserToolApprovalAllowList(userId).catch(() => [] as string[]);
+
+  // As in chat, tool calls get placeholders filled back in and results come back tagged by provenance, redacted
+  // and scrubbed. A task cannot ask for confirmation, so outbound actions are refused once the run is tainted.
+  const taint = new TaintTracker();
+  const redactionPolicy = await getUserRedactionPolicy(userId).catch(() => DEFAULT_REDACTION_POLICY);
+  const redactionVault = await loadRedactionVault(syntheticChatId);
+  const credentials = await loadUserCredentials(userId).catch(() => ({ apiKeys: {}, oauthTokens: {} }));
+  const redactor = new Redactor(redactionPolicy, redactionVault, [
+    ...Object.values(credentials.apiKeys),
+    ...Object.values(credentials.oauthTokens),
+  ]);
+  const toolMiddleware = new ToolMiddlewarePipeline()
+    .use(createOutboundGuardMiddleware(taint, "a scheduled task"))
+    .use(createProvenanceMiddleware(taint))
+    .use(createRedactionMiddleware(redactor))
+    .use(createSecretScrubbingMiddleware());
+  // Nothing is rendered while a task runs
+  const middlewareContext: ToolMiddlewareContext = { chatId: syntheticChatId, userId, emit: () => {}, respond: () => {} };
+  agent.setSubAgentToolHandling({
+    middleware: toolMiddleware,
+    context: middlewareContext,
+    redact: (value) => redactor.redact(value),
+  });
 
   // 1. Load conversation history (empty for a single task run)
   const conversationHistory = [{ role: "user", parts: [{ text: prompt }] }];
@@ -48,12 +84,8 @@ ${task.date ? `Date: ${task.date}` : ""}
   let hasToolCalls = false;
 
   for await (const chunk of responseStream) {
-    if (chunk.candidates?.[0]?.content?.parts) {
-      for (const part of chunk.candidates[0].content.parts) {
-        if (part.text) {
-          fullResponse += part.text;
-        }
-      }
+    if (chunk.text) {
+      fullResponse += chunk.text;
     }
     if (chunk.functionCalls?.length) {
       hasToolCalls = true;
@@ -61,17 +93,30 @@ ${task.date ? `Date: ${task.date}` : ""}
     }
   }
 
-  // 3. If there are tool calls, execute them sequentially and feed results back
+  // 3. If there are tool calls, execute them concurrently and feed results back
   if (hasToolCalls) {
-    const toolResults = [];
-    const toolCallsWithIds = toolCalls.map((tc) => ({
-      ...tc,
-      id: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    }));
-
-    for (const toolCall of toolCallsWithIds) {
-      const result = await agent.executeToolCall(toolCall);
-      toolResults.push(result);
+    const toolCallsWithIds = assignToolCallIds(toolCalls);
+    // Nobody is there to approve high-risk actions, so they are refused unless the user always allows them
+    const toolResults = await executeToolCalls(toolCallsWithIds, async (toolCall, signal) => {
+      if (requiresApproval(toolCall.name, agent.getToolRiskLevel(toolCall), alwaysAllow)) {
+        return {
+          toolCallId: toolCall.id,
+          result: { success: false, error: APPROVAL_REQUIRED_ERROR },
+          error: APPROVAL_REQUIRED_ERROR,
+        };
+      }
+      const checked = await toolMiddleware.beforeToolCall(toolCall, middlewareContext);
+      return checked.result || agent.executeToolCall(checked.toolCall, signal);
+    });
+    const modelResults: any[] = [];
+    for (const [index, toolCall] of toolCallsWithIds.entries()) {
+      const outcome = await toolMiddleware.afterToolCall(
+        toolCall,
+        toolResults[index],
+        toolResults[index].result,
+        middlewareContext
+      );
+      modelResults.push(outcome.toolResult?.result);
     }
 
     // Append tool results to the conversation and get a final response
@@ -82,10 +127,10 @@ ${task.date ? `Date: ${task.date}` : ""}
 
     conversationHistory.push({
       role: "user",
-      parts: toolResults.map((tr) => ({
+      parts: toolCallsWithIds.map((tc, index) => ({
         functionResponse: {
-          name: toolCallsWithIds.find((tc) => tc.id === tr.toolCallId)?.name,
-          response: tr.result,
+          name: tc.name,
+          response: modelResults[index],
         },
       })) as any,
     });
@@ -93,18 +138,13 @@ ${task.date ? `Date: ${task.date}` : ""}
     const finalStream = await agent.generateContentStream(conversationHistory);
     fullResponse = "";
     for await (const chunk of finalStream) {
-      if (chunk.candidates?.[0]?.content?.parts) {
-        for (const part of chunk.candidates[0].content.parts) {
-          if (part.text) {
-            fullResponse += part.text;
-          }
-        }
+      if (chunk.text) {
+        fullResponse += chunk.text;
       }
     }
   }
 
   // 4. Persist the result as a synthetic chat so it appears in the user's chat history
-  const syntheticChatId = `task-${taskId}-${Date.now()}`;
   
   // Generate a meaningful title for the task execution
   const title = `Task: ${task.name}`;
@@ -125,6 +165,9 @@ ${task.date ? `Date: ${task.date}` : ""}
   };
 
   await saveChat(chatPayload);
+  await saveRedactionVault(syntheticChatId, redactionVault).catch((error) =>
+    console.error("Failed to save redaction vault:", error)
+  );
 
   return syntheticChatId;
 }
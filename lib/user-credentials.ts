@@ -0,0 +1,45 @@
+//lib/user-credentials.ts
+import "server-only";
+
+import { getUserCredentials, UserCredentials } from "@/db/queries";
+import { decryptApiKey, encryptApiKey } from "@/lib/encryption";
+
+import redis, { redisKeys } from "./redis";
+
+// Short-lived so rotated keys and refreshed tokens are picked up even if an invalidation is missed
+const CREDENTIALS_CACHE_TTL_SECONDS = 5 * 60;
+
+// Decrypted credentials for a user, served from an encrypted Redis entry when warm
+export async function loadUserCredentials(userId: string): Promise<UserCredentials> {
+  const key = redisKeys.userCredentials(userId);
+
+  try {
+    const cached = await redis.get<string>(key);
+    if (cached) {
+      const decrypted = await decryptApiKey(cached);
+      return JSON.parse(decrypted.value) as UserCredentials;
+    }
+  } catch (error) {
+    console.error("Failed to read cached credentials:", error);
+  }
+
+  const credentials = await getUserCredentials(userId);
+
+  try {
+    const encrypted = await encryptApiKey(JSON.stringify(credentials));
+    await redis.set(key, encrypted, { ex: CREDENTIALS_CACHE_TTL_SECONDS });
+  } catch (error) {
+    console.error("Failed to cache credentials:", error);
+  }
+
+  return credentials;
+}
+
+// Call whenever a user's API keys or OAuth connections change
+export async function invalidateUserCredentials(userId: string): Promise<void> {
+  try {
+    await redis.del(redisKeys.userCredentials(userId));
+  } catch (error) {
+    console.error("Failed to invalidate cached credentials:", error);
+  }
+}
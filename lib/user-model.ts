@@ -1,28 +1,29 @@
 //lib/user-model.ts
+import { ModelSelection } from '@/ai/providers';
 import { getUserById } from '@/db/queries';
 
-import { getGeminiModelForPlan } from './ai-models';
+import { getModelForPlan } from './ai-models';
 
 /**
  * Get the appropriate AI model for a user based on their current plan
  * This ensures we always use the latest plan information from the database
  */
-export async function getUserAIModel(userId: string): Promise<string> {
+export async function getUserAIModel(userId: string): Promise<ModelSelection> {
   try {
     const user = await getUserById(userId);
     if (!user) {
       console.warn(`User ${userId} not found, defaulting to free model`);
-      return getGeminiModelForPlan('free');
+      return getModelForPlan('free');
     }
 
     const userPlan = user.plan || 'Free';
     // console.log(`User ${userId} has plan: ${userPlan}`);
     
-    return getGeminiModelForPlan(userPlan);
+    return getModelForPlan(userPlan);
   } catch (error) {
     console.error(`Error getting user model for ${userId}:`, error);
     // Fallback to free model in case of error
-    return getGeminiModelForPlan('free');
+    return getModelForPlan('free');
   }
 }
 
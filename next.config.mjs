@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  experimental: {},
+  experimental: {
+    // Chat turns keep running after the client disconnects (unstable_after)
+    after: true,
+  },
   images: {
     remotePatterns: [
       {
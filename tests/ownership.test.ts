@@ -0,0 +1,184 @@
+//tests/ownership.test.ts
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import { before, describe, it, mock } from "node:test";
+import { pathToFileURL } from "node:url";
+
+import { PgDialect } from "drizzle-orm/pg-core";
+import { NextRequest } from "next/server";
+
+// Routes that take a chat, task or reservation id answer 404 when it belongs to another user, as they do for
+// ids that do not exist. Auth, Redis and the database are replaced with in-memory fakes.
+
+const USER_ID = "user-a";
+const OTHER_USER_ID = "user-b";
+
+const moduleUrl = (path: string) => pathToFileURL(resolve(__dirname, "..", path)).href;
+
+const redisValues = new Map<string, any>();
+const redisHashes = new Map<string, Record<string, string>>();
+
+// The commands the tested routes read with, and the deletes a chat DELETE would make; nothing is listed
+const fakeRedis = {
+  get: async (key: string) => redisValues.get(key) ?? null,
+  hgetall: async (key: string) => redisHashes.get(key) ?? null,
+  llen: async () => 0,
+  lrange: async () => [],
+  zrange: async () => [],
+  zrem: async () => 0,
+  del: async (...keys: string[]) => keys.filter((key) => redisValues.delete(key) || redisHashes.delete(key)).length,
+};
+
+// Looked up only once a chat request passes the ownership check, before the model is called
+const userLookups: string[] = [];
+
+const tasks = [
+  { id: "task-a", userId: USER_ID, name: "Mine" },
+  { id: "task-b", userId: OTHER_USER_ID, name: "Theirs" },
+];
+
+// getOwnedTask filters by both the task id and the user id; the fake applies whatever values the query binds
+const fakeDb = {
+  select: () => ({
+    from: () => ({
+      where: async (condition: any) => {
+        const { params } = new PgDialect().sqlToQuery(condition);
+        return tasks.filter((row) => params.includes(row.id) && params.includes(row.userId));
+      },
+    }),
+  }),
+};
+
+const reservations = new Map([
+  ["reservation-a", { id: "reservation-a", userId: USER_ID, hasCompletedPayment: false, details: {} }],
+  ["reservation-b", { id: "reservation-b", userId: OTHER_USER_ID, hasCompletedPayment: false, details: {} }],
+]);
+
+let routes: {
+  chat: typeof import("../app/(chat)/api/chat/route");
+  message: typeof import("../app/(chat)/api/message/route");
+  history: typeof import("../app/api/history/[id]/messages/route");
+  stream: typeof import("../app/(chat)/api/chat/stream/route");
+  streamStop: typeof import("../app/(chat)/api/chat/stream/stop/route");
+  tasks: typeof import("../app/api/tasks/route");
+  taskRun: typeof import("../app/api/tasks/[id]/run/route");
+  taskRuns: typeof import("../app/api/tasks/[id]/runs/route");
+  reservation: typeof import("../app/(chat)/api/reservation/route");
+};
+
+before(async () => {
+  const { redisKeys } = await import("../lib/redis");
+  redisHashes.set(redisKeys.chatMeta("chat-a"), { id: "chat-a", userId: USER_ID, createdAt: new Date().toISOString() });
+  redisHashes.set(redisKeys.chatMeta("chat-b"), { id: "chat-b", userId: OTHER_USER_ID, createdAt: new Date().toISOString() });
+  // A chat is only saved once its first turn finishes; before that the running turn names its owner
+  redisValues.set(redisKeys.chatActiveStream("chat-b-running"), {
+    chatId: "chat-b-running",
+    turnId: "turn-1",
+    userId: OTHER_USER_ID,
+    status: "running",
+  });
+
+  mock.module(moduleUrl("lib/redis.ts"), { defaultExport: fakeRedis, namedExports: { redisKeys } });
+  mock.module(moduleUrl("app/(auth)/auth.ts"), { namedExports: { auth: async () => ({ user: { id: USER_ID } }) } });
+  mock.module(moduleUrl("lib/db.ts"), { namedExports: { db: fakeDb } });
+  mock.module(moduleUrl("db/queries.ts"), {
+    namedExports: {
+      getReservationById: async ({ id }: { id: string }) => reservations.get(id) ?? null,
+      updateReservation: async () => {},
+      getUserById: async (id: string) => {
+        userLookups.push(id);
+        return { id: USER_ID, plan: "Free" };
+      },
+      getUserLanguage: async () => "en",
+    },
+  });
+  mock.module(moduleUrl("lib/runTask.ts"), { namedExports: { executeTask: async () => "task-chat" } });
+  mock.module(moduleUrl("lib/taskScheduler.ts"), { defaultExport: { scheduleTask: () => {}, unscheduleTask: () => {} } });
+
+  // The chat route loads the encryption module, which needs a secret to load at all
+  process.env.API_KEY_ENCRYPTION_SECRET_PRIMARY ||= "ownership-test-secret";
+  // Required after the mocks are in place, so the routes load the fakes
+  routes = {
+    chat: require("../app/(chat)/api/chat/route"),
+    message: require("../app/(chat)/api/message/route"),
+    history: require("../app/api/history/[id]/messages/route"),
+    stream: require("../app/(chat)/api/chat/stream/route"),
+    streamStop: require("../app/(chat)/api/chat/stream/stop/route"),
+    tasks: require("../app/api/tasks/route"),
+    taskRun: require("../app/api/tasks/[id]/run/route"),
+    taskRuns: require("../app/api/tasks/[id]/runs/route"),
+    reservation: require("../app/(chat)/api/reservation/route"),
+  };
+});
+
+const request = (path: string, init?: { method: string; body?: unknown }) =>
+  new NextRequest(`http://localhost${path}`, {
+    method: init?.method,
+    ...(init?.body !== undefined && { body: JSON.stringify(init.body), headers: { "Content-Type": "application/json" } }),
+  });
+
+describe("chat ids", () => {
+  it("serves the messages of the user's own chat", async () => {
+    assert.equal((await routes.message.GET(request("/api/message?chatId=chat-a"))).status, 200);
+    assert.equal((await routes.history.GET(request("/api/history/chat-a/messages"), { params: { id: "chat-a" } })).status, 200);
+  });
+
+  it("returns 404 for the messages of another user's chat", async () => {
+    assert.equal((await routes.message.GET(request("/api/message?chatId=chat-b"))).status, 404);
+    assert.equal((await routes.history.GET(request("/api/history/chat-b/messages"), { params: { id: "chat-b" } })).status, 404);
+  });
+
+  it("returns 404 when resuming or stopping another user's stream", async () => {
+    for (const chatId of ["chat-b", "chat-b-running"]) {
+      assert.equal((await routes.stream.GET(request(`/api/chat/stream?id=${chatId}`))).status, 404);
+      const stop = request("/api/chat/stream/stop", { method: "POST", body: { id: chatId } });
+      assert.equal((await routes.streamStop.POST(stop)).status, 404);
+    }
+  });
+
+  it("returns 404 before any model work when posting to another user's chat", async () => {
+    for (const chatId of ["chat-b", "chat-b-running"]) {
+      const post = request("/api/chat", { method: "POST", body: { id: chatId, messages: [{ role: "user", content: "Hi" }] } });
+      assert.equal((await routes.chat.POST(post)).status, 404);
+    }
+    assert.deepEqual(userLookups, []);
+  });
+
+  it("returns 404 when deleting another user's chat and keeps its keys", async () => {
+    const { redisKeys } = await import("../lib/redis");
+    assert.equal((await routes.chat.DELETE(request("/api/chat?id=chat-b", { method: "DELETE" }))).status, 404);
+    assert.equal(redisHashes.get(redisKeys.chatMeta("chat-b"))?.userId, OTHER_USER_ID);
+  });
+
+  it("has nothing to resume for the user's own chat without a running turn", async () => {
+    assert.equal((await routes.stream.GET(request("/api/chat/stream?id=chat-a"))).status, 204);
+  });
+});
+
+describe("task ids", () => {
+  it("lists the runs of the user's own task", async () => {
+    assert.equal((await routes.taskRuns.GET(request("/api/tasks/task-a/runs"))).status, 200);
+  });
+
+  it("returns 404 for another user's task", async () => {
+    assert.equal((await routes.taskRuns.GET(request("/api/tasks/task-b/runs"))).status, 404);
+    assert.equal((await routes.taskRun.POST(request("/api/tasks/task-b/run", { method: "POST" }))).status, 404);
+    const update = request("/api/tasks", { method: "PUT", body: { id: "task-b", name: "Renamed" } });
+    assert.equal((await routes.tasks.PUT(update)).status, 404);
+    assert.equal((await routes.tasks.DELETE(request("/api/tasks?id=task-b", { method: "DELETE" }))).status, 404);
+  });
+});
+
+describe("reservation ids", () => {
+  it("serves the user's own reservation", async () => {
+    const response = await routes.reservation.GET(request("/api/reservation?id=reservation-a"));
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).id, "reservation-a");
+  });
+
+  it("returns 404 for another user's reservation", async () => {
+    assert.equal((await routes.reservation.GET(request("/api/reservation?id=reservation-b"))).status, 404);
+    const patch = request("/api/reservation?id=reservation-b", { method: "PATCH", body: { magicWord: "x" } });
+    assert.equal((await routes.reservation.PATCH(patch)).status, 404);
+  });
+});
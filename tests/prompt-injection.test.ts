@@ -0,0 +1,116 @@
+//tests/prompt-injection.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ToolMiddlewarePipeline } from "../ai/custom-middleware";
+import {
+  createOutboundGuardMiddleware,
+  createProvenanceMiddleware,
+  detectInjection,
+  quarantineText,
+  TaintTracker,
+} from "../ai/prompt-injection";
+import { ToolCall } from "../ai/types";
+import { INJECTION_CORPUS, InjectionSample } from "./fixtures/prompt-injection-corpus";
+
+const injections = INJECTION_CORPUS.filter((sample) => sample.expected.length > 0);
+const benign = INJECTION_CORPUS.filter((sample) => sample.expected.length === 0);
+
+// The tool call each sample would have come back from
+const SOURCE_CALLS: Record<InjectionSample["source"], Omit<ToolCall, "id">> = {
+  web: { name: "fire_web_scrape", args: { url: "https://example.com" } },
+  email: { name: "gmail_operations", args: { action: "get_message", messageId: "m1" } },
+  github: { name: "github_tool", args: { action: "get_issues", owner: "acme", repo: "app" } },
+};
+
+const SEND_EMAIL: ToolCall = { id: "send", name: "gmail_operations", args: { action: "send_email", to: "a@b.co" } };
+
+const context = { chatId: "chat", userId: "user", emit: () => {}, respond: () => {} };
+
+async function readThroughProvenance(sample: InjectionSample, taint: TaintTracker) {
+  const toolCall = { id: sample.id, ...SOURCE_CALLS[sample.source] };
+  const result = { toolCallId: toolCall.id, result: { success: true, content: sample.text } };
+  const pipeline = new ToolMiddlewarePipeline().use(createProvenanceMiddleware(taint));
+  const outcome = await pipeline.afterToolCall(toolCall, result, result.result, context);
+  return outcome.toolResult?.result;
+}
+
+describe("detectInjection", () => {
+  it("fires the expected rules on every injection sample", () => {
+    const missed = injections
+      .map((sample) => ({ sample, rules: detectInjection(sample.text) }))
+      .filter(({ sample, rules }) => sample.expected.some((rule) => !rules.includes(rule)))
+      .map(({ sample, rules }) => `${sample.id}: expected ${sample.expected.join(", ")}, got ${rules.join(", ") || "nothing"}`);
+    assert.deepEqual(missed, []);
+  });
+
+  it("fires no rule on benign samples", () => {
+    const falsePositives = benign
+      .map((sample) => ({ sample, rules: detectInjection(sample.text) }))
+      .filter(({ rules }) => rules.length > 0)
+      .map(({ sample, rules }) => `${sample.id}: ${rules.join(", ")}`);
+    assert.deepEqual(falsePositives, []);
+  });
+});
+
+describe("quarantineText", () => {
+  for (const sample of injections) {
+    it(`removes the planted instruction from ${sample.id}`, () => {
+      const { text, rules } = quarantineText(sample.text);
+      for (const rule of sample.expected) assert.ok(rules.includes(rule), `${rule} was not quarantined`);
+      assert.deepEqual(detectInjection(text), [], `still detected in: ${text}`);
+    });
+  }
+
+  for (const sample of benign) {
+    it(`leaves ${sample.id} unchanged`, () => {
+      assert.deepEqual(quarantineText(sample.text), { text: sample.text, rules: [] });
+    });
+  }
+});
+
+describe("provenance and TaintTracker", () => {
+  it("does not hold back outbound actions before untrusted content is read", () => {
+    assert.equal(new TaintTracker().requiresConfirmation(SEND_EMAIL), false);
+  });
+
+  for (const sample of injections) {
+    it(`tags, quarantines and taints ${sample.id}`, async () => {
+      const taint = new TaintTracker();
+      const result = await readThroughProvenance(sample, taint);
+      assert.equal(result.provenance.trust, "untrusted");
+      for (const rule of sample.expected) assert.ok(result.provenance.quarantined?.includes(rule), `${rule} missing`);
+      assert.deepEqual(detectInjection(result.content), []);
+      assert.equal(taint.getSources().length, 1);
+      assert.equal(taint.requiresConfirmation(SEND_EMAIL), true);
+    });
+  }
+
+  for (const sample of benign) {
+    it(`passes ${sample.id} through tagged but unquarantined`, async () => {
+      const taint = new TaintTracker();
+      const result = await readThroughProvenance(sample, taint);
+      assert.equal(result.provenance.trust, "untrusted");
+      assert.equal(result.provenance.quarantined, undefined);
+      assert.equal(result.content, sample.text);
+      // Benign or not, third-party content still gates outbound actions
+      assert.equal(taint.requiresConfirmation(SEND_EMAIL), true);
+    });
+  }
+
+  it("refuses outbound actions in loops that cannot ask once the content is read", async () => {
+    const taint = new TaintTracker();
+    const pipeline = new ToolMiddlewarePipeline().use(createOutboundGuardMiddleware(taint, "a scheduled task"));
+    assert.equal((await pipeline.beforeToolCall(SEND_EMAIL, context)).result, undefined);
+    await readThroughProvenance(injections[0], taint);
+    const refused = (await pipeline.beforeToolCall(SEND_EMAIL, context)).result;
+    assert.equal(refused?.result.success, false);
+    assert.match(refused?.error ?? "", /a scheduled task cannot ask/);
+  });
+
+  it("keeps the taint of a turn resumed after an approval pause", () => {
+    const taint = new TaintTracker(["an email"]);
+    assert.equal(taint.requiresConfirmation(SEND_EMAIL), true);
+    assert.equal(taint.requiresConfirmation({ id: "read", name: "gmail_operations", args: { action: "list_messages" } }), false);
+  });
+});